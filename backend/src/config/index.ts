@@ -16,7 +16,86 @@ export const config = {
 
   // LLM Provider Configuration
   llm: {
-    provider: process.env.LLM_PROVIDER || "anthropic", // "anthropic" or "bedrock"
+    provider: process.env.LLM_PROVIDER || "anthropic", // "anthropic", "bedrock" or "mock"
+    // Tried in order when the primary fails (e.g. "bedrock"), comma-separated
+    fallbackProviders: (process.env.LLM_FALLBACK_PROVIDERS || "").split(",").map(name => name.trim()).filter(Boolean),
+    maxToolIterations: parseInt(process.env.LLM_MAX_TOOL_ITERATIONS || "3", 10),  // Tool-use rounds per turn
+    systemPromptTokenBudget: parseInt(process.env.LLM_SYSTEM_PROMPT_TOKEN_BUDGET || "1600", 10),  // Optional prompt sections are dropped above this
+    failover: {
+      maxAttempts: parseInt(process.env.LLM_RETRY_ATTEMPTS || "2", 10),  // Attempts per provider before failing over
+      retryBaseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || "200", 10),  // Exponential backoff base
+      failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || "3", 10),  // Consecutive failures that open the circuit
+      cooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || "30000", 10),  // Open circuit skips the provider this long
+    },
+  },
+
+  // Conversation history (rolling summarization)
+  history: {
+    tokenBudget: parseInt(process.env.HISTORY_TOKEN_BUDGET || "1500", 10),  // Summarize older turns above this
+    keepRecentTurns: parseInt(process.env.HISTORY_KEEP_RECENT_TURNS || "6", 10),  // Turns always kept verbatim
+    maxTurns: parseInt(process.env.HISTORY_MAX_TURNS || "60", 10),  // Hard cap if summarization keeps failing
+  },
+
+  // Instant responses (greetings / small talk answered without the LLM)
+  instantResponses: {
+    rulesPath: process.env.INSTANT_RESPONSES_FILE || "",  // Optional JSON rule file (replaces the built-in rules)
+    reloadIntervalMs: parseInt(process.env.INSTANT_RESPONSES_RELOAD_MS || "2000", 10),  // How often the file is checked for changes
+    timeZone: process.env.INSTANT_RESPONSES_TIMEZONE || "Asia/Tokyo",  // For time-of-day rules
+    defaultLocale: process.env.INSTANT_RESPONSES_DEFAULT_LOCALE || "ja",  // Variants used when the message locale has none
+  },
+
+  // Pre-synthesized audio for instant responses and greetings (npm run generate:phrase-audio)
+  phraseAudio: {
+    dir: process.env.PHRASE_AUDIO_DIR || join(__dirname, "../../phrase-audio"),
+  },
+
+  // Speech synthesis
+  tts: {
+    engine: process.env.TTS_ENGINE || "gemini",  // "gemini", "google" or "local" (offline sine tones)
+    // Tried in order when the engine fails (e.g. "google,local"), comma-separated
+    fallbackEngines: (process.env.TTS_FALLBACK_ENGINES || "").split(",").map(name => name.trim()).filter(Boolean),
+  },
+
+  // Server-side speech recognition (microphone PCM streamed over the WebSocket)
+  stt: {
+    engine: process.env.STT_ENGINE || "google",  // "google" or "local" (offline stub)
+    languageCode: process.env.STT_LANGUAGE || "ja-JP",
+    sampleRate: parseInt(process.env.STT_SAMPLE_RATE || "16000", 10),  // Default when start_listening has no sampleRate
+    localTranscript: process.env.STT_LOCAL_TRANSCRIPT || "こんにちは",  // What the local recognizer "hears"
+  },
+
+  // Voice activity detection on streamed microphone audio (speech_start / speech_end)
+  vad: {
+    threshold: parseFloat(process.env.VAD_THRESHOLD || "0.02"),  // Normalized RMS (0..1) above which a 20ms frame is voiced
+    minSpeechMs: parseInt(process.env.VAD_MIN_SPEECH_MS || "200", 10),  // Voiced time before speech_start (shorter noises are ignored)
+    hangoverMs: parseInt(process.env.VAD_HANGOVER_MS || "700", 10),  // Silence before speech_end (shorter pauses stay in the utterance)
+    prerollMs: parseInt(process.env.VAD_PREROLL_MS || "300", 10),  // Audio before speech_start also sent to the recognizer
+  },
+
+  // TTS audio cache, keyed by text + voice + style prompt + model (0 MB disables a tier)
+  ttsCache: {
+    memoryMaxMb: parseFloat(process.env.TTS_CACHE_MEMORY_MB || "32"),  // In-memory LRU
+    diskMaxMb: parseFloat(process.env.TTS_CACHE_DISK_MB || "512"),  // Persists across restarts, least recently used files removed above this
+    dir: process.env.TTS_CACHE_DIR || join(__dirname, "../../tts-cache"),
+  },
+
+  // Semantic response cache (answers reused for messages with the same normalized intent)
+  responseCache: {
+    ttlMs: parseInt(process.env.RESPONSE_CACHE_TTL_MS || "600000", 10),  // 10 minutes
+    maxEntries: parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || "300", 10),  // LRU eviction above this
+    similarityThreshold: parseFloat(process.env.RESPONSE_CACHE_SIMILARITY || "0.85"),  // Bigram similarity for a near match (1 = exact only)
+  },
+
+  // Daily LLM spend limits in USD (0 = unlimited); over a limit, replies degrade to the cheapest path
+  spendLimits: {
+    userDailyUsd: parseFloat(process.env.LLM_USER_DAILY_LIMIT_USD || "0"),  // Per user (per session for guests)
+    globalDailyUsd: parseFloat(process.env.LLM_GLOBAL_DAILY_LIMIT_USD || "0"),  // All users combined
+  },
+
+  // Mock LLM provider (offline / CI, no API keys needed)
+  mock: {
+    scriptPath: process.env.MOCK_LLM_SCRIPT || "",  // Optional JSON rule file
+    latencyMs: parseInt(process.env.MOCK_LLM_LATENCY_MS || "0", 10),  // Simulated response delay
   },
 
   // AWS Services (Transcribe + Bedrock)
@@ -63,16 +142,27 @@ export function validateConfig(): void {
   const missing: string[] = [];
 
   // Check LLM provider configuration
-  if (config.llm.provider === "anthropic" && !config.anthropic.apiKey) {
+  const llmProviders = [config.llm.provider, ...config.llm.fallbackProviders];
+
+  if (llmProviders.includes("anthropic") && !config.anthropic.apiKey) {
     missing.push("ANTHROPIC_API_KEY (required for Anthropic provider)");
   }
 
-  if (config.llm.provider === "bedrock") {
+  if (llmProviders.includes("bedrock")) {
     if (!config.aws.accessKeyId || !config.aws.secretAccessKey) {
       missing.push("AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY (required for Bedrock provider)");
     }
   }
 
+  const ttsEngines = [config.tts.engine, ...config.tts.fallbackEngines];
+  if (ttsEngines.some(name => name === "gemini" || name === "google") &&
+      !process.env.GOOGLE_APPLICATION_CREDENTIALS && !config.google.cloudApiKey) {
+    missing.push("GOOGLE_APPLICATION_CREDENTIALS or GOOGLE_CLOUD_API_KEY (required for Google TTS engines)");
+  } else if (config.stt.engine === "google" &&
+      !process.env.GOOGLE_APPLICATION_CREDENTIALS && !config.google.cloudApiKey) {
+    missing.push("GOOGLE_APPLICATION_CREDENTIALS or GOOGLE_CLOUD_API_KEY (required for Google speech recognition)");
+  }
+
   if (missing.length > 0) {
     logger.warn(`Missing environment variables: ${missing.join(", ")}`);
     logger.warn("Some features may not work correctly.");
@@ -81,7 +171,14 @@ export function validateConfig(): void {
   logger.info(`LLM Provider: ${config.llm.provider}`);
   if (config.llm.provider === "bedrock") {
     logger.info(`Bedrock Model: ${config.bedrock.modelId}`);
+  } else if (config.llm.provider === "mock") {
+    logger.info(`Mock Script: ${config.mock.scriptPath || "(built-in)"}`);
   } else {
     logger.info(`Anthropic Model: ${config.anthropic.model}`);
   }
+  if (config.llm.fallbackProviders.length > 0) {
+    logger.info(`LLM Fallback: ${config.llm.fallbackProviders.join(" → ")}`);
+  }
+  logger.info(`TTS Engine: ${ttsEngines.join(" → ")}`);
+  logger.info(`STT Engine: ${config.stt.engine}`);
 }
@@ -98,3 +98,41 @@ export const GOURMET_KEYWORDS = [
   "池袋", "いけぶくろ", "品川", "しながわ", "横浜", "よこはま",
   "東京", "とうきょう", "大阪", "おおさか", "京都", "きょうと"
 ];
+
+// Archive-related keywords (saved items list)
+// Includes both kanji/katakana AND hiragana versions for matching hiragana-normalized STT input
+export const ARCHIVE_KEYWORDS = [
+  // 保存・リスト (kanji/katakana + hiragana)
+  "保存", "ほぞん", "アーカイブ", "あーかいぶ", "リスト", "りすと",
+  "お気に入り", "おきにいり", "ブックマーク", "ぶっくまーく",
+  "覚えて", "おぼえて", "メモ", "めも",
+  
+  // 削除 (kanji + hiragana)
+  "消して", "けして", "削除", "さくじょ", "外して", "はずして", "取り消", "とりけ",
+  
+  // English terms
+  "save", "saved", "archive", "list", "favorite", "remove", "delete"
+];
+
+// Friend-overlap keywords (recommendations from users with similar archives)
+// Includes both kanji/katakana AND hiragana versions for matching hiragana-normalized STT input
+export const FRIEND_KEYWORDS = [
+  // 似た人・友達 (kanji/katakana + hiragana)
+  "みんな", "皆", "似てる", "にてる", "似た", "にた", "同じ趣味", "おなじしゅみ",
+  "友達", "ともだち", "友だち", "フレンド", "ふれんど",
+  "他の人", "ほかのひと", "ほかの人", "他のユーザー", "ほかのゆーざー",
+  
+  // English terms
+  "people like me", "friends", "others"
+];
+
+// Memory keywords (what the assistant remembers about the user)
+// Includes both kanji/katakana AND hiragana versions for matching hiragana-normalized STT input
+export const MEMORY_KEYWORDS = [
+  // 覚える・忘れる (kanji + hiragana)
+  "覚えて", "おぼえて", "忘れて", "わすれて", "記憶", "きおく",
+  "私について", "わたしについて", "僕について", "ぼくについて",
+  
+  // English terms
+  "remember", "forget", "memory", "memories"
+];
@@ -3,10 +3,12 @@ import type {
   ConversationTurn,
   ConversationHistoryRecord,
   DomainType,
+  EmotionType,
 } from "../types/index.js";
 
 /**
  * Save a conversation turn to the database
+ * Returns the row id (for markTurnInterrupted)
  */
 export async function saveConversationTurn(
   sessionId: string,
@@ -15,15 +17,82 @@ export async function saveConversationTurn(
   userId?: string,
   userName?: string,
   userToken?: string
+): Promise<number> {
+  try {
+    const result = await pool.query(
+      `INSERT INTO conversation_history (session_id, user_id, user_name, user_token, role, content, domain, emotion, interrupted)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [sessionId, userId || null, userName || null, userToken || null, turn.role, turn.content, domain, turn.emotion || null, turn.interrupted ?? false]
+    );
+    return result.rows[0].id;
+  } catch (error) {
+    console.error("Failed to save conversation turn:", error);
+    throw error;
+  }
+}
+
+/**
+ * Mark a saved assistant turn as interrupted (barge-in after it was saved)
+ * content is replaced with the part the user heard
+ */
+export async function markTurnInterrupted(id: number, content: string): Promise<void> {
+  try {
+    await pool.query(
+      `UPDATE conversation_history SET content = $2, interrupted = TRUE WHERE id = $1`,
+      [id, content]
+    );
+  } catch (error) {
+    console.error("Failed to mark conversation turn interrupted:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save the rolling summary of older turns for a session
+ */
+export async function saveConversationSummary(
+  sessionId: string,
+  summary: string,
+  summarizedTurns: number,
+  userId?: string
 ): Promise<void> {
   try {
     await pool.query(
-      `INSERT INTO conversation_history (session_id, user_id, user_name, user_token, role, content, domain, emotion)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [sessionId, userId || null, userName || null, userToken || null, turn.role, turn.content, domain, turn.emotion || null]
+      `INSERT INTO conversation_summary (session_id, user_id, summary, summarized_turns)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (session_id) DO UPDATE
+       SET user_id = EXCLUDED.user_id,
+           summary = EXCLUDED.summary,
+           summarized_turns = EXCLUDED.summarized_turns,
+           updated_at = CURRENT_TIMESTAMP`,
+      [sessionId, userId || null, summary, summarizedTurns]
     );
   } catch (error) {
-    console.error("Failed to save conversation turn:", error);
+    console.error("Failed to save conversation summary:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the most recently updated rolling summary for a user
+ */
+export async function getConversationSummaryByUserId(
+  userId: string
+): Promise<{ summary: string; summarizedTurns: number } | null> {
+  try {
+    const result = await pool.query(
+      `SELECT summary, summarized_turns
+       FROM conversation_summary
+       WHERE user_id = $1
+       ORDER BY updated_at DESC
+       LIMIT 1`,
+      [userId]
+    );
+    const row = result.rows[0];
+    return row ? { summary: row.summary, summarizedTurns: row.summarized_turns } : null;
+  } catch (error) {
+    console.error("Failed to get conversation summary:", error);
     throw error;
   }
 }
@@ -38,7 +107,7 @@ export async function getConversationHistory(
 ): Promise<ConversationHistoryRecord[]> {
   try {
     let query = `
-      SELECT id, session_id, user_id, user_name, user_token, role, content, domain, emotion, created_at
+      SELECT id, session_id, user_id, user_name, user_token, role, content, domain, emotion, interrupted, created_at
       FROM conversation_history
       WHERE session_id = $1
     `;
@@ -71,7 +140,8 @@ export function recordsToTurns(
     role: record.role,
     content: record.content,
     domain: record.domain,
-    emotion: record.emotion as any,
+    emotion: record.emotion as EmotionType | undefined,
+    interrupted: record.interrupted,
   }));
 }
 
@@ -84,7 +154,7 @@ export async function getRecentHistoryByDomain(
 ): Promise<ConversationHistoryRecord[]> {
   try {
     const result = await pool.query(
-      `SELECT id, session_id, user_id, user_name, user_token, role, content, domain, emotion, created_at
+      `SELECT id, session_id, user_id, user_name, user_token, role, content, domain, emotion, interrupted, created_at
        FROM conversation_history
        WHERE domain = $1
        ORDER BY created_at DESC
@@ -155,7 +225,7 @@ export async function getConversationHistoryByUserId(
 ): Promise<ConversationHistoryRecord[]> {
   try {
     let query = `
-      SELECT id, session_id, user_id, user_name, user_token, role, content, domain, emotion, created_at
+      SELECT id, session_id, user_id, user_name, user_token, role, content, domain, emotion, interrupted, created_at
       FROM conversation_history
       WHERE user_id = $1
     `;
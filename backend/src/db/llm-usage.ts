@@ -0,0 +1,183 @@
+import { pool } from "./connection.js";
+
+/**
+ * One LLM call's token usage and cost
+ */
+export interface LLMUsageRecord {
+  sessionId?: string;
+  userId?: string;
+  provider: string;
+  purpose: string;  // "chat", "summary", ...
+  inputTokens: number;  // Uncached input
+  outputTokens: number;
+  cacheReadTokens: number;  // Prompt prefix read from the provider cache
+  cacheWriteTokens: number;  // Prompt prefix written to the provider cache
+  costUsd: number;
+}
+
+/**
+ * Aggregated usage (per user, per session or per day)
+ */
+export interface UsageTotals {
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number;
+}
+
+export interface UserUsageSummary extends UsageTotals {
+  user_id: string | null;  // null for guests
+  sessions: number;
+}
+
+export interface SessionUsageSummary extends UsageTotals {
+  session_id: string;
+  started_at: Date;
+  last_used_at: Date;
+}
+
+export interface DailyUsageSummary extends UsageTotals {
+  day: string;  // YYYY-MM-DD
+}
+
+// Shared SELECT list for aggregates (pg returns SUM/COUNT as strings)
+const TOTALS_COLUMNS = `
+  COUNT(*)::int AS requests,
+  COALESCE(SUM(input_tokens), 0)::int AS input_tokens,
+  COALESCE(SUM(output_tokens), 0)::int AS output_tokens,
+  COALESCE(SUM(cache_read_tokens), 0)::int AS cache_read_tokens,
+  COALESCE(SUM(cache_write_tokens), 0)::int AS cache_write_tokens,
+  COALESCE(SUM(cost_usd), 0)::float AS cost_usd
+`;
+
+/**
+ * Record one LLM call
+ */
+export async function saveLLMUsage(record: LLMUsageRecord): Promise<void> {
+  try {
+    await pool.query(
+      `INSERT INTO llm_usage
+         (session_id, user_id, provider, purpose, input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, cost_usd)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        record.sessionId || null,
+        record.userId && record.userId !== "guest" ? record.userId : null,  // Guests are aggregated as null
+        record.provider,
+        record.purpose,
+        record.inputTokens,
+        record.outputTokens,
+        record.cacheReadTokens,
+        record.cacheWriteTokens,
+        record.costUsd,
+      ]
+    );
+  } catch (error) {
+    console.error("Failed to save LLM usage:", error);
+    throw error;
+  }
+}
+
+/**
+ * Per-user usage over the last N days (highest cost first)
+ */
+export async function getUsageByUser(
+  days: number = 30,
+  limit: number = 100
+): Promise<UserUsageSummary[]> {
+  try {
+    const result = await pool.query(
+      `SELECT user_id, COUNT(DISTINCT session_id)::int AS sessions, ${TOTALS_COLUMNS}
+       FROM llm_usage
+       WHERE created_at >= NOW() - make_interval(days => $1)
+       GROUP BY user_id
+       ORDER BY cost_usd DESC
+       LIMIT $2`,
+      [days, limit]
+    );
+
+    return result.rows;
+  } catch (error) {
+    console.error("Failed to get usage by user:", error);
+    throw error;
+  }
+}
+
+/**
+ * One user's usage over the last N days
+ */
+export async function getUserUsage(
+  userId: string,
+  days: number = 30
+): Promise<{ total: UsageTotals; daily: DailyUsageSummary[]; sessions: SessionUsageSummary[] }> {
+  try {
+    const params = [userId, days];
+    const where = `WHERE user_id = $1 AND created_at >= NOW() - make_interval(days => $2)`;
+
+    const [total, daily, sessions] = await Promise.all([
+      pool.query(`SELECT ${TOTALS_COLUMNS} FROM llm_usage ${where}`, params),
+      pool.query(
+        `SELECT to_char(created_at, 'YYYY-MM-DD') AS day, ${TOTALS_COLUMNS}
+         FROM llm_usage ${where}
+         GROUP BY day
+         ORDER BY day DESC`,
+        params
+      ),
+      pool.query(
+        `SELECT session_id, MIN(created_at) AS started_at, MAX(created_at) AS last_used_at, ${TOTALS_COLUMNS}
+         FROM llm_usage ${where} AND session_id IS NOT NULL
+         GROUP BY session_id
+         ORDER BY last_used_at DESC
+         LIMIT 50`,
+        params
+      ),
+    ]);
+
+    return { total: total.rows[0], daily: daily.rows, sessions: sessions.rows };
+  } catch (error) {
+    console.error("Failed to get user usage:", error);
+    throw error;
+  }
+}
+
+/**
+ * Usage of one session
+ */
+export async function getSessionUsage(sessionId: string): Promise<UsageTotals> {
+  try {
+    const result = await pool.query(
+      `SELECT ${TOTALS_COLUMNS} FROM llm_usage WHERE session_id = $1`,
+      [sessionId]
+    );
+
+    return result.rows[0];
+  } catch (error) {
+    console.error("Failed to get session usage:", error);
+    throw error;
+  }
+}
+
+/**
+ * Spend since midnight (database time), globally or for one user / guest session
+ */
+export async function getDailySpend(filter: { userId?: string; sessionId?: string } = {}): Promise<number> {
+  try {
+    let query = `SELECT COALESCE(SUM(cost_usd), 0)::float AS cost_usd FROM llm_usage WHERE created_at >= CURRENT_DATE`;
+    const params: string[] = [];
+
+    if (filter.userId) {
+      params.push(filter.userId);
+      query += ` AND user_id = $${params.length}`;
+    } else if (filter.sessionId) {
+      params.push(filter.sessionId);
+      query += ` AND session_id = $${params.length}`;
+    }
+
+    const result = await pool.query(query, params);
+    return result.rows[0].cost_usd;
+  } catch (error) {
+    console.error("Failed to get daily spend:", error);
+    throw error;
+  }
+}
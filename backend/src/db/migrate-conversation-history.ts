@@ -97,6 +97,25 @@ async function migrate() {
         `);
         console.log("✅ user_token column added");
       }
+
+      // Check and add interrupted column (assistant turns cut off by barge-in)
+      const interruptedCheck = await pool.query(`
+        SELECT EXISTS (
+          SELECT FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = 'conversation_history'
+          AND column_name = 'interrupted'
+        );
+      `);
+
+      if (!interruptedCheck.rows[0].exists) {
+        console.log("➕ Adding interrupted column...");
+        await pool.query(`
+          ALTER TABLE conversation_history 
+          ADD COLUMN interrupted BOOLEAN NOT NULL DEFAULT FALSE;
+        `);
+        console.log("✅ interrupted column added");
+      }
     } else {
       console.log("📦 Creating conversation_history table...");
       
@@ -112,6 +131,7 @@ async function migrate() {
           content TEXT NOT NULL,
           domain VARCHAR(50) NOT NULL DEFAULT 'movie',
           emotion VARCHAR(20),
+          interrupted BOOLEAN NOT NULL DEFAULT FALSE,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         )
       `);
@@ -129,6 +149,21 @@ async function migrate() {
       console.log("✅ Created indexes");
     }
 
+    // Rolling summary of older turns (per session)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS conversation_summary (
+        session_id VARCHAR(255) PRIMARY KEY,
+        user_id VARCHAR(255),
+        summary TEXT NOT NULL,
+        summarized_turns INTEGER NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_conversation_summary_user_id ON conversation_summary(user_id);
+    `);
+    console.log("✅ conversation_summary table ready");
+
     console.log("🎉 Migration complete!");
   } catch (error) {
     console.error("❌ Migration failed:", error);
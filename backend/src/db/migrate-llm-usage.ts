@@ -0,0 +1,54 @@
+import { pool, closePool } from "./connection.js";
+
+/**
+ * Migration script to add llm_usage table
+ * Run with: npm run db:migrate-usage
+ */
+async function migrate() {
+  console.log("🔧 Migrating database to add llm_usage table...");
+
+  try {
+    // Create llm_usage table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS llm_usage (
+        id SERIAL PRIMARY KEY,
+        session_id VARCHAR(255),
+        user_id VARCHAR(255),
+        provider VARCHAR(50) NOT NULL,
+        purpose VARCHAR(50) NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log("✅ Created llm_usage table");
+
+    // Prompt cache columns (tables created before prompt caching)
+    await pool.query(`
+      ALTER TABLE llm_usage ADD COLUMN IF NOT EXISTS cache_read_tokens INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE llm_usage ADD COLUMN IF NOT EXISTS cache_write_tokens INTEGER NOT NULL DEFAULT 0;
+    `);
+    console.log("✅ Added llm_usage cache token columns");
+
+    // Create indexes for llm_usage
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_session_id ON llm_usage(session_id);
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at DESC);
+    `);
+    console.log("✅ Created llm_usage indexes");
+
+    console.log("🎉 Migration complete!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    throw error;
+  } finally {
+    await closePool();
+  }
+}
+
+// Run migration
+migrate().catch(console.error);
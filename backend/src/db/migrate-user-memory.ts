@@ -0,0 +1,43 @@
+import { pool, closePool } from "./connection.js";
+
+/**
+ * Migration script to add user_memory table
+ * Run with: npm run db:migrate-memory
+ */
+async function migrate() {
+  console.log("🔧 Migrating database to add user_memory table...");
+
+  try {
+    // Create user_memory table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_memory (
+        id SERIAL PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL,
+        category VARCHAR(50) NOT NULL CHECK (category IN ('like', 'dislike', 'diet', 'location')),
+        subject VARCHAR(255) NOT NULL,
+        source_text TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, subject)
+      )
+    `);
+    console.log("✅ Created user_memory table");
+
+    // Create indexes for user_memory
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_user_memory_user_id ON user_memory(user_id);
+      CREATE INDEX IF NOT EXISTS idx_user_memory_updated_at ON user_memory(updated_at DESC);
+    `);
+    console.log("✅ Created user_memory indexes");
+
+    console.log("🎉 Migration complete!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    throw error;
+  } finally {
+    await closePool();
+  }
+}
+
+// Run migration
+migrate().catch(console.error);
@@ -45,6 +45,7 @@ async function setup() {
         content TEXT NOT NULL,
         domain VARCHAR(50) NOT NULL DEFAULT 'movie',
         emotion VARCHAR(20),
+        interrupted BOOLEAN NOT NULL DEFAULT FALSE,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
@@ -61,6 +62,21 @@ async function setup() {
     `);
     console.log("✅ Created conversation_history indexes");
 
+    // Create conversation_summary table (rolling summary of older turns per session)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS conversation_summary (
+        session_id VARCHAR(255) PRIMARY KEY,
+        user_id VARCHAR(255),
+        summary TEXT NOT NULL,
+        summarized_turns INTEGER NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_conversation_summary_user_id ON conversation_summary(user_id);
+    `);
+    console.log("✅ Created conversation_summary table");
+
     // Create user_profile table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS user_profile (
@@ -125,6 +141,54 @@ async function setup() {
     `);
     console.log("✅ Created user_archive indexes");
 
+    // Create user_memory table (preferences remembered from conversation)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_memory (
+        id SERIAL PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL,
+        category VARCHAR(50) NOT NULL CHECK (category IN ('like', 'dislike', 'diet', 'location')),
+        subject VARCHAR(255) NOT NULL,
+        source_text TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, subject)
+      )
+    `);
+    console.log("✅ Created user_memory table");
+
+    // Create indexes for user_memory
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_user_memory_user_id ON user_memory(user_id);
+      CREATE INDEX IF NOT EXISTS idx_user_memory_updated_at ON user_memory(updated_at DESC);
+    `);
+    console.log("✅ Created user_memory indexes");
+
+    // Create llm_usage table (per-call token usage and cost)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS llm_usage (
+        id SERIAL PRIMARY KEY,
+        session_id VARCHAR(255),
+        user_id VARCHAR(255),
+        provider VARCHAR(50) NOT NULL,
+        purpose VARCHAR(50) NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log("✅ Created llm_usage table");
+
+    // Create indexes for llm_usage
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_session_id ON llm_usage(session_id);
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at DESC);
+    `);
+    console.log("✅ Created llm_usage indexes");
+
     // Check if we have sample data
     const countResult = await pool.query("SELECT COUNT(*) FROM movies");
     const count = parseInt(countResult.rows[0].count, 10);
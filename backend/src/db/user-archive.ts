@@ -1,5 +1,5 @@
 import { pool } from "./connection.js";
-import type { DomainType } from "../types/index.js";
+import type { DomainType, FriendRecommendation } from "../types/index.js";
 
 /**
  * User archive interface matching database schema
@@ -187,3 +187,63 @@ export async function getFriendsWhoSavedItem(
     return [];
   }
 }
+
+/**
+ * Get items saved by users with overlapping archives but not by this user
+ * Users are weighted by how many items they share with this user;
+ * an item's score is the sum of the weights of the users who saved it
+ */
+export async function getFriendRecommendations(
+  userId: string,
+  domain?: DomainType,
+  limit: number = 10
+): Promise<FriendRecommendation[]> {
+  try {
+    const result = await pool.query(
+      `WITH my_items AS (
+         SELECT domain, item_id FROM user_archive WHERE user_id = $1
+       ),
+       similar_users AS (
+         SELECT ua.user_id, COUNT(*) AS overlap
+         FROM user_archive ua
+         JOIN my_items mi ON ua.domain = mi.domain AND ua.item_id = mi.item_id
+         WHERE ua.user_id != $1
+         GROUP BY ua.user_id
+       )
+       SELECT
+         ua.domain,
+         ua.item_id,
+         (array_agg(ua.item_title ORDER BY ua.created_at DESC))[1] AS item_title,
+         (array_agg(ua.item_data ORDER BY ua.created_at DESC))[1] AS item_data,
+         SUM(su.overlap) AS score,
+         json_agg(json_build_object(
+           'id', ua.user_id,
+           'name', COALESCE(up.nick_name, up.name, 'User ' || ua.user_id)
+         ) ORDER BY su.overlap DESC) AS friends
+       FROM user_archive ua
+       JOIN similar_users su ON su.user_id = ua.user_id
+       LEFT JOIN user_profile up ON ua.user_id::integer = up.users_id
+       WHERE NOT EXISTS (
+           SELECT 1 FROM my_items mi
+           WHERE mi.domain = ua.domain AND mi.item_id = ua.item_id
+         )
+         AND ($2::text IS NULL OR ua.domain = $2)
+       GROUP BY ua.domain, ua.item_id
+       ORDER BY score DESC, COUNT(*) DESC, MAX(ua.created_at) DESC
+       LIMIT $3`,
+      [userId, domain || null, limit]
+    );
+
+    return result.rows.map(row => ({
+      itemId: row.item_id,
+      itemTitle: row.item_title || row.item_id,
+      domain: row.domain,
+      itemData: row.item_data || undefined,
+      friends: row.friends,
+      score: parseInt(row.score, 10),
+    }));
+  } catch (error) {
+    console.error("Failed to get friend recommendations:", error);
+    throw error;
+  }
+}
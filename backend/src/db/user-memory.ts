@@ -0,0 +1,130 @@
+import { pool } from "./connection.js";
+
+/**
+ * Memory category
+ * - like / dislike: stated likes and dislikes ("ホラーが苦手")
+ * - diet: dietary restrictions ("ベジタリアン", "えびアレルギー")
+ * - location: where the user lives ("渋谷の近く")
+ */
+export type MemoryCategory = "like" | "dislike" | "diet" | "location";
+
+/**
+ * User memory interface matching database schema
+ */
+export interface UserMemory {
+  id: number;
+  user_id: string;
+  category: MemoryCategory;
+  subject: string;
+  source_text?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Save a memory (one row per subject; a new statement about the same subject replaces the old one)
+ */
+export async function saveMemory(
+  userId: string,
+  category: MemoryCategory,
+  subject: string,
+  sourceText?: string
+): Promise<UserMemory> {
+  try {
+    const result = await pool.query(
+      `INSERT INTO user_memory (user_id, category, subject, source_text)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, subject) DO UPDATE
+       SET category = EXCLUDED.category,
+           source_text = EXCLUDED.source_text,
+           updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [userId, category, subject, sourceText || null]
+    );
+
+    return result.rows[0];
+  } catch (error) {
+    console.error("Failed to save memory:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get user's memories (most recently updated first)
+ */
+export async function getMemories(
+  userId: string,
+  limit: number = 50
+): Promise<UserMemory[]> {
+  try {
+    const result = await pool.query(
+      `SELECT id, user_id, category, subject, source_text, created_at, updated_at
+       FROM user_memory
+       WHERE user_id = $1
+       ORDER BY updated_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+
+    return result.rows;
+  } catch (error) {
+    console.error("Failed to get memories:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a memory by ID
+ */
+export async function deleteMemory(userId: string, memoryId: number): Promise<boolean> {
+  try {
+    const result = await pool.query(
+      `DELETE FROM user_memory WHERE user_id = $1 AND id = $2`,
+      [userId, memoryId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  } catch (error) {
+    console.error("Failed to delete memory:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete memories of a category (e.g. previous location when the user moved)
+ * Returns number of deleted rows
+ */
+export async function deleteMemoriesByCategory(
+  userId: string,
+  category: MemoryCategory
+): Promise<number> {
+  try {
+    const result = await pool.query(
+      `DELETE FROM user_memory WHERE user_id = $1 AND category = $2`,
+      [userId, category]
+    );
+
+    return result.rowCount || 0;
+  } catch (error) {
+    console.error("Failed to delete memories by category:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete all memories for a user
+ * Returns number of deleted rows
+ */
+export async function clearMemories(userId: string): Promise<number> {
+  try {
+    const result = await pool.query(
+      `DELETE FROM user_memory WHERE user_id = $1`,
+      [userId]
+    );
+
+    return result.rowCount || 0;
+  } catch (error) {
+    console.error("Failed to clear memories:", error);
+    throw error;
+  }
+}
@@ -42,6 +42,7 @@ export interface UserContext {
   introduction?: string;
   province?: string;
   interests?: string[];
+  memories?: string[];  // Preferences remembered from conversation (user_memory)
 }
 
 /**
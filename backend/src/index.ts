@@ -3,7 +3,7 @@ import cors from "cors";
 import { createServer } from "http";
 import { WebSocketServer } from "ws";
 import { config, validateConfig } from "./config/index.js";
-import { handleConnection, getSessionCount } from "./websocket/handler.js";
+import { handleConnection, getSessionCount, stopSessionCleanup } from "./websocket/handler.js";
 import { testConnection } from "./db/connection.js";
 import { logger } from "./utils/logger.js";
 import { 
@@ -11,8 +11,17 @@ import {
   removeFromArchive, 
   getArchiveByDomain, 
   isInArchive,
-  getFriendsWhoSavedItem
+  getFriendsWhoSavedItem,
+  getFriendRecommendations
 } from "./db/user-archive.js";
+import { getMemories, deleteMemory, clearMemories } from "./db/user-memory.js";
+import { formatMemory } from "./services/user-memory.js";
+import { getUsageByUser, getUserUsage, getSessionUsage } from "./db/llm-usage.js";
+import { getFailoverStatus } from "./services/claude/failover.js";
+import { getResponseCacheStats } from "./services/claude/response-cache.js";
+import { loadPhraseAudio } from "./services/phrase-audio.js";
+import { getTTSCacheStats } from "./services/tts/cache.js";
+import { getEngineChain, getVoiceCatalog } from "./services/tts/index.js";
 import type { DomainType } from "./types/index.js";
 import transcribeRouter from "./routes/transcribe.js";
 
@@ -30,6 +39,9 @@ app.get("/health", (_req, res) => {
     status: "ok",
     timestamp: new Date().toISOString(),
     activeSessions: getSessionCount(),
+    llmProviders: getFailoverStatus(),
+    responseCache: getResponseCacheStats(),
+    ttsCache: getTTSCacheStats(),
   });
 });
 
@@ -41,6 +53,9 @@ app.get("/api", (_req, res) => {
     endpoints: {
       health: "/health",
       websocket: "/ws",
+      tts: {
+        voices: "GET /api/tts/voices",
+      },
       transcribe: {
         stsToken: "GET /api/transcribe/sts-token",
         health: "GET /api/transcribe/health",
@@ -49,12 +64,28 @@ app.get("/api", (_req, res) => {
         save: "POST /api/archive",
         remove: "DELETE /api/archive",
         list: "GET /api/archive/:userId",
+        recommendations: "GET /api/archive/:userId/recommendations",
         check: "GET /api/archive/:userId/:domain/:itemId",
       },
+      memory: {
+        list: "GET /api/memory/:userId",
+        forget: "DELETE /api/memory/:userId/:memoryId",
+        forgetAll: "DELETE /api/memory/:userId",
+      },
+      usage: {
+        byUser: "GET /api/usage",
+        session: "GET /api/usage/session/:sessionId",
+        user: "GET /api/usage/:userId",
+      },
     },
   });
 });
 
+// TTS engines and their voices (engineChain: configured engine, then fallbacks)
+app.get("/api/tts/voices", (_req, res) => {
+  res.json({ engineChain: getEngineChain(), engines: getVoiceCatalog() });
+});
+
 // Mount transcribe routes
 app.use("/api/transcribe", transcribeRouter);
 
@@ -171,6 +202,37 @@ app.get("/api/archive/:userId", async (req, res) => {
   }
 });
 
+/**
+ * Get items saved by users with overlapping archives
+ * GET /api/archive/:userId/recommendations?domain=movie&limit=10
+ */
+app.get("/api/archive/:userId/recommendations", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const domain = req.query.domain as DomainType | undefined;
+    const limit = parseInt(req.query.limit as string) || 10;
+
+    if (!userId) {
+      return res.status(400).json({ 
+        error: "Missing userId" 
+      });
+    }
+
+    const recommendations = await getFriendRecommendations(userId, domain, limit);
+
+    res.json({
+      success: true,
+      recommendations,
+      count: recommendations.length,
+    });
+  } catch (error) {
+    logger.error("Archive recommendations error: " + (error instanceof Error ? error.message : String(error)));
+    res.status(500).json({ 
+      error: "Failed to get recommendations" 
+    });
+  }
+});
+
 /**
  * Check if item is in user's archive
  * GET /api/archive/:userId/:domain/:itemId
@@ -199,6 +261,161 @@ app.get("/api/archive/:userId/:domain/:itemId", async (req, res) => {
   }
 });
 
+// Memory API endpoints (preferences remembered from conversation)
+
+/**
+ * Get user's memories
+ * GET /api/memory/:userId
+ */
+app.get("/api/memory/:userId", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const memories = await getMemories(userId);
+
+    res.json({
+      success: true,
+      memories: memories.map(memory => ({ ...memory, text: formatMemory(memory) })),
+      count: memories.length,
+    });
+  } catch (error) {
+    logger.error("Memory list error: " + (error instanceof Error ? error.message : String(error)));
+    res.status(500).json({ 
+      error: "Failed to get memories" 
+    });
+  }
+});
+
+/**
+ * Forget one memory
+ * DELETE /api/memory/:userId/:memoryId
+ */
+app.delete("/api/memory/:userId/:memoryId", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const memoryId = parseInt(req.params.memoryId, 10);
+
+    if (isNaN(memoryId)) {
+      return res.status(400).json({ 
+        error: "Invalid memoryId" 
+      });
+    }
+
+    const deleted = await deleteMemory(userId, memoryId);
+
+    if (deleted) {
+      logger.info(`Memory forgotten: user=${userId}, memoryId=${memoryId}`);
+      res.json({
+        success: true,
+        message: "Memory forgotten",
+      });
+    } else {
+      res.status(404).json({
+        error: "Memory not found",
+      });
+    }
+  } catch (error) {
+    logger.error("Memory delete error: " + (error instanceof Error ? error.message : String(error)));
+    res.status(500).json({ 
+      error: "Failed to forget memory" 
+    });
+  }
+});
+
+/**
+ * Forget all memories
+ * DELETE /api/memory/:userId
+ */
+app.delete("/api/memory/:userId", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const count = await clearMemories(userId);
+
+    logger.info(`Memories cleared: user=${userId}, count=${count}`);
+    res.json({
+      success: true,
+      message: "All memories forgotten",
+      count,
+    });
+  } catch (error) {
+    logger.error("Memory clear error: " + (error instanceof Error ? error.message : String(error)));
+    res.status(500).json({ 
+      error: "Failed to forget memories" 
+    });
+  }
+});
+
+// Usage API endpoints (LLM token usage and cost, recorded per call in llm_usage)
+
+/**
+ * Per-user usage report (highest cost first)
+ * GET /api/usage?days=30&limit=100
+ */
+app.get("/api/usage", async (req, res) => {
+  try {
+    const days = parseInt(req.query.days as string) || 30;
+    const limit = parseInt(req.query.limit as string) || 100;
+    const users = await getUsageByUser(days, limit);
+
+    res.json({
+      success: true,
+      days,
+      users,
+      count: users.length,
+    });
+  } catch (error) {
+    logger.error("Usage report error: " + (error instanceof Error ? error.message : String(error)));
+    res.status(500).json({ 
+      error: "Failed to get usage report" 
+    });
+  }
+});
+
+/**
+ * Usage of one session
+ * GET /api/usage/session/:sessionId
+ */
+app.get("/api/usage/session/:sessionId", async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const usage = await getSessionUsage(sessionId);
+
+    res.json({
+      success: true,
+      sessionId,
+      usage,
+    });
+  } catch (error) {
+    logger.error("Session usage error: " + (error instanceof Error ? error.message : String(error)));
+    res.status(500).json({ 
+      error: "Failed to get session usage" 
+    });
+  }
+});
+
+/**
+ * One user's usage: total, per day and per session
+ * GET /api/usage/:userId?days=30
+ */
+app.get("/api/usage/:userId", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const days = parseInt(req.query.days as string) || 30;
+    const usage = await getUserUsage(userId, days);
+
+    res.json({
+      success: true,
+      userId,
+      days,
+      ...usage,
+    });
+  } catch (error) {
+    logger.error("User usage error: " + (error instanceof Error ? error.message : String(error)));
+    res.status(500).json({ 
+      error: "Failed to get user usage" 
+    });
+  }
+});
+
 // Create HTTP server
 const server = createServer(app);
 
@@ -227,6 +444,12 @@ async function start() {
     logger.warn("Run 'npm run db:setup' after setting up PostgreSQL.");
   }
 
+  // Pre-synthesized audio for instant responses and greetings
+  const phraseCount = await loadPhraseAudio();
+  if (phraseCount === 0) {
+    logger.warn("No phrase audio found. Run 'npm run generate:phrase-audio' to pre-synthesize greetings.");
+  }
+
   // Start HTTP server
   server.listen(config.port, () => {
     // Always show these logs (not through logger to ensure visibility)
@@ -262,6 +485,7 @@ async function start() {
 // Handle graceful shutdown
 process.on("SIGTERM", () => {
   logger.info("Shutting down gracefully...");
+  stopSessionCleanup();
   wss.close();
   server.close(() => {
     logger.info("Server closed");
@@ -271,6 +495,7 @@ process.on("SIGTERM", () => {
 
 process.on("SIGINT", () => {
   logger.info("Shutting down gracefully...");
+  stopSessionCleanup();
   wss.close();
   server.close(() => {
     logger.info("Server closed");
@@ -0,0 +1,84 @@
+/**
+ * Generate Phrase Audio
+ *
+ * Pre-synthesizes every instant response and greeting variant
+ * (services/instant-responses.ts, or INSTANT_RESPONSES_FILE) into the
+ * phrase audio cache, so they are played without waiting for TTS.
+ * Phrases that already have audio are skipped unless --force is given.
+ *
+ * Usage: npm run generate:phrase-audio [-- --force]
+ */
+
+import { getInstantPhrases } from "../services/instant-responses.js";
+import { hasPhraseAudio, loadPhraseAudio, renderPhraseAudio } from "../services/phrase-audio.js";
+import { config } from "../config/index.js";
+import { createLogger } from "../utils/logger.js";
+import type { TTSOptions } from "../types/index.js";
+
+const log = createLogger("GeneratePhraseAudio");
+
+const force = process.argv.includes("--force");
+
+/**
+ * Generate all phrase audio
+ */
+async function generateAll(): Promise<void> {
+  log.info("=".repeat(60));
+  log.info("Generating Phrase Audio");
+  log.info("=".repeat(60));
+  log.info(`Output directory: ${config.phraseAudio.dir}`);
+
+  await loadPhraseAudio();
+
+  // Same voice settings the handler uses for replies
+  const phrases: Array<{ text: string; options: TTSOptions }> = [];
+  const seen = new Set<string>();
+  for (const { text, emotion } of getInstantPhrases()) {
+    const id = `${emotion}:${text}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    phrases.push({ text, options: { emotion, voice: "female" } });
+  }
+  log.info(`Total phrases: ${phrases.length}${force ? " (--force: regenerating all)" : ""}`);
+  log.info("");
+
+  const startTime = Date.now();
+  let generated = 0;
+  let skipped = 0;
+  let failCount = 0;
+
+  for (const { text, options } of phrases) {
+    if (!force && hasPhraseAudio(text, options)) {
+      skipped++;
+      continue;
+    }
+    try {
+      log.info(`Generating [${options.emotion}] "${text}"`);
+      await renderPhraseAudio(text, options, force);
+      generated++;
+    } catch (error) {
+      failCount++;
+      log.error(`✗ Failed to generate "${text}":`, error);
+    }
+  }
+
+  const duration = Date.now() - startTime;
+
+  log.info("");
+  log.info("=".repeat(60));
+  log.info("Generation Complete");
+  log.info("=".repeat(60));
+  log.info(`Generated: ${generated}, already cached: ${skipped}, failed: ${failCount}`);
+  log.info(`Duration: ${(duration / 1000).toFixed(2)}s`);
+  log.info("");
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+// Run the script
+generateAll().catch((error) => {
+  log.error("Script failed:", error);
+  process.exit(1);
+});
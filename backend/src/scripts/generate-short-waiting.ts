@@ -7,7 +7,7 @@
  * Usage: npm run generate:short-waiting
  */
 
-import { synthesizeSpeech } from "../services/gemini-tts.js";
+import { synthesizeSpeech } from "../services/tts/index.js";
 import { writeFile, mkdir } from "fs/promises";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
@@ -68,10 +68,14 @@ async function generateShortWaiting(
 
     // Use the same voice settings as responses
     // "speaking" emotion for natural conversational tone
-    const audioBuffer = await synthesizeSpeech(text, {
+    const { audio: audioBuffer, format, engine } = await synthesizeSpeech(text, {
       emotion: "speaking",
       voice: "female",
     });
+    // The frontend plays these as {index}.mp3
+    if (format !== "mp3") {
+      throw new Error(`TTS engine "${engine}" produces ${format}, not mp3`);
+    }
 
     // Ensure output directory exists
     await mkdir(OUTPUT_DIR, { recursive: true });
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from "vitest";
+import type { GourmetRestaurant, Movie } from "../types/index.js";
+import type { ToolPresentation } from "./tools/index.js";
+
+vi.hoisted(() => {
+  process.env.LLM_PROVIDER = "mock";
+  process.env.LLM_FALLBACK_PROVIDERS = "";
+  process.env.MOCK_LLM_SCRIPT = "";
+  process.env.MOCK_LLM_LATENCY_MS = "0";
+});
+
+const movie: Movie = {
+  id: 1,
+  title_ja: "インセプション",
+  title_en: "Inception",
+  description: "夢の中に潜入する",
+  overview: null,
+  poster_path: null,
+  release_year: 2010,
+  rating: 8.8,
+  director: "クリストファー・ノーラン",
+  actors: [],
+};
+
+const restaurant: GourmetRestaurant = {
+  id: 1,
+  code: "r1",
+  name: "らーめん兎",
+  name_short: null,
+  address: "東京都渋谷区",
+  lat: null,
+  lng: null,
+  catch_copy: "濃厚とんこつ",
+  capacity: null,
+  access: null,
+  urls_pc: null,
+  open_hours: null,
+  close_days: null,
+  budget_id: null,
+};
+
+vi.mock("../db/movies.js", () => ({
+  searchMovies: vi.fn(async () => ({ movies: [movie], total: 1 })),
+}));
+
+vi.mock("../db/gourmet.js", () => ({
+  searchGourmetRestaurants: vi.fn(async () => ({ restaurants: [restaurant], total: 1 })),
+}));
+
+const { chat } = await import("./claude.js");
+const { createToolContext } = await import("./tools/index.js");
+const { searchMovies } = await import("../db/movies.js");
+const { searchGourmetRestaurants } = await import("../db/gourmet.js");
+
+function toolContext(userText: string, presentations: ToolPresentation[]) {
+  return createToolContext({
+    userText,
+    history: [],
+    isCancelled: () => false,
+    onPresentation: presentation => presentations.push(presentation),
+  });
+}
+
+describe("chat with the mock provider", () => {
+  it("answers small talk without tools", async () => {
+    const response = await chat([], "今日は仕事が長かったんだ");
+    expect(response).toMatchObject({ text: "うんうん、その話もっと聞かせて！", emotion: "happy", usedTool: false });
+  });
+
+  it("runs a search_movies round trip", async () => {
+    const message = "インセプションって映画知ってる？";
+    const presentations: ToolPresentation[] = [];
+    const steps: string[] = [];
+
+    const response = await chat([], message, {
+      toolContext: toolContext(message, presentations),
+      onToolStep: event => steps.push(`${event.phase}:${event.tools.join(",")}`),
+    });
+
+    expect(searchMovies).toHaveBeenCalledWith(message, undefined, undefined);
+    expect(steps).toEqual(["start:search_movies", "end:search_movies"]);
+    expect(response).toMatchObject({
+      text: "見つかったよ！1番から順番に見てみてね。",
+      emotion: "excited",
+      usedTool: true,
+      toolsUsed: ["search_movies"],
+      followUps: ["1番を詳しく", "他にもある？"],
+    });
+    expect(presentations[0].searchResults).toMatchObject({ type: "movie", movies: [movie], total: 1 });
+    expect(presentations[0].activeResults?.query).toBe(message);
+  });
+
+  it("streams a gourmet_search round trip", async () => {
+    const message = "渋谷でラーメン食べたい";
+    const presentations: ToolPresentation[] = [];
+    const chunks: string[] = [];
+    const sentences: string[] = [];
+
+    const response = await chat([], message, {
+      toolContext: toolContext(message, presentations),
+      onChunk: chunk => chunks.push(chunk),
+      onSentence: sentence => sentences.push(sentence),
+    });
+
+    expect(searchGourmetRestaurants).toHaveBeenCalledWith(message, undefined, undefined);
+    expect(response.toolsUsed).toEqual(["gourmet_search"]);
+    expect(chunks.join("")).toBe(response.text);
+    expect(sentences.join("")).toBe(response.text);
+    expect(presentations[0].searchResults).toMatchObject({ type: "gourmet", restaurants: [restaurant] });
+  });
+
+  it("skips tools in economy mode", async () => {
+    const message = "インセプションって映画知ってる？";
+    vi.mocked(searchMovies).mockClear();
+
+    const response = await chat([], message, { toolContext: toolContext(message, []), economy: true });
+
+    expect(response.usedTool).toBe(false);
+    expect(searchMovies).not.toHaveBeenCalled();
+  });
+
+  it("offers no tools without a tool context", async () => {
+    const response = await chat([], "おすすめの映画ある？");
+    expect(response.usedTool).toBe(false);
+  });
+});
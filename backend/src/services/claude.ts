@@ -1,10 +1,15 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { config } from "../config/index.js";
 import { createLogger } from "../utils/logger.js";
-import { invokeLLM, invokeLLMStream } from "./claude/provider.js";
+import { invokeLLM, invokeLLMStream, type LLMRequest, type LLMUsageScope } from "./claude/provider.js";
+import type { LLMContentBlock, LLMMessage, LLMResponse } from "./claude/types.js";
 import { detectScenario, buildSystemPrompt } from "./claude/prompts.js";
-import { MOVIE_KEYWORDS, GOURMET_KEYWORDS } from "../constants/keywords.js";
-import type { ConversationTurn, EmotionType, MovieSearchResult, ActiveResultSet } from "../types/index.js";
+import { getInstantResponse } from "./instant-responses.js";
+import { prepareCacheLookup, getCachedResponse, setCachedResponse } from "./claude/response-cache.js";
+import { parseReply, createReplyStream, pushReplyDelta, type ReplyStream, type StructuredReply } from "./claude/response-format.js";
+import { getToolSchemas, needsTools, executeTool, type ToolContext } from "./tools/index.js";
+import type { UserContext } from "../db/user-profile.js";
+import type { ConversationTurn, EmotionType, ActiveResultSet } from "../types/index.js";
 
 const log = createLogger("Claude");
 
@@ -13,262 +18,32 @@ const STOP_SEQUENCES = ["以上です。", "おわり。", "<END>"];
 
 // Tighter token limits for conversational style (speaker, not writer)
 // 1 sentence ideal, max 2 sentences for natural spoken response
-const MAX_TOKENS_DEFAULT = 100;  // ~40-50 chars, 1-2 short sentences
-const MAX_TOKENS_TOOL = 180;      // Tool use needs slightly more
-const MAX_TOKENS_TOOL_FOLLOWUP = 400;  // Summary of search results with numbered narration (up to 3 items)
-
-// Tool definitions for Claude
-const tools: Anthropic.Tool[] = [
-  {
-    name: "search_movies",
-    description: "映画・ドラマ・アニメを検索。知らない作品名、固有名詞、不明な単語があれば積極的に検索する。作品名は元の表記のまま検索する（翻訳不要）",
-    input_schema: {
-      type: "object" as const,
-      properties: {
-        query: { type: "string", description: "作品名、キーワード、または不明な固有名詞（英語・日本語・カタカナどれでもOK、元の表記のまま検索。「映画」「movie」等の一般語は除外し、固有名詞のみ）" },
-        genre: { type: "string", description: "ジャンル" },
-        year: { type: "number", description: "公開年" },
-      },
-      required: ["query"],
-    },
-  },
-  {
-    name: "gourmet_search",
-    description: "レストラン・飲食店を検索。エリア、料理ジャンル、店名などで検索する。店名は元の表記のまま検索する（翻訳不要）",
-    input_schema: {
-      type: "object" as const,
-      properties: {
-        query: { type: "string", description: "店名、料理ジャンル、キーワード（英語・日本語・カタカナどれでもOK、元の表記のまま検索。「レストラン」「restaurant」等の一般語は除外し、固有名詞のみ）" },
-        area: { type: "string", description: "エリア・地域名（例：新宿、渋谷、銀座）" },
-        cuisine: { type: "string", description: "料理の種類（例：イタリアン、和食、寿司）" },
-      },
-      required: ["query"],
-    },
-  },
-];
-
-// Enhanced in-memory LRU cache for common requests (inspired by TEN Framework)
-// Cache includes context from recent conversation turns for better hit rate
-const CACHE_TTL_MS = 10 * 60 * 1000;  // 10 minutes for multi-turn conversations
-const CACHE_LIMIT = 300;  // Increased to accommodate context-aware keys
-const MAX_CACHE_KEY_LENGTH = 500;  // Limit key length to prevent excessive memory
-interface CacheEntry {
-  value: ChatResponse;
-  timestamp: number;
-  lastAccessed: number;
-}
-const responseCache = new Map<string, CacheEntry>();
-
-// Common greeting patterns for instant responses (casual, friendly tone)
-// NOTE: Avoid starting with short interjections (ああ, うん, えっと, わぁ, etc.)
-// as frontend already plays these as waiting sounds
-const INSTANT_RESPONSES: Map<RegExp, ChatResponse> = new Map([
-  [/^(こんにちは|こんにちわ|hello|hi|ハロー)$/i, {
-    text: "元気？なんか話そうよ！",
-    emotion: "happy" as EmotionType,
-    usedTool: false
-  }],
-  [/^(ありがとう|ありがとうございます|thanks|thank you)$/i, {
-    text: "いえいえ〜！また何かあったら言ってね！",
-    emotion: "happy" as EmotionType,
-    usedTool: false
-  }],
-  [/^(さようなら|バイバイ|bye|goodbye)$/i, {
-    text: "またね〜！いつでも話しかけてね！",
-    emotion: "happy" as EmotionType,
-    usedTool: false
-  }],
-  [/^(はい|うん|ok|okay)$/i, {
-    text: "で、どうしたの？",
-    emotion: "neutral" as EmotionType,
-    usedTool: false
-  }],
-  [/^(おはよう|おはようございます)$/i, {
-    text: "おはよ〜！今日も一日頑張ろうね！",
-    emotion: "happy" as EmotionType,
-    usedTool: false
-  }],
-  [/^(疲れた|つかれた)$/i, {
-    text: "お疲れさま〜！ゆっくり休んでね！",
-    emotion: "sad" as EmotionType,
-    usedTool: false
-  }],
-  [/^(暇|ひま|ヒマ)$/i, {
-    text: "じゃあ一緒に何か話そうよ！",
-    emotion: "excited" as EmotionType,
-    usedTool: false
-  }],
-]);
-
-/**
- * Check for instant responses (no API call needed)
- */
-function getInstantResponse(message: string): ChatResponse | null {
-  const trimmed = message.trim();
-  for (const [pattern, response] of INSTANT_RESPONSES) {
-    if (pattern.test(trimmed)) {
-      return response;
-    }
-  }
-  return null;
-}
-
-/**
- * Check if the query needs movie search tools
- * Considers both explicit keywords and conversation context
- */
-export function needsMovieSearch(message: string, history?: ConversationTurn[]): boolean {
-  const lowerMessage = message.toLowerCase();
-  
-  // Explicit movie keywords
-  const hasExplicitKeyword = MOVIE_KEYWORDS.some(keyword =>
-    lowerMessage.includes(keyword.toLowerCase())
-  );
-  
-  if (hasExplicitKeyword) return true;
-  
-  // Implicit detection: Check if recent conversation was about movies
-  if (history && history.length > 0) {
-    const recentTurns = history.slice(-3); // Last 3 turns
-    const hasMovieContext = recentTurns.some(turn => turn.domain === 'movie');
-    
-    if (hasMovieContext) {
-      // Implicit follow-up questions that need data
-      const implicitPatterns = [
-        /教えて|紹介|おすすめ|詳しく|もっと|他に|別の|探し|検索|知りたい|見たい|聞きたい/,
-        /それ|その|こ[のれ]|あ[のれ]/, // これ, それ, あれ, この, その, あの
-        /どんな|何|誰|いつ|どこ|なぜ|どう/,
-      ];
-      
-      return implicitPatterns.some(pattern => pattern.test(lowerMessage));
-    }
-  }
-  
-  return false;
-}
+// Each includes ~60 tokens for the JSON reply envelope (keys, display, follow-ups)
+const MAX_TOKENS_DEFAULT = 160;  // ~40-50 chars, 1-2 short sentences
+const MAX_TOKENS_TOOL = 240;      // Tool use needs slightly more
+const MAX_TOKENS_TOOL_FOLLOWUP = 480;  // Summary of search results with numbered narration (up to 3 items)
+const MAX_TOKENS_ECONOMY = 100;    // Spend limit reached: one short sentence
 
-/**
- * Check if the query needs gourmet search tools
- * Considers both explicit keywords and conversation context
- */
-export function needsGourmetSearch(message: string, history?: ConversationTurn[]): boolean {
-  const lowerMessage = message.toLowerCase();
-  
-  // Explicit gourmet keywords
-  const hasExplicitKeyword = GOURMET_KEYWORDS.some(keyword =>
-    lowerMessage.includes(keyword.toLowerCase())
-  );
-  
-  if (hasExplicitKeyword) return true;
-  
-  // Implicit detection: Check if recent conversation was about gourmet
-  if (history && history.length > 0) {
-    const recentTurns = history.slice(-3); // Last 3 turns
-    const hasGourmetContext = recentTurns.some(turn => turn.domain === 'gourmet');
-    
-    if (hasGourmetContext) {
-      // Implicit follow-up questions that need data
-      const implicitPatterns = [
-        /教えて|紹介|おすすめ|詳しく|もっと|他に|別の|探し|検索|知りたい|行きたい|聞きたい/,
-        /それ|その|こ[のれ]|あ[のれ]/, // これ, それ, あれ, この, その, あの
-        /どんな|何|誰|いつ|どこ|なぜ|どう/,
-        /予算|値段|価格|料金|安い|高い/, // Price-related (gourmet specific)
-        /営業|時間|定休|予約/, // Hours/reservation (gourmet specific)
-      ];
-      
-      return implicitPatterns.some(pattern => pattern.test(lowerMessage));
-    }
-  }
-  
-  return false;
-}
+// Appended to an assistant turn the user cut off (barge-in)
+const INTERRUPTED_MARKER = "[ここでユーザーが話を遮った]";
 
 /**
- * Check if the query needs any search tools (movie or gourmet)
+ * Check if the query needs any tools (movie, gourmet, ...)
  * Now considers conversation history for implicit detection
  */
 export function needsSearch(message: string, history?: ConversationTurn[]): boolean {
-  return needsMovieSearch(message, history) || needsGourmetSearch(message, history);
-}
-
-/**
- * Generate cache key for multi-turn conversations
- * Uses the last 2 turns + current message to create a context-aware key
- * This allows caching even in longer conversations when recent context is similar
- */
-function getCacheKey(history: ConversationTurn[], userMessage: string): string | null {
-  const normalized = userMessage.trim().toLowerCase();
-  if (normalized.length < 2) return null;
-
-  // For short/no history, use simple message-based key
-  if (history.length === 0) {
-    return normalized;
-  }
-
-  // For conversations with history, include last 2 turns for context
-  // This allows caching similar follow-up questions across conversations
-  const recentHistory = history.slice(-2);
-  const contextParts: string[] = [];
-
-  for (const turn of recentHistory) {
-    // Use truncated content to keep keys manageable
-    const content = turn.content.trim().toLowerCase().slice(0, 50);
-    contextParts.push(`${turn.role}:${content}`);
-  }
-
-  // Combine context with current message
-  const contextKey = contextParts.join("|");
-  return `${contextKey}||${normalized}`;
-}
-
-function getCachedResponse(key: string | null): ChatResponse | null {
-  if (!key) return null;
-  const entry = responseCache.get(key);
-  if (!entry) return null;
-  if (Date.now() - entry.timestamp > CACHE_TTL_MS) {
-    responseCache.delete(key);
-    return null;
-  }
-  // Update last accessed time for LRU
-  entry.lastAccessed = Date.now();
-  return entry.value;
-}
-
-function setCachedResponse(key: string | null, value: ChatResponse): void {
-  if (!key) return;
-
-  // Skip caching if key is too long (context-aware keys can get large)
-  if (key.length > MAX_CACHE_KEY_LENGTH) {
-    log.debug(`Cache key too long (${key.length} chars), skipping cache`);
-    return;
-  }
-
-  const now = Date.now();
-
-  // LRU eviction: remove least recently accessed entry
-  if (responseCache.size >= CACHE_LIMIT) {
-    let oldestKey: string | null = null;
-    let oldestAccess = Infinity;
-
-    for (const [k, v] of responseCache.entries()) {
-      if (v.lastAccessed < oldestAccess) {
-        oldestAccess = v.lastAccessed;
-        oldestKey = k;
-      }
-    }
-
-    if (oldestKey) {
-      responseCache.delete(oldestKey);
-    }
-  }
-
-  responseCache.set(key, { value, timestamp: now, lastAccessed: now });
+  return needsTools(message, history);
 }
 
 export interface ChatResponse {
   text: string;
   emotion: EmotionType;
   usedTool: boolean;
+  toolsUsed?: string[];  // Names of tools called this turn (in call order)
+  displayText?: string;  // On-screen rendering when it differs from the spoken text
+  referencedItem?: number;  // 1-based number of the active result the reply is about
+  followUps?: string[];  // Suggested next messages
+  instant?: boolean;  // Fixed instant response (audio comes from the phrase audio cache)
 }
 
 /**
@@ -318,6 +93,18 @@ function removeExcessiveEmojis(text: string): string {
   return text;
 }
 
+/**
+ * Clean text for the chat bubble
+ * Unlike removeExcessiveEmojis, keeps alphabet, URLs, numbers and emojis
+ */
+function cleanDisplayText(text: string): string {
+  return text
+    .replace(/\[EMOTION:\w+\]/g, '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\*\*([^*]+)\*\*/g, '$1')
+    .trim();
+}
+
 /**
  * Trim text to the last complete sentence.
  * When max_tokens is hit, the API stops mid-sentence producing meaningless
@@ -351,17 +138,20 @@ function trimToCompleteSentence(text: string): string {
 }
 
 /**
- * Parse emotion and text from Claude's response
+ * Parse a complete reply into a ChatResponse-shaped result
+ * Speech is cleaned for TTS and trimmed to complete sentences.
+ * Without a display field, the speech before TTS cleanup is shown on screen
+ * (English titles the model wrote anyway are kept there).
  */
-function parseEmotionAndText(content: string): { emotion: EmotionType; text: string } {
-  const emotionMatch = content.match(/\[EMOTION:(\w+)\]/);
-  const emotion = (emotionMatch?.[1] as EmotionType) || "neutral";
-  let text = content.replace(/\[EMOTION:\w+\]\n?/, "").trim();
-  
-  // Remove excessive emojis (keep only first one)
-  text = removeExcessiveEmojis(text);
-  
-  return { emotion, text };
+function toReplyResult(raw: string): StructuredReply {
+  const { reply, format } = parseReply(raw);
+  if (format !== "json" && raw.trim()) {
+    log.debug(`Reply was not valid JSON (${format}): "${raw.slice(0, 80)}"`);
+  }
+
+  const speech = trimToCompleteSentence(removeExcessiveEmojis(reply.speech));
+  const display = trimToCompleteSentence(cleanDisplayText(reply.display ?? reply.speech));
+  return { ...reply, speech, display: display && display !== speech ? display : undefined };
 }
 
 /**
@@ -372,30 +162,21 @@ function parseEmotionAndText(content: string): { emotion: EmotionType; text: str
 function toClaudeMessages(history: ConversationTurn[]): Anthropic.MessageParam[] {
   const recentHistory = history.slice(-6);
   return recentHistory
-    .filter((turn) => turn.content && turn.content.trim().length > 0)
+    .filter((turn) => turn.interrupted || (turn.content && turn.content.trim().length > 0))
     .map((turn) => ({
       role: turn.role,
-      content: turn.content,
+      content: turn.interrupted ? markInterrupted(turn.content) : turn.content,
     }));
 }
 
 /**
- * Format movie results compactly
+ * Assistant turn cut off by the user (barge-in): content is only what was
+ * spoken, the marker tells the model it was interrupted there
  */
-function formatMovieResults(results: MovieSearchResult): string {
-  if (results.movies.length === 0) {
-    return JSON.stringify({ found: 0 });
-  }
-
-  const compact = results.movies.slice(0, 5).map(m => ({
-    t: m.title_ja,
-    y: m.release_year,
-    r: m.rating,
-    d: m.director,
-    // g: m.genre?.slice(0, 2)
-  }));
-
-  return JSON.stringify(compact);
+function markInterrupted(content: string): string {
+  return content.trim()
+    ? `${content}……${INTERRUPTED_MARKER}`
+    : INTERRUPTED_MARKER;
 }
 
 /**
@@ -423,19 +204,22 @@ export function* extractCompleteSentences(buffer: string): Generator<{ sentence:
  * Helper to process stream events and extract text with sentence boundaries
  * Note: This processes events inline to avoid SDK stream handling issues
  * 
- * OPTIMIZATION: The [EMOTION:xxx] tag is stripped before sending to frontend
- * to save bandwidth. Only clean text is sent via onChunk.
+ * OPTIMIZATION: Only the speech field of the JSON reply is sent to the
+ * frontend (the emotion tag in legacy replies is stripped).
  */
 interface StreamState {
-  fullText: string;
+  reply: ReplyStream;
   sentenceBuffer: string;
   detectedEmotion: EmotionType;
-  emotionParsed: boolean;
-  pendingText: string;  // Buffer for text before emotion tag is parsed
 }
 
-// Max chars to wait for emotion tag before assuming it's missing
-const EMOTION_TAG_MAX_WAIT = 40;
+function createStreamState(): StreamState {
+  return {
+    reply: createReplyStream(),
+    sentenceBuffer: "",
+    detectedEmotion: "neutral",
+  };
+}
 
 function processStreamEvent(
   delta: string,
@@ -443,49 +227,16 @@ function processStreamEvent(
   onChunk?: (text: string) => void,
   onSentence?: (sentence: string, emotion: EmotionType) => void
 ): void {
-  state.fullText += delta;
-
-  // Parse emotion from beginning of response
-  if (!state.emotionParsed) {
-    state.pendingText += delta;
-    
-    // Check if we have the complete emotion tag
-    if (state.fullText.includes("]")) {
-      const parsed = parseEmotionAndText(state.fullText);
-      state.detectedEmotion = parsed.emotion;
-      state.emotionParsed = true;
-      state.sentenceBuffer = parsed.text;
-      
-      // Send the clean text (without emotion tag) to frontend
-      if (onChunk && parsed.text.length > 0) {
-        onChunk(removeExcessiveEmojis(parsed.text));
-      }
-      state.pendingText = "";
-    } 
-    // FALLBACK: If we've received enough text without finding emotion tag,
-    // assume there's no tag and start streaming immediately
-    else if (state.pendingText.length > EMOTION_TAG_MAX_WAIT || 
-             !state.fullText.startsWith("[")) {
-      log.debug("No emotion tag detected, using fallback (neutral)");
-      state.detectedEmotion = "neutral";
-      state.emotionParsed = true;
-      state.sentenceBuffer = state.pendingText;
-      
-      // Send all buffered text to frontend
-      if (onChunk && state.pendingText.length > 0) {
-        onChunk(removeExcessiveEmojis(state.pendingText));
-      }
-      state.pendingText = "";
-    }
-    // Don't send anything until emotion tag is complete (saves bandwidth)
-  } else {
-    // Emotion already parsed - send delta directly (it's clean text)
-    if (onChunk) onChunk(removeExcessiveEmojis(delta));
-    state.sentenceBuffer += delta;
-  }
+  // Nothing is sent until the speech field starts (emotion comes first)
+  const speech = pushReplyDelta(state.reply, delta);
+  if (!speech) return;
+
+  state.detectedEmotion = state.reply.emotion ?? "neutral";
+  if (onChunk) onChunk(removeExcessiveEmojis(speech));
+  state.sentenceBuffer += speech;
 
   // Emit complete sentences for parallel TTS
-  if (onSentence && state.emotionParsed) {
+  if (onSentence) {
     for (const { sentence, remaining } of extractCompleteSentences(state.sentenceBuffer)) {
       // Filter emojis before TTS to avoid reading emoji descriptions
       const cleanSentence = removeExcessiveEmojis(sentence);
@@ -498,7 +249,7 @@ function processStreamEvent(
 function finalizeStream(
   state: StreamState,
   onSentence?: (sentence: string, emotion: EmotionType) => void
-): { fullText: string; emotion: EmotionType } {
+): StructuredReply {
   // Only emit remaining buffer to TTS if it's a complete sentence.
   // When max_tokens cuts off mid-sentence, the trailing fragment
   // (e.g. "家族で一緒に見るのが") would produce meaningless TTS audio.
@@ -511,210 +262,260 @@ function finalizeStream(
     }
   }
 
-  const { emotion, text } = parseEmotionAndText(state.fullText);
   // Trim to last complete sentence so chat display is also clean
-  const trimmedText = trimToCompleteSentence(text);
-  return { fullText: trimmedText, emotion };
+  return toReplyResult(state.reply.raw);
+}
+
+/**
+ * Tool step event (one per agent loop iteration, reported at start and end)
+ */
+export interface ToolStepEvent {
+  phase: "start" | "end";
+  iteration: number;
+  tools: string[];
+  durationMs?: number;
+}
+
+interface ToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+/**
+ * Echo the model's turn back as message content (text and tool_use blocks)
+ */
+function toAssistantContent(blocks: LLMContentBlock[]): Exclude<LLMMessage["content"], string> {
+  return blocks.map(block => block.type === "tool_use"
+    ? { type: "tool_use" as const, id: block.id || "", name: block.name || "", input: block.input ?? {} }
+    : { type: "text" as const, text: block.text || "" });
+}
+
+/**
+ * Execute a single tool_use block and build its tool_result
+ * Failures are reported back to the model instead of aborting the turn
+ */
+async function runTool(block: LLMContentBlock, ctx: ToolContext): Promise<ToolResultBlock> {
+  const toolUseId = block.id || "";
+
+  try {
+    const content = await executeTool(block.name || "", block.input || {}, ctx);
+    return { type: "tool_result", tool_use_id: toolUseId, content: content || JSON.stringify({ found: 0 }) };
+  } catch (error) {
+    log.error(`Tool ${block.name} failed:`, error);
+    return { type: "tool_result", tool_use_id: toolUseId, content: "ツールの実行に失敗しました", is_error: true };
+  }
+}
+
+/**
+ * Options for chat()
+ */
+export interface ChatOptions {
+  toolContext?: ToolContext;  // Enables registered tools for this turn (omit to disable)
+  userContext?: UserContext;  // User context from user_profile (personalized prompt)
+  activeResults?: ActiveResultSet | null;  // Current active result set for numbered selection context
+  summary?: string;  // Summary of older turns no longer in history
+  usageScope?: LLMUsageScope;  // Session/user the token usage is recorded against
+  economy?: boolean;  // Spend limit reached: instant/cached answers first, no tools, short replies
+  onChunk?: (text: string) => void;
+  onSentence?: (sentence: string, emotion: EmotionType) => void;
+  onToolUse?: () => void;  // Called when tool_use is detected (before DB search)
+  onToolStep?: (event: ToolStepEvent) => void;  // Called at the start and end of each tool loop iteration
+  signal?: AbortSignal;  // Cancels in-flight LLM calls and the tool loop (barge-in)
 }
 
 /**
  * Chat with Claude - optimized for performance
  * Now supports sentence-level streaming for parallel TTS
+ * With onChunk/onSentence set, every LLM call streams, tool turns included
  *
- * @param onMovieSearch - Callback that receives search params and returns formatted results string
- * @param onGourmetSearch - Callback that receives search params and returns formatted results string
- *                          The string is passed directly to the LLM as tool result content
+ * Tools come from the tool registry (services/tools); tool_use blocks are
+ * dispatched through options.toolContext.
  */
 export async function chat(
   history: ConversationTurn[],
   userMessage: string,
-  onMovieSearch?: (query: string, genre?: string, year?: number) => Promise<string>,
-  onChunk?: (text: string) => void,
-  onSentence?: (sentence: string, emotion: EmotionType) => void,
-  onToolUse?: () => void,  // Called when tool_use is detected (before DB search)
-  userContext?: any,  // User context from user_profile (UserContext type)
-  onGourmetSearch?: (query: string, area?: string, cuisine?: string) => Promise<string>,
-  activeResults?: ActiveResultSet | null  // Current active result set for numbered selection context
+  options: ChatOptions = {}
 ): Promise<ChatResponse> {
+  const { toolContext, userContext, activeResults, summary, usageScope, economy, onChunk, onSentence, onToolUse, onToolStep, signal } = options;
   const messages = [
     ...toClaudeMessages(history),
     { role: "user" as const, content: userMessage },
   ];
 
   // Check for instant responses first (no API call, ~0ms)
-  if (history.length === 0 || history.length === 1) {
-    const instant = getInstantResponse(userMessage);
+  // Economy mode uses them at any point in the conversation
+  if (economy || history.length === 0 || history.length === 1) {
+    const instant = getInstantResponse(userMessage, userContext?.nickName);
     if (instant) {
-      log.debug("Instant response (no API call)");
+      log.debug(`Instant response "${instant.ruleId}" (no API call)`);
       if (onChunk) onChunk(removeExcessiveEmojis(instant.text));
-      if (onSentence) onSentence(removeExcessiveEmojis(instant.text), instant.emotion);
-      return instant;
+      // No onSentence: the caller plays the pre-synthesized phrase audio instead of live TTS
+      return { text: instant.text, emotion: instant.emotion, usedTool: false, instant: true };
     }
   }
 
-  // Detect scenario and build appropriate system prompt (with active results context)
+  // Detect scenario and build appropriate system prompt (with summary and active results context)
   const scenario = detectScenario(userMessage, history);
-  const systemPrompt = buildSystemPrompt(scenario, userContext, activeResults);
+  const systemPrompt = buildSystemPrompt(scenario, userContext, activeResults, summary);
   
   log.debug(`Scenario detected: ${scenario}`);
 
   // Pass history for implicit detection (e.g., follow-up questions)
-  const useTools = needsSearch(userMessage, history);
-  const cacheKey = useTools ? null : getCacheKey(history, userMessage);
-  const cached = getCachedResponse(cacheKey);
+  const useTools = !economy && toolContext !== undefined && needsSearch(userMessage, history);
+  const maxTokensDefault = economy ? MAX_TOKENS_ECONOMY : MAX_TOKENS_DEFAULT;
+  const tools = getToolSchemas();
+  // Tool turns aren't cached: their search results must reach the frontend
+  const cacheLookup = useTools
+    ? null
+    : prepareCacheLookup({ message: userMessage, history, scenario, userContext, activeResults, summary, economy });
+  const cached = getCachedResponse(cacheLookup);
   if (cached) {
     if (onChunk) onChunk(removeExcessiveEmojis(cached.text));
     if (onSentence) onSentence(removeExcessiveEmojis(cached.text), cached.emotion);
     return cached;
   }
 
-  try {
-    // Non-tool streaming path
-    if (!useTools && onChunk) {
-      const state: StreamState = {
-        fullText: "",
-        sentenceBuffer: "",
-        detectedEmotion: "neutral",
-        emotionParsed: false,
-        pendingText: "",
-      };
-
-      // Use unified LLM streaming (supports both Anthropic and Bedrock)
-      for await (const text of invokeLLMStream({
-        max_tokens: MAX_TOKENS_DEFAULT,
-        system: systemPrompt,
-        messages,
-        stop_sequences: STOP_SEQUENCES,
-      })) {
-        processStreamEvent(text, state, onChunk, onSentence);
-      }
+  const streaming = onChunk !== undefined || onSentence !== undefined;
+  // Replies streamed to the client so far, one entry per LLM call
+  const streamed: StructuredReply[] = [];
+
+  /**
+   * One LLM call: streams deltas and TTS sentences when callbacks are set
+   * (text before a tool call included); tool_use input arrives assembled
+   */
+  const callLLM = async (body: LLMRequest): Promise<LLMResponse> => {
+    const request = { ...body, signal };
+    if (!streaming) {
+      return invokeLLM(request, usageScope);
+    }
+
+    const state = createStreamState();
+    const stream = invokeLLMStream(request, usageScope);
+    let next = await stream.next();
+    while (!next.done) {
+      processStreamEvent(next.value, state, onChunk, onSentence);
+      next = await stream.next();
+    }
 
-      const { fullText, emotion } = finalizeStream(state, onSentence);
-      const result = { text: fullText, emotion, usedTool: false };
-      setCachedResponse(cacheKey, result);
-      return result;
+    const reply = finalizeStream(state, onSentence);
+    if (reply.speech) {
+      streamed.push(reply);
     }
+    return next.value;
+  };
 
+  try {
     // Use unified LLM invocation (supports both Anthropic and Bedrock)
-    const response = await invokeLLM({
-      max_tokens: useTools ? MAX_TOKENS_TOOL : MAX_TOKENS_DEFAULT,
+    let response = await callLLM({
+      max_tokens: useTools ? MAX_TOKENS_TOOL : maxTokensDefault,
       system: systemPrompt,
       messages,
       stop_sequences: STOP_SEQUENCES,
       tools: useTools ? tools : undefined,
     });
 
-    if (response.stop_reason === "tool_use") {
-      const toolUseBlock = response.content.find(
-        (block) => block.type === "tool_use"
+    // Agent loop: run every tool_use block, feed all results back,
+    // and repeat until the model answers or the iteration budget runs out
+    const maxIterations = config.llm.maxToolIterations;
+    let conversation: LLMRequest["messages"] = messages;
+    let iteration = 0;
+    const toolsUsed: string[] = [];
+
+    while (response.stop_reason === "tool_use" && toolContext) {
+      const toolUseBlocks = response.content.filter((block) => block.type === "tool_use");
+      if (toolUseBlocks.length === 0) break;
+
+      iteration++;
+      const toolNames = toolUseBlocks.map((block) => block.name || "unknown");
+      toolsUsed.push(...toolNames);
+      log.debug(`Tool iteration ${iteration}/${maxIterations}: ${toolNames.join(", ")}`);
+
+      // Notify that tool use is starting (for waiting signal)
+      if (onToolUse) {
+        onToolUse();
+      }
+      signal?.throwIfAborted();
+      if (onToolStep) onToolStep({ phase: "start", iteration, tools: toolNames });
+      const stepStart = performance.now();
+
+      // Independent tool calls in the same turn run in parallel
+      const toolResults = await Promise.all(
+        toolUseBlocks.map((block) => runTool(block, toolContext))
       );
 
-      let searchResultContent: string | null = null;
-
-      // Handle movie search
-      if (toolUseBlock && toolUseBlock.name === "search_movies" && onMovieSearch) {
-        // Notify that tool use is starting (for waiting signal)
-        if (onToolUse) {
-          onToolUse();
-        }
-        
-        const input = toolUseBlock.input as { query: string; genre?: string; year?: number };
-        // onMovieSearch now returns formatted string (database results only)
-        searchResultContent = await onMovieSearch(input.query, input.genre, input.year);
-      }
-      
-      // Handle gourmet search
-      if (toolUseBlock && toolUseBlock.name === "gourmet_search" && onGourmetSearch) {
-        // Notify that tool use is starting (for waiting signal)
-        if (onToolUse) {
-          onToolUse();
-        }
-        
-        const input = toolUseBlock.input as { query: string; area?: string; cuisine?: string };
-        searchResultContent = await onGourmetSearch(input.query, input.area, input.cuisine);
+      if (onToolStep) {
+        onToolStep({
+          phase: "end",
+          iteration,
+          tools: toolNames,
+          durationMs: Math.round(performance.now() - stepStart),
+        });
       }
 
-      if (searchResultContent && toolUseBlock) {
-
-        // Use streaming for follow-up response to enable parallel TTS
-        if (onChunk || onSentence) {
-          const state: StreamState = {
-            fullText: "",
-            sentenceBuffer: "",
-            detectedEmotion: "neutral",
-            emotionParsed: false,
-            pendingText: "",
-          };
-
-          // Use unified LLM streaming for follow-up
-          for await (const text of invokeLLMStream({
-            max_tokens: MAX_TOKENS_TOOL_FOLLOWUP,
-            system: systemPrompt,
-            messages: [
-              ...messages,
-              { role: "assistant", content: response.content },
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "tool_result",
-                    tool_use_id: toolUseBlock.id,
-                    content: searchResultContent,
-                  },
-                ],
-              },
-            ],
-            stop_sequences: STOP_SEQUENCES,
-          })) {
-            processStreamEvent(text, state, onChunk, onSentence);
-          }
-
-          const { fullText, emotion } = finalizeStream(state, onSentence);
-          return { text: fullText, emotion, usedTool: true };
-        }
-
-        // Non-streaming fallback
-        const followUpResponse = await invokeLLM({
+      conversation = [
+        ...conversation,
+        { role: "assistant", content: toAssistantContent(response.content) },
+        { role: "user", content: toolResults },
+      ];
+
+      // Budget exhausted: force a final answer without tools
+      if (iteration >= maxIterations) {
+        log.debug(`Tool iteration limit reached (${maxIterations}), forcing final answer`);
+        response = await callLLM({
           max_tokens: MAX_TOKENS_TOOL_FOLLOWUP,
           system: systemPrompt,
-          messages: [
-            ...messages,
-            { role: "assistant", content: response.content },
-            {
-              role: "user",
-              content: [
-                {
-                  type: "tool_result",
-                  tool_use_id: toolUseBlock.id,
-                  content: searchResultContent,
-                },
-              ],
-            },
-          ],
+          messages: conversation,
           stop_sequences: STOP_SEQUENCES,
         });
+        break;
+      }
 
-        const textContent = followUpResponse.content
-          .filter((block) => block.type === "text")
-          .map((block) => block.text || "")
-          .join("");
+      // Follow-up keeps tools available so the model can chain further calls
+      response = await callLLM({
+        max_tokens: MAX_TOKENS_TOOL_FOLLOWUP,
+        system: systemPrompt,
+        messages: conversation,
+        stop_sequences: STOP_SEQUENCES,
+        tools,
+      });
+    }
 
-        const { emotion, text: rawText } = parseEmotionAndText(textContent);
-        return { text: trimToCompleteSentence(rawText), emotion, usedTool: true };
-      }
+    let text: string;
+    let reply: StructuredReply;
+    if (streaming) {
+      // Everything the user already heard: pre-tool remarks + the answer
+      // (emotion, display text, item and follow-ups come from the answer)
+      text = streamed.map((part) => part.speech).join("");
+      const display = streamed.map((part) => part.display ?? part.speech).join("");
+      reply = { ...(streamed.at(-1) ?? { emotion: "neutral", speech: "" }), display: display !== text ? display : undefined };
+    } else {
+      const textContent = response.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text || "")
+        .join("");
+      reply = toReplyResult(textContent);
+      text = reply.speech;
     }
 
-    const textContent = response.content
-      .filter((block) => block.type === "text")
-      .map((block) => block.text || "")
-      .join("");
+    const result: ChatResponse = {
+      text,
+      emotion: reply.emotion,
+      usedTool: iteration > 0,
+      displayText: reply.display,
+      referencedItem: reply.referencedItem,
+      followUps: reply.followUps,
+    };
+
+    if (iteration > 0) {
+      return { ...result, toolsUsed };
+    }
 
-    const { emotion, text: rawText } = parseEmotionAndText(textContent);
-    const result = { text: trimToCompleteSentence(rawText), emotion, usedTool: false };
-    setCachedResponse(cacheKey, result);
+    setCachedResponse(cacheLookup, result);
     return result;
   } catch (error) {
-    log.error("Claude API error:", error);
+    if (!signal?.aborted) log.error("Claude API error:", error);
     throw error;
   }
 }
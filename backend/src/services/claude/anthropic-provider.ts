@@ -6,21 +6,26 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { config } from "../../config/index.js";
 import { createLogger } from "../../utils/logger.js";
+import { assembleStream } from "./stream-assembler.js";
+import type { LLMMessage, LLMProvider, LLMResponse, LLMSystemBlock, LLMTool, LLMUsage } from "./types.js";
 
 const log = createLogger("AnthropicProvider");
 
 // Initialize Anthropic client
+// Retries are handled by the failover chain in provider.ts
 const anthropic = new Anthropic({
   apiKey: config.anthropic.apiKey,
+  maxRetries: 0,
 });
 
 export interface AnthropicRequest {
   model?: string;
   max_tokens: number;
-  system: string;
-  messages: Array<{ role: string; content: string | any[] }>;
+  system: string | LLMSystemBlock[];
+  messages: LLMMessage[];
   stop_sequences?: string[];
-  tools?: any[];
+  tools?: LLMTool[];
+  signal?: AbortSignal;
 }
 
 export interface AnthropicResponse {
@@ -29,12 +34,24 @@ export interface AnthropicResponse {
     text?: string;
     id?: string;
     name?: string;
-    input?: any;
+    input?: unknown;
   }>;
   stop_reason: string;
-  usage?: {
-    input_tokens: number;
-    output_tokens: number;
+  usage?: LLMUsage;
+}
+
+// Prompt caching endpoint: accepts cache_control on system blocks and reports cache usage
+const messages = anthropic.beta.promptCaching.messages;
+
+/**
+ * Convert API usage (cache fields may be null) to LLMUsage
+ */
+function toUsage(usage: Anthropic.Beta.PromptCaching.PromptCachingBetaUsage): LLMUsage {
+  return {
+    input_tokens: usage.input_tokens,
+    output_tokens: usage.output_tokens,
+    cache_read_input_tokens: usage.cache_read_input_tokens ?? 0,
+    cache_creation_input_tokens: usage.cache_creation_input_tokens ?? 0,
   };
 }
 
@@ -45,20 +62,24 @@ export async function invokeAnthropic(request: AnthropicRequest): Promise<Anthro
   try {
     const startTime = Date.now();
     
-    const response = await anthropic.messages.create({
+    const response = await messages.create({
       model: request.model || config.anthropic.model,
       max_tokens: request.max_tokens,
       system: request.system,
-      messages: request.messages as Anthropic.MessageParam[],
+      messages: request.messages,
       stop_sequences: request.stop_sequences,
       tools: request.tools,
-    });
+    }, { signal: request.signal });
 
     const duration = Date.now() - startTime;
     
+    const usage = toUsage(response.usage);
+
     log.debug(`Anthropic request completed in ${duration}ms`, {
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cacheReadTokens: usage.cache_read_input_tokens,
+      cacheWriteTokens: usage.cache_creation_input_tokens,
       stopReason: response.stop_reason,
     });
 
@@ -71,46 +92,59 @@ export async function invokeAnthropic(request: AnthropicRequest): Promise<Anthro
         input: block.type === "tool_use" ? block.input : undefined,
       })),
       stop_reason: response.stop_reason || "end_turn",
-      usage: {
-        input_tokens: response.usage.input_tokens,
-        output_tokens: response.usage.output_tokens,
-      },
+      usage,
     };
   } catch (error) {
-    log.error("Anthropic API error:", error);
+    if (!request.signal?.aborted) log.error("Anthropic API error:", error);
     throw error;
   }
 }
 
 /**
  * Invoke Anthropic Claude model with streaming
- * Yields text deltas as they arrive
+ * Yields text deltas as they arrive and returns the assembled response
+ * (text and tool_use blocks, usage)
  */
 export async function* invokeAnthropicStream(
   request: AnthropicRequest
-): AsyncGenerator<string, void, unknown> {
+): AsyncGenerator<string, LLMResponse, unknown> {
   try {
     const startTime = Date.now();
     
-    const stream = await anthropic.messages.stream({
+    const stream = messages.stream({
       model: request.model || config.anthropic.model,
       max_tokens: request.max_tokens,
       system: request.system,
-      messages: request.messages as Anthropic.MessageParam[],
+      messages: request.messages,
       stop_sequences: request.stop_sequences,
       tools: request.tools,
-    });
+    }, { signal: request.signal });
+
+    const response = yield* assembleStream(stream);
 
-    for await (const event of stream) {
-      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
-        yield event.delta.text;
-      }
-    }
-    
     const duration = Date.now() - startTime;
-    log.debug(`Anthropic streaming completed in ${duration}ms`);
+    log.debug(`Anthropic streaming completed in ${duration}ms`, {
+      inputTokens: response.usage?.input_tokens,
+      outputTokens: response.usage?.output_tokens,
+      cacheReadTokens: response.usage?.cache_read_input_tokens,
+      cacheWriteTokens: response.usage?.cache_creation_input_tokens,
+      stopReason: response.stop_reason,
+    });
+
+    return response;
   } catch (error) {
-    log.error("Anthropic streaming error:", error);
+    if (!request.signal?.aborted) log.error("Anthropic streaming error:", error);
     throw error;
   }
 }
+
+/**
+ * Anthropic provider registration entry
+ */
+export const anthropicProvider: LLMProvider = {
+  name: "anthropic",
+  // Haiku 3.5 pricing on Anthropic API (cache writes 1.25x, reads 0.1x input)
+  pricing: { inputPerMTok: 0.80, outputPerMTok: 4.00, cacheWritePerMTok: 1.00, cacheReadPerMTok: 0.08 },
+  invoke: invokeAnthropic,
+  stream: invokeAnthropicStream,
+};
@@ -5,12 +5,16 @@ import {
 } from "@aws-sdk/client-bedrock-runtime";
 import { config } from "../../config/index.js";
 import { createLogger } from "../../utils/logger.js";
+import { assembleStream, type RawStreamEvent } from "./stream-assembler.js";
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResponse, LLMSystemBlock, LLMTool, LLMUsage } from "./types.js";
 
 const log = createLogger("BedrockClaude");
 
 // Initialize Bedrock client
+// Retries are handled by the failover chain in provider.ts
 const bedrockClient = new BedrockRuntimeClient({
   region: config.bedrock.region,
+  maxAttempts: 1,
   credentials: {
     accessKeyId: config.aws.accessKeyId,
     secretAccessKey: config.aws.secretAccessKey,
@@ -20,18 +24,18 @@ const bedrockClient = new BedrockRuntimeClient({
 // Bedrock message format (compatible with Anthropic)
 interface BedrockMessage {
   role: "user" | "assistant";
-  content: string | Array<{ type: string; text?: string; [key: string]: any }>;
+  content: LLMMessage["content"];
 }
 
 interface BedrockRequest {
   anthropic_version: string;
   max_tokens: number;
-  system?: string;
+  system?: string | LLMSystemBlock[];  // Blocks with cache_control enable prompt caching
   messages: BedrockMessage[];
   temperature?: number;
   top_p?: number;
   stop_sequences?: string[];
-  tools?: any[];
+  tools?: LLMTool[];
 }
 
 interface BedrockResponse {
@@ -43,20 +47,18 @@ interface BedrockResponse {
     text?: string;
     id?: string;
     name?: string;
-    input?: any;
+    input?: unknown;
   }>;
   stop_reason: string;
-  usage: {
-    input_tokens: number;
-    output_tokens: number;
-  };
+  usage: LLMUsage;
 }
 
 /**
  * Invoke Bedrock Claude model (non-streaming)
  */
 export async function invokeBedrockClaude(
-  request: BedrockRequest
+  request: BedrockRequest,
+  signal?: AbortSignal
 ): Promise<BedrockResponse> {
   const command = new InvokeModelCommand({
     modelId: config.bedrock.modelId,
@@ -67,7 +69,7 @@ export async function invokeBedrockClaude(
 
   try {
     const startTime = Date.now();
-    const response = await bedrockClient.send(command);
+    const response = await bedrockClient.send(command, { abortSignal: signal });
     const duration = Date.now() - startTime;
     
     const responseBody = JSON.parse(new TextDecoder().decode(response.body));
@@ -75,23 +77,41 @@ export async function invokeBedrockClaude(
     log.debug(`Bedrock request completed in ${duration}ms`, {
       inputTokens: responseBody.usage?.input_tokens,
       outputTokens: responseBody.usage?.output_tokens,
+      cacheReadTokens: responseBody.usage?.cache_read_input_tokens,
+      cacheWriteTokens: responseBody.usage?.cache_creation_input_tokens,
       stopReason: responseBody.stop_reason,
     });
     
     return responseBody;
   } catch (error) {
-    log.error("Bedrock invoke error:", error);
+    if (!signal?.aborted) log.error("Bedrock invoke error:", error);
     throw error;
   }
 }
 
+/**
+ * Decode Bedrock stream chunks into Anthropic-format message events
+ */
+async function* decodeBedrockEvents(
+  body: AsyncIterable<{ chunk?: { bytes?: Uint8Array } }>
+): AsyncGenerator<RawStreamEvent, void, unknown> {
+  const decoder = new TextDecoder();
+  for await (const event of body) {
+    if (event.chunk?.bytes) {
+      yield JSON.parse(decoder.decode(event.chunk.bytes));
+    }
+  }
+}
+
 /**
  * Invoke Bedrock Claude model with streaming
- * Yields text deltas as they arrive
+ * Yields text deltas as they arrive and returns the assembled response
+ * (text and tool_use blocks, usage)
  */
 export async function* invokeBedrockClaudeStream(
-  request: BedrockRequest
-): AsyncGenerator<string, BedrockResponse | null, unknown> {
+  request: BedrockRequest,
+  signal?: AbortSignal
+): AsyncGenerator<string, LLMResponse, unknown> {
   const command = new InvokeModelWithResponseStreamCommand({
     modelId: config.bedrock.modelId,
     contentType: "application/json",
@@ -101,49 +121,26 @@ export async function* invokeBedrockClaudeStream(
 
   try {
     const startTime = Date.now();
-    const response = await bedrockClient.send(command);
+    const response = await bedrockClient.send(command, { abortSignal: signal });
 
     if (!response.body) {
       throw new Error("No response body from Bedrock");
     }
 
-    let fullResponse: BedrockResponse | null = null;
-
-    // Parse Bedrock event stream
-    for await (const event of response.body) {
-      if (event.chunk) {
-        const chunk = JSON.parse(new TextDecoder().decode(event.chunk.bytes));
-        
-        // Handle different event types
-        if (chunk.type === "content_block_start") {
-          // Content block starting
-          continue;
-        } else if (chunk.type === "content_block_delta") {
-          // Text delta - yield to caller
-          if (chunk.delta?.type === "text_delta" && chunk.delta.text) {
-            yield chunk.delta.text;
-          }
-        } else if (chunk.type === "content_block_stop") {
-          // Content block complete
-          continue;
-        } else if (chunk.type === "message_delta") {
-          // Message metadata update
-          continue;
-        } else if (chunk.type === "message_stop") {
-          // Stream complete
-          const duration = Date.now() - startTime;
-          log.debug(`Bedrock streaming completed in ${duration}ms`);
-          break;
-        } else if (chunk.type === "message_start") {
-          // Message starting - contains initial metadata
-          fullResponse = chunk.message;
-        }
-      }
-    }
+    const result = yield* assembleStream(decodeBedrockEvents(response.body));
+
+    const duration = Date.now() - startTime;
+    log.debug(`Bedrock streaming completed in ${duration}ms`, {
+      inputTokens: result.usage?.input_tokens,
+      outputTokens: result.usage?.output_tokens,
+      cacheReadTokens: result.usage?.cache_read_input_tokens,
+      cacheWriteTokens: result.usage?.cache_creation_input_tokens,
+      stopReason: result.stop_reason,
+    });
 
-    return fullResponse;
+    return result;
   } catch (error) {
-    log.error("Bedrock streaming error:", error);
+    if (!signal?.aborted) log.error("Bedrock streaming error:", error);
     throw error;
   }
 }
@@ -152,10 +149,46 @@ export async function* invokeBedrockClaudeStream(
  * Convert Anthropic message format to Bedrock format
  */
 export function convertToBedrockMessages(
-  messages: Array<{ role: string; content: string | any[] }>
+  messages: LLMMessage[]
 ): BedrockMessage[] {
   return messages.map((msg) => ({
-    role: msg.role as "user" | "assistant",
+    role: msg.role,
     content: msg.content,
   }));
 }
+
+/**
+ * Build Bedrock request body from a unified LLM request
+ */
+function toBedrockRequest(request: LLMRequest): BedrockRequest {
+  return {
+    anthropic_version: "bedrock-2023-05-31",
+    max_tokens: request.max_tokens,
+    system: request.system,
+    messages: convertToBedrockMessages(request.messages),
+    stop_sequences: request.stop_sequences,
+    tools: request.tools,
+  };
+}
+
+/**
+ * Bedrock provider registration entry
+ */
+export const bedrockProvider: LLMProvider = {
+  name: "bedrock",
+  // Haiku 4.5 pricing on Bedrock (approximate; cache writes 1.25x, reads 0.1x input)
+  pricing: { inputPerMTok: 0.25, outputPerMTok: 1.25, cacheWritePerMTok: 0.3125, cacheReadPerMTok: 0.025 },
+
+  async invoke(request) {
+    const response = await invokeBedrockClaude(toBedrockRequest(request), request.signal);
+    return {
+      content: response.content,
+      stop_reason: response.stop_reason,
+      usage: response.usage,
+    };
+  },
+
+  stream(request) {
+    return invokeBedrockClaudeStream(toBedrockRequest(request), request.signal);
+  },
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { config } from "../../config/index.js";
+import {
+  backoffDelay,
+  getCircuitState,
+  isRetryableError,
+  recordFailure,
+  recordSuccess,
+} from "./failover.js";
+
+const { failureThreshold, cooldownMs, retryBaseDelayMs } = config.llm.failover;
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("backoffDelay", () => {
+  it("doubles per attempt within the jitter range", () => {
+    for (const attempt of [1, 2, 3]) {
+      const base = retryBaseDelayMs * 2 ** (attempt - 1);
+      const delay = backoffDelay(attempt);
+      expect(delay).toBeGreaterThanOrEqual(Math.round(base / 2));
+      expect(delay).toBeLessThanOrEqual(base);
+    }
+  });
+
+  it("applies jitter from Math.random", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(backoffDelay(2)).toBe(retryBaseDelayMs);
+  });
+});
+
+describe("circuit breaker", () => {
+  it("opens after consecutive failures and half-opens after the cooldown", () => {
+    vi.useFakeTimers();
+    const provider = "test-cooldown";
+
+    for (let i = 0; i < failureThreshold - 1; i++) recordFailure(provider);
+    expect(getCircuitState(provider)).toBe("closed");
+
+    recordFailure(provider);
+    expect(getCircuitState(provider)).toBe("open");
+
+    vi.advanceTimersByTime(cooldownMs);
+    expect(getCircuitState(provider)).toBe("half-open");
+  });
+
+  it("reopens when the trial request fails and closes when it succeeds", () => {
+    vi.useFakeTimers();
+    const provider = "test-trial";
+
+    for (let i = 0; i < failureThreshold; i++) recordFailure(provider);
+    vi.advanceTimersByTime(cooldownMs);
+    expect(getCircuitState(provider)).toBe("half-open");
+
+    recordFailure(provider);
+    expect(getCircuitState(provider)).toBe("open");
+
+    vi.advanceTimersByTime(cooldownMs);
+    recordSuccess(provider);
+    expect(getCircuitState(provider)).toBe("closed");
+  });
+
+  it("resets the failure count on success", () => {
+    const provider = "test-reset";
+    for (let i = 0; i < failureThreshold - 1; i++) recordFailure(provider);
+    recordSuccess(provider);
+    recordFailure(provider);
+    expect(getCircuitState(provider)).toBe(failureThreshold > 1 ? "closed" : "open");
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries rate limits, server errors and network failures", () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 529 })).toBe(true);
+    expect(isRetryableError({ $metadata: { httpStatusCode: 503 } })).toBe(true);
+    expect(isRetryableError({ name: "ThrottlingException" })).toBe(true);
+    expect(isRetryableError(Object.assign(new Error("connect failed"), { code: "ECONNRESET" }))).toBe(true);
+  });
+
+  it("does not retry bad requests", () => {
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError(new Error("invalid tool schema"))).toBe(false);
+    expect(isRetryableError("overloaded")).toBe(false);
+  });
+});
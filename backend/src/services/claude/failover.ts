@@ -0,0 +1,133 @@
+/**
+ * Provider Failover
+ * Circuit breaker state per provider and retry/backoff policy for the
+ * ordered provider chain (LLM_PROVIDER, then LLM_FALLBACK_PROVIDERS)
+ */
+
+import { config } from "../../config/index.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("LLMFailover");
+
+/**
+ * Circuit state
+ * - closed: healthy, requests go through
+ * - open: too many consecutive failures, skipped until the cooldown ends
+ * - half-open: cooldown ended, the next request is a trial
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;  // Consecutive failures
+  openedAt: number;
+}
+
+const circuits = new Map<string, Circuit>();
+
+// HTTP statuses worth retrying / failing over on (rate limit, server errors, overloaded)
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+// Error names/codes from the Anthropic API, Bedrock and Node networking
+const RETRYABLE_ERROR =
+  /overloaded|throttl|too many requests|service ?unavailable|model ?not ?ready|internal ?server|timeout|ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|socket hang up/i;
+
+function getCircuit(provider: string): Circuit {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { state: "closed", failures: 0, openedAt: 0 };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Current circuit state (an open circuit turns half-open after the cooldown)
+ */
+export function getCircuitState(provider: string): CircuitState {
+  const circuit = getCircuit(provider);
+  if (circuit.state === "open" && Date.now() - circuit.openedAt >= config.llm.failover.cooldownMs) {
+    circuit.state = "half-open";
+    log.info(`Circuit half-open: ${provider} (trial request allowed)`);
+  }
+  return circuit.state;
+}
+
+/**
+ * Record a successful request (closes the circuit)
+ */
+export function recordSuccess(provider: string): void {
+  const circuit = getCircuit(provider);
+  if (circuit.state !== "closed") {
+    log.info(`Circuit closed: ${provider} recovered`);
+  }
+  circuit.state = "closed";
+  circuit.failures = 0;
+}
+
+/**
+ * Record a failed request (opens the circuit at the threshold, or when a trial fails)
+ */
+export function recordFailure(provider: string): void {
+  const circuit = getCircuit(provider);
+  circuit.failures++;
+
+  if (circuit.state === "half-open" || circuit.failures >= config.llm.failover.failureThreshold) {
+    if (circuit.state !== "open") {
+      log.warn(`Circuit open: ${provider} after ${circuit.failures} consecutive failures`);
+    }
+    circuit.state = "open";
+    circuit.openedAt = Date.now();
+  }
+}
+
+/**
+ * Configured chain: primary provider, then fallbacks (duplicates removed)
+ */
+function configuredChain(): string[] {
+  return [config.llm.provider, ...config.llm.fallbackProviders]
+    .filter((name, i, all) => all.indexOf(name) === i);
+}
+
+/**
+ * Providers to try, in order
+ * Open circuits are skipped; if every circuit is open, the full chain is tried anyway
+ */
+export function getProviderChain(): string[] {
+  const chain = configuredChain();
+  const available = chain.filter(name => getCircuitState(name) !== "open");
+  return available.length > 0 ? available : chain;
+}
+
+/**
+ * Whether an error is transient (retry / fail over) rather than a bad request
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+
+  const err = error as { status?: number; $metadata?: { httpStatusCode?: number }; name?: string; code?: string; message?: string };
+  const status = err.status ?? err.$metadata?.httpStatusCode;
+  if (status !== undefined) {
+    return RETRYABLE_STATUS.has(status);
+  }
+  return RETRYABLE_ERROR.test(`${err.name || ""} ${err.code || ""} ${err.message || ""}`);
+}
+
+/**
+ * Backoff before retry attempt n (1-based): exponential with jitter
+ */
+export function backoffDelay(attempt: number): number {
+  const base = config.llm.failover.retryBaseDelayMs * 2 ** (attempt - 1);
+  return Math.round(base * (0.5 + Math.random() / 2));
+}
+
+/**
+ * Circuit states of the chain (for health checks)
+ */
+export function getFailoverStatus(): Array<{ provider: string; state: CircuitState; failures: number }> {
+  return configuredChain().map(provider => ({
+    provider,
+    state: getCircuitState(provider),
+    failures: getCircuit(provider).failures,
+  }));
+}
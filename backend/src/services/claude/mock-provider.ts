@@ -0,0 +1,200 @@
+/**
+ * Mock LLM Provider
+ * Deterministic scripted responses for running the conversation flow
+ * offline (local development, CI) without any API keys.
+ *
+ * Rules are evaluated top to bottom; the first matching rule wins.
+ * A custom script can be supplied as a JSON array of MockRule via MOCK_LLM_SCRIPT.
+ */
+
+import fs from "fs";
+import { config } from "../../config/index.js";
+import { createLogger } from "../../utils/logger.js";
+import { estimateTokens } from "./tokens.js";
+import { systemText } from "./prompt-assembler.js";
+import type { LLMProvider, LLMRequest, LLMResponse, LLMContentBlock } from "./types.js";
+
+const log = createLogger("MockProvider");
+
+// Characters per streamed delta (simulates token-by-token streaming)
+const STREAM_CHUNK_SIZE = 6;
+
+export interface MockRule {
+  /** Regex source tested against the latest user text (omit to match anything) */
+  match?: string;
+  /** Only match when the latest user message carries tool_result blocks */
+  afterToolResult?: boolean;
+  /** Text response: a JSON reply like the real model (see response-format.ts); "[EMOTION:xxx] text" also works */
+  text?: string;
+  /** Tool call to emit; skipped when the tool isn't offered in the request */
+  toolUse?: {
+    name: string;
+    /** Tool input; the string "{{input}}" is replaced with the latest user text */
+    input: Record<string, unknown>;
+  };
+}
+
+/**
+ * JSON reply text in the format the real model is prompted for
+ */
+function reply(emotion: string, speech: string, followUps?: string[]): string {
+  return JSON.stringify({ emotion, speech, follow_ups: followUps });
+}
+
+const DEFAULT_SCRIPT: MockRule[] = [
+  {
+    afterToolResult: true,
+    text: reply("excited", "見つかったよ！1番から順番に見てみてね。", ["1番を詳しく", "他にもある？"]),
+  },
+  {
+    match: "保存した|保存リスト|アーカイブ",
+    toolUse: { name: "list_archive", input: {} },
+  },
+  {
+    match: "映画|えいが|アニメ|ドラマ|監督|俳優|movie|film",
+    toolUse: { name: "search_movies", input: { query: "{{input}}" } },
+  },
+  {
+    match: "レストラン|ランチ|ディナー|ラーメン|寿司|カフェ|グルメ|食べ|restaurant",
+    toolUse: { name: "gourmet_search", input: { query: "{{input}}" } },
+  },
+  {
+    text: reply("happy", "うんうん、その話もっと聞かせて！"),
+  },
+];
+
+let cachedScript: MockRule[] | null = null;
+
+/**
+ * Load the script from MOCK_LLM_SCRIPT, falling back to the built-in rules
+ */
+function loadScript(): MockRule[] {
+  if (cachedScript) return cachedScript;
+
+  cachedScript = DEFAULT_SCRIPT;
+  if (config.mock.scriptPath) {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(config.mock.scriptPath, "utf8"));
+      if (Array.isArray(parsed)) {
+        cachedScript = parsed as MockRule[];
+        log.debug(`Loaded ${cachedScript.length} mock rules from ${config.mock.scriptPath}`);
+      } else {
+        log.warn(`Mock script is not an array, using defaults: ${config.mock.scriptPath}`);
+      }
+    } catch (error) {
+      log.error(`Failed to load mock script ${config.mock.scriptPath}:`, error);
+    }
+  }
+  return cachedScript;
+}
+
+/**
+ * Extract plain text from the latest user message
+ */
+function getLatestUserMessage(request: LLMRequest): { text: string; hasToolResult: boolean } {
+  const last = [...request.messages].reverse().find(m => m.role === "user");
+  if (!last) return { text: "", hasToolResult: false };
+
+  if (typeof last.content === "string") {
+    return { text: last.content, hasToolResult: false };
+  }
+
+  const blocks = last.content as Array<{ type: string; text?: string }>;
+  return {
+    text: blocks.filter(b => b.type === "text").map(b => b.text || "").join(""),
+    hasToolResult: blocks.some(b => b.type === "tool_result"),
+  };
+}
+
+/**
+ * Replace "{{input}}" placeholders in tool input values
+ */
+function fillInput(input: Record<string, unknown>, userText: string): Record<string, unknown> {
+  const filled: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    filled[key] = typeof value === "string" ? value.replace("{{input}}", userText) : value;
+  }
+  return filled;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Resolve the scripted response for a request
+ */
+function respond(request: LLMRequest): LLMResponse {
+  const { text: userText, hasToolResult } = getLatestUserMessage(request);
+  const offeredTools = new Set((request.tools || []).map(t => t.name as string));
+
+  for (const rule of loadScript()) {
+    if (rule.afterToolResult && !hasToolResult) continue;
+    if (!rule.afterToolResult && hasToolResult) continue;
+    if (rule.match && !new RegExp(rule.match, "i").test(userText)) continue;
+    if (rule.toolUse && !offeredTools.has(rule.toolUse.name)) continue;
+
+    const content: LLMContentBlock[] = [];
+    if (rule.text) {
+      content.push({ type: "text", text: rule.text });
+    }
+    if (rule.toolUse) {
+      content.push({
+        type: "tool_use",
+        // Deterministic ID: derived from conversation length
+        id: `toolu_mock_${request.messages.length}`,
+        name: rule.toolUse.name,
+        input: fillInput(rule.toolUse.input, userText),
+      });
+    }
+
+    const outputText = content.map(b => b.text || JSON.stringify(b.input || {})).join("");
+    const inputText = systemText(request.system) + JSON.stringify(request.messages);
+    return {
+      content,
+      stop_reason: rule.toolUse ? "tool_use" : "end_turn",
+      usage: {
+        input_tokens: estimateTokens(inputText),
+        output_tokens: estimateTokens(outputText),
+      },
+    };
+  }
+
+  return {
+    content: [{ type: "text", text: reply("neutral", "そうなんだ。") }],
+    stop_reason: "end_turn",
+    usage: { input_tokens: 0, output_tokens: 0 },
+  };
+}
+
+/**
+ * Mock provider registration entry
+ */
+export const mockProvider: LLMProvider = {
+  name: "mock",
+  pricing: { inputPerMTok: 0, outputPerMTok: 0 },
+
+  async invoke(request) {
+    if (config.mock.latencyMs > 0) await delay(config.mock.latencyMs);
+    request.signal?.throwIfAborted();
+    const response = respond(request);
+    log.debug(`Mock response: stop_reason=${response.stop_reason}`);
+    return response;
+  },
+
+  async *stream(request) {
+    if (config.mock.latencyMs > 0) await delay(config.mock.latencyMs);
+    request.signal?.throwIfAborted();
+    const response = respond(request);
+    const text = response.content
+      .filter(b => b.type === "text")
+      .map(b => b.text || "")
+      .join("");
+
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      request.signal?.throwIfAborted();
+      yield text.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+    return response;
+  },
+};
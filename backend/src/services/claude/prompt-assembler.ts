@@ -0,0 +1,102 @@
+/**
+ * Prompt Assembler
+ * Builds the system prompt from prioritized sections and drops the
+ * lowest-priority ones when the estimated size exceeds the token budget.
+ * Leading cacheable sections become one block marked for provider prompt caching.
+ */
+
+import { createLogger } from "../../utils/logger.js";
+import { estimateTokens } from "./tokens.js";
+import type { LLMRequest, LLMSystemBlock } from "./types.js";
+
+const log = createLogger("PromptAssembler");
+
+export interface PromptSection {
+  name: string;
+  text: string;
+  /** Higher priority sections are kept longer when over budget */
+  priority: number;
+  /** Never dropped (base rules, domain prompt) */
+  required?: boolean;
+  /** Stable across turns: part of the cached prefix (only leading sections count) */
+  cacheable?: boolean;
+}
+
+export interface SectionFootprint {
+  name: string;
+  tokens: number;
+  included: boolean;
+}
+
+export interface AssembledPrompt {
+  text: string;
+  /** Same text as system blocks: cached prefix, then the per-turn remainder */
+  blocks: LLMSystemBlock[];
+  tokens: number;
+  sections: SectionFootprint[];
+}
+
+/**
+ * Join sections in the given order, dropping lowest-priority optional sections
+ * until the estimate fits the budget (required sections always stay)
+ */
+export function assemblePrompt(sections: PromptSection[], tokenBudget: number): AssembledPrompt {
+  const footprints = sections.map(section => ({
+    section,
+    tokens: estimateTokens(section.text),
+    included: section.text.length > 0,
+  }));
+
+  let total = footprints.reduce((sum, f) => sum + (f.included ? f.tokens : 0), 0);
+
+  // Drop order: lowest priority first; among equals, the later section first
+  const droppable = footprints
+    .filter(f => f.included && !f.section.required)
+    .reverse()
+    .sort((a, b) => a.section.priority - b.section.priority);
+
+  for (const footprint of droppable) {
+    if (total <= tokenBudget) break;
+    footprint.included = false;
+    total -= footprint.tokens;
+  }
+
+  const dropped = footprints.filter(f => !f.included && f.section.text.length > 0);
+  if (dropped.length > 0) {
+    log.info(`✂️ System prompt over budget (${tokenBudget} tokens), dropped: ${dropped.map(f => `${f.section.name}(${f.tokens})`).join(", ")}`);
+  }
+  if (total > tokenBudget) {
+    log.warn(`Required prompt sections alone exceed the budget: ${total}/${tokenBudget} tokens`);
+  }
+
+  const included = footprints.filter(f => f.included);
+  const prefixLength = included.findIndex(f => !f.section.cacheable);
+  const prefix = prefixLength === -1 ? included : included.slice(0, prefixLength);
+  const rest = prefixLength === -1 ? [] : included.slice(prefixLength);
+
+  const blocks: LLMSystemBlock[] = [];
+  if (prefix.length > 0) {
+    blocks.push({
+      type: "text",
+      text: prefix.map(f => f.section.text).join(""),
+      cache_control: { type: "ephemeral" },
+    });
+  }
+  if (rest.length > 0) {
+    blocks.push({ type: "text", text: rest.map(f => f.section.text).join("") });
+  }
+
+  return {
+    text: included.map(f => f.section.text).join(""),
+    blocks,
+    tokens: total,
+    sections: footprints.map(f => ({ name: f.section.name, tokens: f.tokens, included: f.included })),
+  };
+}
+
+/**
+ * Plain text of a system prompt given as a string or blocks
+ */
+export function systemText(system: LLMRequest["system"]): string {
+  return typeof system === "string" ? system : system.map(block => block.text).join("");
+}
@@ -7,7 +7,11 @@
  * - General: For casual everyday conversations
  */
 
+import { config } from "../../config/index.js";
 import type { ConversationTurn, ActiveResultSet, Movie, GourmetRestaurant } from "../../types/index.js";
+import { assemblePrompt, type PromptSection } from "./prompt-assembler.js";
+import type { LLMSystemBlock } from "./types.js";
+import type { UserContext } from "../../db/user-profile.js";
 
 export type Scenario = 'movie' | 'gourmet' | 'general';
 
@@ -42,18 +46,29 @@ export const BASE_PROMPT = `あなたは「ラビット」、フレンドリー
 ❌ 書き言葉：「この作品は2023年に公開されたシリーズ第7作目で、トム・クルーズが主演を務め...」
 ✅ 話し言葉：「2023年の最新作だよ！トム・クルーズが主演してるんだ」
 
+【出力形式（必須）】
+回答は次のJSONオブジェクト1つだけを出力する（前後に文章やコードブロックを付けない）。キーはこの順番で書く：
+{"emotion":"happy","speech":"話す内容","display":"画面に出す内容","referenced_item":1,"follow_ups":["次の質問候補"]}
+- emotion：happy/excited/thinking/sad/surprised/confused/neutral のどれか（必須）
+- speech：読み上げるセリフ（必須、下の行動ルールと文字ルールに従う）
+- display：チャット画面に表示する同じ内容。英語の作品名・店名、URL、数字を原文のまま書く（speechと同じなら省略）
+- referenced_item：【現在の検索結果】の特定の番号について話す時だけ、その番号（省略可）
+- follow_ups：ユーザーが次に言いそうな短い一言を2〜3個（各15文字以内、省略可）
+- ツールを使う時はJSONを出さずにツールだけ呼ぶ
+
 【行動ルール】
-1. 最初に感情タグ必須：[EMOTION:happy/excited/thinking/sad/surprised/confused/neutral]
+1. 感情はemotionで伝える（セリフに感情タグを書かない）
 2. 回答は1文で完結させる（最大2文、80文字以内）
 3. 必ず「。」「！」「？」で終わる
 4. 質問で返さない→まず答えや提案をする
 5. 長い情報は要約→核心だけ伝える
 6. 確認フレーズ禁止→直接答える（「わかった！」「検索するよ！」「調べるね！」不要）
 
-【文字ルール】
+【文字ルール（speechのみ）】
 - OK：ひらがな、カタカナ、漢字、句読点、数字
 - NG：アルファベット（a-z, A-Z）、ローマ字
-- 英語→カタカナ化：YouTube→ユーチューブ、OK→オッケー`;
+- 英語→カタカナ化：YouTube→ユーチューブ、OK→オッケー
+- displayはこのルール不要（例：speech「ユーチューブで見られるよ！」→ display「YouTubeで見られるよ！」）`;
 
 // ============================================================================
 // DOMAIN-SPECIFIC PROMPTS
@@ -98,9 +113,9 @@ export const MOVIE_DOMAIN_PROMPT = `
 質問：「もっと詳しく」→同じ作品をsearch_movies
 
 良い回答例：
-[EMOTION:happy] 映画の話しよう！何が見たい？
-[EMOTION:excited] 3つ見つけたよ！1番は『君の名は。』感動系、2番は『天気の子』ファンタジー、3番は『すずめの戸締まり』冒険作！気になるのある？
-[EMOTION:excited] 『ターミネーター』は1984年のSF映画だよ！アーノルドが主演してるんだ`;
+{"emotion":"happy","speech":"映画の話しよう！何が見たい？"}
+{"emotion":"excited","speech":"3つ見つけたよ！1番は『君の名は。』感動系、2番は『天気の子』ファンタジー、3番は『すずめの戸締まり』冒険作！気になるのある？","follow_ups":["1番の監督は？","他のジャンルも見たい"]}
+{"emotion":"excited","speech":"『ターミネーター』は1984年のエスエフ映画だよ！アーノルドが主演してるんだ","display":"『ターミネーター（The Terminator）』は1984年のSF映画だよ！アーノルドが主演してるんだ"}`;
 
 // Gourmet/Restaurant scenario
 export const GOURMET_DOMAIN_PROMPT = `
@@ -144,9 +159,9 @@ export const GOURMET_DOMAIN_PROMPT = `
 質問：「営業時間は？」→文脈のレストランをgourmet_search
 
 良い回答例：
-[EMOTION:happy] 美味しいもの食べたいの？どんな料理がいい？
-[EMOTION:excited] 3つ見つけたよ！1番は『鳥貴族』焼き鳥、2番は『サイゼリヤ』イタリアン、3番は『ラ・ベットラ』本格パスタ！どこがいい？
-[EMOTION:thinking] 新宿でイタリアンなら『ラ・ベットラ』がおすすめだよ！`;
+{"emotion":"happy","speech":"美味しいもの食べたいの？どんな料理がいい？"}
+{"emotion":"excited","speech":"3つ見つけたよ！1番は『鳥貴族』焼き鳥、2番は『サイゼリヤ』イタリアン、3番は『ラ・ベットラ』本格パスタ！どこがいい？","follow_ups":["3番の予算は？","近くのカフェも探して"]}
+{"emotion":"thinking","speech":"新宿でイタリアンなら『ラ・ベットラ』がおすすめだよ！"}`;
 
 // General conversation scenario
 export const GENERAL_DOMAIN_PROMPT = `
@@ -173,10 +188,28 @@ export const GENERAL_DOMAIN_PROMPT = `
 ✅ 良い：「どういたしまして！また話そうね」
 
 良い回答例：
-[EMOTION:happy] 元気？なんか話そうよ！
-[EMOTION:excited] いいね！楽しそうだね！
-[EMOTION:neutral] で、どうしたの？
-[EMOTION:thinking] それって難しいよね...どう思う？`;
+{"emotion":"happy","speech":"元気？なんか話そうよ！"}
+{"emotion":"excited","speech":"いいね！楽しそうだね！"}
+{"emotion":"neutral","speech":"で、どうしたの？"}
+{"emotion":"thinking","speech":"それって難しいよね...どう思う？"}`;
+
+// ============================================================================
+// CONVERSATION SUMMARY PROMPT
+// ============================================================================
+
+// System prompt for condensing older turns (see services/claude/summarizer.ts)
+export const SUMMARY_PROMPT = `あなたは会話の要約係。ユーザーと「ラビット」（アシスタント）の会話を、この後の会話を続けるためのメモとして要約する。
+
+【残すこと】
+- 話題にした映画・お店の名前と、ユーザーの反応（気に入った・興味なし等）
+- ユーザーが話した好み、予定、状況
+- まだ終わっていない話や約束
+
+【ルール】
+- 箇条書き、全体で300文字以内
+- 挨拶や相槌は省く
+- 既存の要約がある場合は、それに新しい会話の内容を統合する
+- 感情タグは付けない`;
 
 // ============================================================================
 // SCENARIO DETECTION
@@ -243,7 +276,7 @@ export function detectScenario(message: string, history: ConversationTurn[]): Sc
 /**
  * Build user context section for system prompt
  */
-function buildUserContextPrompt(userContext?: any): string {
+function buildUserContextPrompt(userContext?: UserContext): string {
   if (!userContext) {
     return '';
   }
@@ -273,6 +306,15 @@ function buildUserContextPrompt(userContext?: any): string {
   if (userContext.interests && userContext.interests.length > 0) {
     parts.push(`興味：${userContext.interests.join('、')}`);
   }
+
+  // Preferences remembered from past conversations (user_memory)
+  if (userContext.memories && userContext.memories.length > 0) {
+    parts.push('\n【会話で覚えていること】');
+    for (const memory of userContext.memories) {
+      parts.push(`- ${memory}`);
+    }
+    parts.push('おすすめする時は、苦手なものや食事制限に合わないものを避けること。');
+  }
   
   parts.push('\nこの情報を使って、よりパーソナライズされた会話を心がけること。');
   parts.push('ただし、ユーザー情報を不自然に話題にしすぎないこと。自然な会話の流れで活用する。');
@@ -280,6 +322,17 @@ function buildUserContextPrompt(userContext?: any): string {
   return parts.join('\n');
 }
 
+/**
+ * Build conversation summary section for the system prompt
+ * Older turns that were condensed out of the message history
+ */
+export function buildSummaryContext(summary?: string): string {
+  if (!summary) {
+    return '';
+  }
+  return `\n\n【これまでの会話の要約】\n${summary}`;
+}
+
 /**
  * Build active result context for the system prompt
  * This tells the LLM what search results are currently displayed
@@ -320,7 +373,16 @@ export function buildActiveResultContext(activeResults?: ActiveResultSet | null)
   return context;
 }
 
-export function buildSystemPrompt(scenario: Scenario, userContext?: any, activeResults?: ActiveResultSet | null): string {
+/**
+ * Build the system prompt for a turn, within the token budget
+ * Base + domain prompt form the cached prefix; per-session context follows
+ */
+export function buildSystemPrompt(
+  scenario: Scenario,
+  userContext?: UserContext,
+  activeResults?: ActiveResultSet | null,
+  summary?: string
+): LLMSystemBlock[] {
   let domainPrompt: string;
   
   switch (scenario) {
@@ -336,7 +398,16 @@ export function buildSystemPrompt(scenario: Scenario, userContext?: any, activeR
       break;
   }
   
-  const userContextPrompt = buildUserContextPrompt(userContext);
-  const activeResultContext = buildActiveResultContext(activeResults);
-  return BASE_PROMPT + domainPrompt + userContextPrompt + activeResultContext;
+  // Sections in prompt order; summary leads the per-session context
+  // (the static prompt stays a stable prefix). When over budget, user context
+  // goes first, then the summary; the shown results are needed for "2番目" etc.
+  const sections: PromptSection[] = [
+    { name: 'base', text: BASE_PROMPT, priority: 100, required: true, cacheable: true },
+    { name: 'domain', text: domainPrompt, priority: 90, required: true, cacheable: true },
+    { name: 'summary', text: buildSummaryContext(summary), priority: 60 },
+    { name: 'userContext', text: buildUserContextPrompt(userContext), priority: 40 },
+    { name: 'activeResults', text: buildActiveResultContext(activeResults), priority: 80 },
+  ];
+
+  return assemblePrompt(sections, config.llm.systemPromptTokenBudget).blocks;
 }
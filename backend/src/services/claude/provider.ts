@@ -1,160 +1,223 @@
 import { config } from "../../config/index.js";
 import { createLogger } from "../../utils/logger.js";
+import { saveLLMUsage } from "../../db/llm-usage.js";
+import { addSpend } from "../spend-limit.js";
 import {
-  invokeBedrockClaude,
-  invokeBedrockClaudeStream,
-  convertToBedrockMessages,
-} from "./bedrock-provider.js";
-import {
-  invokeAnthropic,
-  invokeAnthropicStream,
-} from "./anthropic-provider.js";
+  getProviderChain,
+  getCircuitState,
+  isRetryableError,
+  backoffDelay,
+  recordSuccess,
+  recordFailure,
+} from "./failover.js";
+import { anthropicProvider } from "./anthropic-provider.js";
+import { bedrockProvider } from "./bedrock-provider.js";
+import { mockProvider } from "./mock-provider.js";
+import type { LLMProvider, LLMRequest, LLMResponse, LLMUsage, LLMUsageScope } from "./types.js";
+
+export type { LLMProvider, LLMRequest, LLMResponse, LLMUsageScope } from "./types.js";
 
 const log = createLogger("LLM");
 
-interface LLMRequest {
-  model?: string;
-  max_tokens: number;
-  system: string;
-  messages: Array<{ role: string; content: string | any[] }>;
-  stop_sequences?: string[];
-  tools?: any[];
+// Provider registry (keyed by provider name)
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register an LLM provider
+ * Re-registering a name replaces the previous implementation
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+  log.debug(`Registered LLM provider: ${provider.name}`);
 }
 
-interface LLMResponse {
-  content: Array<{ 
-    type: string; 
-    text?: string; 
-    id?: string;
-    name?: string;
-    input?: any;
-  }>;
-  stop_reason: string;
-  usage?: {
-    input_tokens: number;
-    output_tokens: number;
-  };
+/**
+ * Get a provider by name (defaults to the configured LLM_PROVIDER)
+ */
+export function getProvider(name: string = config.llm.provider): LLMProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider "${name}" (registered: ${listProviders().join(", ")})`);
+  }
+  return provider;
 }
 
 /**
- * Unified LLM invocation (supports both Anthropic and Bedrock)
+ * List registered provider names
  */
-export async function invokeLLM(request: LLMRequest): Promise<LLMResponse> {
-  const provider = config.llm.provider;
-
-  if (provider === "bedrock") {
-    log.debug("Using AWS Bedrock");
-    
-    const bedrockRequest = {
-      anthropic_version: "bedrock-2023-05-31",
-      max_tokens: request.max_tokens,
-      system: request.system,
-      messages: convertToBedrockMessages(request.messages),
-      stop_sequences: request.stop_sequences,
-      tools: request.tools,
-    };
-
-    const response = await invokeBedrockClaude(bedrockRequest);
-    
-    // Log usage for cost tracking
-    if (response.usage) {
-      const cost = calculateCost(response.usage, provider);
-      log.debug(`Request cost: $${cost.toFixed(6)}`, {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-      });
-    }
-    
-    return {
-      content: response.content,
-      stop_reason: response.stop_reason,
-      usage: response.usage,
-    };
-  } else {
-    log.debug("Using Anthropic API");
-    
-    const response = await invokeAnthropic({
-      model: request.model,
-      max_tokens: request.max_tokens,
-      system: request.system,
-      messages: request.messages,
-      stop_sequences: request.stop_sequences,
-      tools: request.tools,
-    });
-
-    // Log usage for cost tracking
-    if (response.usage) {
-      const cost = calculateCost(response.usage, provider);
-      log.debug(`Request cost: $${cost.toFixed(6)}`, response.usage);
+export function listProviders(): string[] {
+  return [...providers.keys()];
+}
+
+// Built-in providers
+registerProvider(anthropicProvider);
+registerProvider(bedrockProvider);
+registerProvider(mockProvider);
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Attempts in failover order: each provider in the chain, retried with backoff
+ */
+function* attempts(): Generator<{ provider: LLMProvider; attempt: number }> {
+  for (const name of getProviderChain()) {
+    const provider = getProvider(name);
+    for (let attempt = 1; attempt <= config.llm.failover.maxAttempts; attempt++) {
+      // Circuit opened by the previous failure: move on to the next provider
+      if (attempt > 1 && getCircuitState(name) === "open") break;
+      yield { provider, attempt };
     }
+  }
+}
+
+/**
+ * Handle a failed attempt: rethrow if it can't be retried, otherwise back off
+ */
+async function handleFailure(
+  provider: LLMProvider,
+  attempt: number,
+  error: unknown,
+  signal?: AbortSignal
+): Promise<void> {
+  // Cancelled by the caller: not the provider's fault, nothing to retry
+  if (signal?.aborted || !isRetryableError(error)) {
+    throw error;
+  }
+
+  recordFailure(provider.name);
+  const message = error instanceof Error ? error.message : String(error);
+  log.warn(`${provider.name} failed (attempt ${attempt}/${config.llm.failover.maxAttempts}): ${message}`);
 
-    return {
-      content: response.content,
-      stop_reason: response.stop_reason,
-      usage: response.usage,
-    };
+  if (attempt < config.llm.failover.maxAttempts) {
+    await delay(backoffDelay(attempt));
   }
 }
 
+/**
+ * Unified LLM invocation
+ * Tries the provider chain in order (retry with backoff, then fail over);
+ * usage is recorded against the scope when one is given
+ */
+export async function invokeLLM(request: LLMRequest, scope?: LLMUsageScope): Promise<LLMResponse> {
+  let lastError: unknown = new Error("No LLM provider available");
+
+  for (const { provider, attempt } of attempts()) {
+    log.debug(`Using ${provider.name}`);
+    try {
+      const response = await provider.invoke(request);
+      recordSuccess(provider.name);
+
+      if (response.usage) {
+        recordUsage(response.usage, provider, scope);
+      }
+
+      return {
+        content: response.content,
+        stop_reason: response.stop_reason,
+        usage: response.usage,
+        provider: provider.name,
+      };
+    } catch (error) {
+      lastError = error;
+      await handleFailure(provider, attempt, error, request.signal);
+    }
+  }
+
+  throw lastError;
+}
+
 /**
  * Unified LLM streaming
- * Yields text deltas as they arrive
+ * Yields text deltas as they arrive and returns the full response
+ * (including tool_use blocks); usage is recorded once the stream ends.
+ * Fails over to the next attempt only while nothing has been streamed yet.
  */
 export async function* invokeLLMStream(
-  request: LLMRequest
-): AsyncGenerator<string, void, unknown> {
-  const provider = config.llm.provider;
-
-  if (provider === "bedrock") {
-    log.debug("Using AWS Bedrock (streaming)");
-    
-    const bedrockRequest = {
-      anthropic_version: "bedrock-2023-05-31",
-      max_tokens: request.max_tokens,
-      system: request.system,
-      messages: convertToBedrockMessages(request.messages),
-      stop_sequences: request.stop_sequences,
-      tools: request.tools,
-    };
-
-    const streamGenerator = invokeBedrockClaudeStream(bedrockRequest);
-    
-    for await (const chunk of streamGenerator) {
-      if (typeof chunk === "string") {
-        yield chunk;
+  request: LLMRequest,
+  scope?: LLMUsageScope
+): AsyncGenerator<string, LLMResponse, unknown> {
+  let lastError: unknown = new Error("No LLM provider available");
+
+  for (const { provider, attempt } of attempts()) {
+    log.debug(`Using ${provider.name} (streaming)`);
+    let streamedAny = false;
+
+    try {
+      const stream = provider.stream(request);
+      let next = await stream.next();
+      while (!next.done) {
+        streamedAny = true;
+        yield next.value;
+        next = await stream.next();
+      }
+
+      const response = next.value;
+      recordSuccess(provider.name);
+
+      if (response.usage) {
+        recordUsage(response.usage, provider, scope);
+      }
+
+      return { ...response, provider: provider.name };
+    } catch (error) {
+      // Text already reached the caller: switching providers would repeat it
+      if (streamedAny) {
+        if (!request.signal?.aborted && isRetryableError(error)) recordFailure(provider.name);
+        throw error;
       }
-      // Final response with usage info is returned at the end, but we ignore it here
+      lastError = error;
+      await handleFailure(provider, attempt, error, request.signal);
     }
-  } else {
-    log.debug("Using Anthropic API (streaming)");
-    
-    yield* invokeAnthropicStream({
-      model: request.model,
-      max_tokens: request.max_tokens,
-      system: request.system,
-      messages: request.messages,
-      stop_sequences: request.stop_sequences,
-      tools: request.tools,
-    });
   }
+
+  throw lastError;
 }
 
 /**
- * Calculate estimated cost based on token usage
+ * Calculate cost based on token usage (cached prefix tokens are billed separately)
  */
-function calculateCost(
-  usage: { input_tokens: number; output_tokens: number },
-  provider: string
-): number {
-  if (provider === "bedrock") {
-    // Haiku 4.5 pricing on Bedrock (approximate)
-    const inputCost = (usage.input_tokens / 1_000_000) * 0.25;
-    const outputCost = (usage.output_tokens / 1_000_000) * 1.25;
-    return inputCost + outputCost;
-  } else {
-    // Haiku 3.5 pricing on Anthropic API
-    const inputCost = (usage.input_tokens / 1_000_000) * 0.80;
-    const outputCost = (usage.output_tokens / 1_000_000) * 4.00;
-    return inputCost + outputCost;
-  }
+export function calculateCost(usage: LLMUsage, provider: LLMProvider): number {
+  const { pricing } = provider;
+  const inputCost = (usage.input_tokens / 1_000_000) * pricing.inputPerMTok;
+  const outputCost = (usage.output_tokens / 1_000_000) * pricing.outputPerMTok;
+  const cacheWriteCost = ((usage.cache_creation_input_tokens || 0) / 1_000_000) *
+    (pricing.cacheWritePerMTok ?? pricing.inputPerMTok);
+  const cacheReadCost = ((usage.cache_read_input_tokens || 0) / 1_000_000) *
+    (pricing.cacheReadPerMTok ?? pricing.inputPerMTok);
+  return inputCost + outputCost + cacheWriteCost + cacheReadCost;
+}
+
+/**
+ * Log usage, count it against the spend limits and persist it to llm_usage
+ * (fire-and-forget, never fails the request)
+ * Calls without a scope (scripts, health checks) are not persisted
+ */
+function recordUsage(usage: LLMUsage, provider: LLMProvider, scope?: LLMUsageScope): void {
+  const cost = calculateCost(usage, provider);
+  log.debug(`Request cost: $${cost.toFixed(6)}`, {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheReadTokens: usage.cache_read_input_tokens,
+    cacheWriteTokens: usage.cache_creation_input_tokens,
+    purpose: scope?.purpose,
+  });
+
+  addSpend(scope, cost);
+  scope?.onUsage?.(usage, provider.name);
+
+  if (!scope) return;
+
+  saveLLMUsage({
+    sessionId: scope.sessionId,
+    userId: scope.userId,
+    provider: provider.name,
+    purpose: scope.purpose || "chat",
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+    cacheWriteTokens: usage.cache_creation_input_tokens || 0,
+    costUsd: cost,
+  }).catch(err => {
+    log.error("Failed to record LLM usage:", err);
+  });
 }
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { normalizeIntent, intentSimilarity, prepareCacheLookup } from "./response-cache.js";
+import type { ConversationTurn } from "../../types/index.js";
+
+describe("normalizeIntent", () => {
+  it("ignores width, punctuation and polite suffixes", () => {
+    expect(normalizeIntent("おすすめの映画を教えてください！")).toBe(normalizeIntent("おすすめの映画を教えて"));
+    expect(normalizeIntent("ＡＢＣ")).toBe(normalizeIntent("abc"));
+  });
+
+  it("keeps short messages that stripping would empty", () => {
+    expect(normalizeIntent("何？").length).toBeGreaterThan(0);
+  });
+});
+
+describe("intentSimilarity", () => {
+  it("is 1 for identical intents and 0 for disjoint ones", () => {
+    expect(intentSimilarity("おすすめの映画", "おすすめの映画")).toBe(1);
+    expect(intentSimilarity("おすすめの映画", "天気")).toBe(0);
+  });
+
+  it("scores close paraphrases above unrelated questions", () => {
+    const base = normalizeIntent("おすすめの映画を教えて");
+    const close = intentSimilarity(base, normalizeIntent("おすすめの映画を教えてほしい"));
+    const far = intentSimilarity(base, normalizeIntent("おすすめのラーメン屋を教えて"));
+    expect(close).toBeGreaterThan(far);
+  });
+
+  it("requires numbers to match exactly", () => {
+    expect(intentSimilarity("ターミネーター2", "ターミネーター")).toBe(0);
+    expect(intentSimilarity("ターミネーター2", "ターミネーター3")).toBe(0);
+  });
+});
+
+describe("prepareCacheLookup", () => {
+  const history: ConversationTurn[] = [];
+
+  it("scopes economy replies and summaries separately", () => {
+    const full = prepareCacheLookup({ message: "おすすめの映画を教えて", history, scenario: "movie" });
+    const economy = prepareCacheLookup({ message: "おすすめの映画を教えて", history, scenario: "movie", economy: true });
+    const summarized = prepareCacheLookup({ message: "おすすめの映画を教えて", history, scenario: "movie", summary: "SFが好き" });
+
+    expect(full?.intent).toBe(economy?.intent);
+    expect(new Set([full?.scope, economy?.scope, summarized?.scope]).size).toBe(3);
+  });
+
+  it("skips messages too short to carry an intent", () => {
+    expect(prepareCacheLookup({ message: "え", history, scenario: "general" })).toBeNull();
+  });
+});
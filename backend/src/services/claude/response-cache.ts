@@ -0,0 +1,277 @@
+/**
+ * Semantic Response Cache
+ *
+ * Reuses answers to questions that mean the same thing
+ * ("ターミネーターって何？" / "ターミネーターについて教えて").
+ * Messages are normalized to an intent string (width and kana folding,
+ * request endings and particles removed) and matched exactly or by
+ * character bigram similarity, within a scope of scenario + user context.
+ *
+ * Context-dependent messages ("それは？", "2番について") also carry the recent
+ * turns and the active search results in their scope; an entry whose
+ * results have since changed is invalidated on lookup.
+ */
+
+import { createHash } from "crypto";
+import { config } from "../../config/index.js";
+import { createLogger } from "../../utils/logger.js";
+import { buildActiveResultContext, type Scenario } from "./prompts.js";
+import type { UserContext } from "../../db/user-profile.js";
+import type { ActiveResultSet, ConversationTurn } from "../../types/index.js";
+import type { ChatResponse } from "../claude.js";
+
+const log = createLogger("ResponseCache");
+
+// Request / question endings that don't change the intent (matched after kana folding)
+const INTENT_SUFFIX =
+  /(?:について|のこと|って|とは|は|を|が)?(?:(?:おしえて|教えて)(?:ください|くれる|ほしい)?|しってる|知ってる|(?:なに|なん|何)(?:です|だ)?|どんな(?:の|もの)?|どう)(?:か|の|かな|なの)?$/;
+
+// Trailing particles / sentence-final markers
+const TRAILING_PARTICLES = /(?:って|とは|は|を|が|の|ね|よ|か)+$/;
+
+// Messages that only make sense with the conversation / results on screen
+const CONTEXT_DEPENDENT = /それ|これ|あれ|その|この|あの|そこ|ここ|ほかに|他に|もっと|さっき|続き|つづき|番|つめ|つ目/;
+
+// Shorter intents are treated as context-dependent ("なんで", "どこ")
+const MIN_STANDALONE_LENGTH = 4;
+
+// Recent turns included in the scope of context-dependent messages
+const CONTEXT_TURNS = 2;
+const CONTEXT_TURN_CHARS = 50;
+
+interface CacheEntry {
+  scope: string;
+  intent: string;
+  resultsKey: string | null;  // Active results the answer depended on
+  value: ChatResponse;
+  timestamp: number;
+  lastAccessed: number;
+}
+
+/**
+ * A prepared lookup: where an answer to this message is stored
+ * Create with prepareCacheLookup()
+ */
+export interface CacheLookup {
+  scope: string;
+  intent: string;
+  resultsKey: string | null;
+}
+
+/**
+ * Hit/miss counters since startup (reported by GET /health)
+ */
+export interface ResponseCacheStats {
+  entries: number;
+  exactHits: number;
+  similarHits: number;
+  misses: number;
+  invalidations: number;  // Entries dropped because their search results changed
+  evictions: number;
+  hitRate: number;
+}
+
+const entries = new Map<string, CacheEntry>();
+const stats = { exactHits: 0, similarHits: 0, misses: 0, invalidations: 0, evictions: 0 };
+
+function hash(value: string): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 12);
+}
+
+function entryKey(scope: string, intent: string): string {
+  return `${scope}\u0000${intent}`;
+}
+
+/**
+ * Width folding (NFKC), lowercase and katakana → hiragana
+ */
+function foldText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+}
+
+/**
+ * Normalize a message to its intent string
+ * "ターミネーターって何？" and "ﾀｰﾐﾈｰﾀｰについて教えて" → "たーみねーたー"
+ */
+export function normalizeIntent(text: string): string {
+  const folded = foldText(text).replace(/[\s\p{P}\p{S}]/gu, "");
+  const stripped = folded.replace(INTENT_SUFFIX, "").replace(TRAILING_PARTICLES, "");
+  // Keep the folded text when stripping leaves (almost) nothing ("何？", "いか")
+  return stripped.length >= 2 ? stripped : folded;
+}
+
+function bigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  if (text.length < 2) {
+    grams.add(text);
+    return grams;
+  }
+  for (let i = 0; i < text.length - 1; i++) {
+    grams.add(text.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient over character bigrams (0-1)
+ * Numbers must match exactly: "ターミネーター2" is not "ターミネーター"
+ */
+export function intentSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if ((a.match(/\d+/g) || []).join(",") !== (b.match(/\d+/g) || []).join(",")) return 0;
+
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let shared = 0;
+  for (const gram of gramsA) {
+    if (gramsB.has(gram)) shared++;
+  }
+  return (2 * shared) / (gramsA.size + gramsB.size);
+}
+
+/**
+ * Fingerprint of the user context the system prompt was personalized with
+ */
+function userContextKey(userContext?: UserContext): string {
+  if (!userContext) return "anon";
+  const { userId: _userId, ...personalization } = userContext;
+  return hash(JSON.stringify(personalization));
+}
+
+/**
+ * Prepare the cache lookup for a message (null when it can't be cached)
+ */
+export function prepareCacheLookup(params: {
+  message: string;
+  history: ConversationTurn[];
+  scenario: Scenario;
+  userContext?: UserContext;
+  activeResults?: ActiveResultSet | null;
+  summary?: string;
+  economy?: boolean;
+}): CacheLookup | null {
+  const { message, history, scenario, userContext, activeResults, summary, economy } = params;
+  const intent = normalizeIntent(message);
+  if (intent.length < 2) return null;
+
+  // Economy replies are shorter and the summary is part of the prompt: neither may leak across scopes
+  let scope = `${scenario}:${userContextKey(userContext)}:${economy ? "economy" : "full"}:${summary ? hash(summary) : "none"}`;
+  let resultsKey: string | null = null;
+
+  const contextDependent = intent.length < MIN_STANDALONE_LENGTH || CONTEXT_DEPENDENT.test(foldText(message));
+  if (contextDependent) {
+    const recent = history
+      .slice(-CONTEXT_TURNS)
+      .map(turn => `${turn.role}:${normalizeIntent(turn.content).slice(0, CONTEXT_TURN_CHARS)}`)
+      .join("|");
+    scope += `:${hash(recent)}`;
+
+    // Same prompt context the model saw (empty when no results / expired)
+    const resultsContext = buildActiveResultContext(activeResults);
+    resultsKey = resultsContext ? hash(resultsContext) : null;
+  }
+
+  return { scope, intent, resultsKey };
+}
+
+function isExpired(entry: CacheEntry, now: number): boolean {
+  return now - entry.timestamp > config.responseCache.ttlMs;
+}
+
+/**
+ * Whether an entry's answer still holds for the current results
+ * An entry that depended on results no longer shown is dropped
+ */
+function isStale(key: string, entry: CacheEntry, lookup: CacheLookup): boolean {
+  if (entry.resultsKey === null || entry.resultsKey === lookup.resultsKey) return false;
+  entries.delete(key);
+  stats.invalidations++;
+  log.debug(`Invalidated "${entry.intent}" (search results changed)`);
+  return true;
+}
+
+/**
+ * Find a cached answer: exact intent first, then the most similar intent in scope
+ */
+export function getCachedResponse(lookup: CacheLookup | null): ChatResponse | null {
+  if (!lookup) return null;
+  const now = Date.now();
+
+  const key = entryKey(lookup.scope, lookup.intent);
+  const exact = entries.get(key);
+  if (exact && !isExpired(exact, now) && !isStale(key, exact, lookup)) {
+    exact.lastAccessed = now;
+    stats.exactHits++;
+    return exact.value;
+  }
+
+  let best: { key: string; entry: CacheEntry; score: number } | null = null;
+  for (const [candidateKey, entry] of entries) {
+    if (isExpired(entry, now)) {
+      entries.delete(candidateKey);
+      continue;
+    }
+    if (entry.scope !== lookup.scope) continue;
+
+    const score = intentSimilarity(lookup.intent, entry.intent);
+    if (score >= config.responseCache.similarityThreshold && (!best || score > best.score)) {
+      best = { key: candidateKey, entry, score };
+    }
+  }
+
+  if (best && !isStale(best.key, best.entry, lookup)) {
+    best.entry.lastAccessed = now;
+    stats.similarHits++;
+    log.debug(`Similar hit: "${lookup.intent}" ≈ "${best.entry.intent}" (${best.score.toFixed(2)})`);
+    return best.entry.value;
+  }
+
+  stats.misses++;
+  return null;
+}
+
+/**
+ * Store an answer (least recently used entry is evicted at the limit)
+ */
+export function setCachedResponse(lookup: CacheLookup | null, value: ChatResponse): void {
+  if (!lookup) return;
+  const now = Date.now();
+
+  if (entries.size >= config.responseCache.maxEntries) {
+    let oldestKey: string | null = null;
+    let oldestAccess = Infinity;
+    for (const [key, entry] of entries) {
+      if (entry.lastAccessed < oldestAccess) {
+        oldestAccess = entry.lastAccessed;
+        oldestKey = key;
+      }
+    }
+    if (oldestKey) {
+      entries.delete(oldestKey);
+      stats.evictions++;
+    }
+  }
+
+  entries.set(entryKey(lookup.scope, lookup.intent), {
+    ...lookup,
+    value,
+    timestamp: now,
+    lastAccessed: now,
+  });
+}
+
+/**
+ * Cache counters (for health checks)
+ */
+export function getResponseCacheStats(): ResponseCacheStats {
+  const hits = stats.exactHits + stats.similarHits;
+  const lookups = hits + stats.misses;
+  return {
+    entries: entries.size,
+    ...stats,
+    hitRate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 1000 : 0,
+  };
+}
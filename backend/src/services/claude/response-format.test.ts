@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { parseReply, createReplyStream, pushReplyDelta } from "./response-format.js";
+
+describe("parseReply", () => {
+  it("reads a valid JSON reply", () => {
+    const { reply, format } = parseReply(
+      '{"emotion":"excited","speech":"いいね！","display":"いいね！ Inception","referenced_item":2,"follow_ups":["あらすじは？"]}'
+    );
+    expect(format).toBe("json");
+    expect(reply).toEqual({
+      emotion: "excited",
+      speech: "いいね！",
+      display: "いいね！ Inception",
+      referencedItem: 2,
+      followUps: ["あらすじは？"],
+    });
+  });
+
+  it("drops invalid optional fields and unknown emotions", () => {
+    const { reply } = parseReply(
+      '{"emotion":"speaking","speech":"うん","display":"うん","referenced_item":0,"follow_ups":[1,"","これはとても長すぎるフォローアップの提案なので捨てられるはずのテキストです"]}'
+    );
+    expect(reply).toEqual({ emotion: "neutral", speech: "うん" });
+  });
+
+  it("strips a code fence", () => {
+    const { reply, format } = parseReply('```json\n{"emotion":"happy","speech":"やったー"}\n```');
+    expect(format).toBe("json");
+    expect(reply.speech).toBe("やったー");
+  });
+
+  it("ignores trailing text after the object", () => {
+    const { reply, format } = parseReply('{"emotion":"happy","speech":"うん"} 以上です');
+    expect(format).toBe("repaired");
+    expect(reply).toEqual({ emotion: "happy", speech: "うん" });
+  });
+
+  it("closes a reply truncated inside a string", () => {
+    const { reply, format } = parseReply('{"emotion":"sad","speech":"それは残念');
+    expect(format).toBe("repaired");
+    expect(reply).toEqual({ emotion: "sad", speech: "それは残念" });
+  });
+
+  it("drops a dangling key or cut-off array item when truncated", () => {
+    const { reply, format } = parseReply('{"emotion":"happy","speech":"見てみよう","follow_ups":["予告編は？","監');
+    expect(format).toBe("repaired");
+    expect(reply.speech).toBe("見てみよう");
+    expect(reply.followUps).toEqual(["予告編は？"]);
+
+    const cutAtKey = parseReply('{"emotion":"happy","speech":"見てみよう","disp');
+    expect(cutAtKey.reply).toEqual({ emotion: "happy", speech: "見てみよう" });
+  });
+
+  it("drops an escape sequence cut off at the end", () => {
+    const { reply } = parseReply('{"emotion":"neutral","speech":"一行目\\');
+    expect(reply.speech).toBe("一行目");
+  });
+
+  it("reads the legacy emotion tag format", () => {
+    const { reply, format } = parseReply("[EMOTION:happy]\nこんにちは！");
+    expect(format).toBe("legacy");
+    expect(reply).toEqual({ emotion: "happy", speech: "こんにちは！" });
+  });
+
+  it("treats plain text as neutral speech", () => {
+    expect(parseReply("そうなんだ。")).toEqual({
+      reply: { emotion: "neutral", speech: "そうなんだ。" },
+      format: "legacy",
+    });
+  });
+});
+
+describe("pushReplyDelta", () => {
+  it("streams the speech field of a JSON reply", () => {
+    const stream = createReplyStream();
+    const deltas = ['{"emotion":"hap', 'py","spe', 'ech":"こんに', "ちは\\", 'n元気？","display":"x"}'];
+    const speech = deltas.map(delta => pushReplyDelta(stream, delta));
+
+    expect(speech).toEqual(["", "", "こんに", "ちは", "\n元気？"]);
+    expect(stream.emotion).toBe("happy");
+  });
+
+  it("holds back a legacy emotion tag until it is complete", () => {
+    const stream = createReplyStream();
+    expect(pushReplyDelta(stream, "[EMOTION:")).toBe("");
+    expect(pushReplyDelta(stream, "sad]\nそっか")).toBe("そっか");
+    expect(stream.emotion).toBe("sad");
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Response Format
+ * Structured reply contract for chat answers. The model answers with one
+ * JSON object (field order matters for streaming: emotion first, then speech):
+ *
+ *   {"emotion":"excited","speech":"...","display":"...","referenced_item":2,"follow_ups":["..."]}
+ *
+ * A JSON block is used rather than a forced tool so the speech field can be
+ * streamed to TTS while the object is still being generated.
+ * Replies are validated by hand; truncated or malformed JSON is repaired,
+ * and the legacy "[EMOTION:xxx] text" format is still understood.
+ */
+
+import type { EmotionType } from "../../types/index.js";
+
+/**
+ * Validated reply
+ */
+export interface StructuredReply {
+  emotion: EmotionType;
+  speech: string;           // Spoken text (TTS), katakana instead of alphabet
+  display?: string;         // On-screen text (original titles, URLs), when it differs from the speech
+  referencedItem?: number;  // 1-based number of the active result the reply is about
+  followUps?: string[];     // Short suggestions for the user's next message
+}
+
+/**
+ * How a reply was read
+ * - json: valid JSON matching the contract
+ * - repaired: malformed or truncated JSON (max_tokens), fixed up or read field by field
+ * - legacy: "[EMOTION:xxx] text" or plain text
+ */
+export type ReplyFormat = "json" | "repaired" | "legacy";
+
+export interface ParsedReply {
+  reply: StructuredReply;
+  format: ReplyFormat;
+}
+
+// Emotions the model may choose (listening/speaking are avatar states)
+const REPLY_EMOTIONS: readonly EmotionType[] = [
+  "neutral", "happy", "excited", "thinking", "sad", "surprised", "confused",
+];
+
+const MAX_FOLLOW_UPS = 4;
+const MAX_FOLLOW_UP_LENGTH = 30;
+
+// Max chars to wait for a legacy emotion tag before assuming it's missing
+const EMOTION_TAG_MAX_WAIT = 40;
+
+const EMOTION_TAG = /\[EMOTION:(\w+)\]\n?/;
+
+function toEmotion(value: unknown): EmotionType {
+  return REPLY_EMOTIONS.includes(value as EmotionType) ? (value as EmotionType) : "neutral";
+}
+
+/**
+ * Whether the output is a JSON reply (possibly wrapped in a code fence)
+ */
+function isJsonReply(text: string): boolean {
+  const start = text.trimStart();
+  return start.startsWith("{") || start.startsWith("`");
+}
+
+/**
+ * Decode a JSON string field from possibly incomplete JSON
+ * Returns the decoded prefix received so far, or null if the field hasn't started.
+ * An escape sequence cut off at the end is left for the next delta.
+ */
+function readPartialString(json: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(json);
+  if (!match) return null;
+
+  let value = "";
+  let i = match.index + match[0].length;
+  while (i < json.length) {
+    const ch = json[i];
+    if (ch === '"') break;
+    if (ch !== "\\") {
+      value += ch;
+      i++;
+      continue;
+    }
+
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = json.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+    const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+    value += escapes[next] ?? next;
+    i += 2;
+  }
+  return value;
+}
+
+function readEmotion(json: string): EmotionType | undefined {
+  const match = json.match(/"emotion"\s*:\s*"(\w+)"/);
+  return match ? toEmotion(match[1]) : undefined;
+}
+
+/**
+ * Validate a parsed object against the reply contract
+ * Returns null without usable speech; invalid optional fields are dropped
+ */
+function toReply(value: unknown): StructuredReply | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.speech !== "string" || !obj.speech.trim()) return null;
+
+  const reply: StructuredReply = {
+    emotion: toEmotion(obj.emotion),
+    speech: obj.speech.trim(),
+  };
+
+  if (typeof obj.display === "string" && obj.display.trim() && obj.display.trim() !== reply.speech) {
+    reply.display = obj.display.trim();
+  }
+
+  const item = Number(obj.referenced_item);
+  if (obj.referenced_item !== null && Number.isInteger(item) && item >= 1) {
+    reply.referencedItem = item;
+  }
+
+  if (Array.isArray(obj.follow_ups)) {
+    const followUps = obj.follow_ups
+      .filter((f): f is string => typeof f === "string")
+      .map(f => f.trim())
+      .filter(f => f.length > 0 && f.length <= MAX_FOLLOW_UP_LENGTH)
+      .slice(0, MAX_FOLLOW_UPS);
+    if (followUps.length > 0) {
+      reply.followUps = followUps;
+    }
+  }
+
+  return reply;
+}
+
+/**
+ * Close an unterminated string and open brackets, and drop a dangling key
+ * (the usual shape of a reply cut off by max_tokens)
+ */
+function closeJson(json: string): string {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const ch of json) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{") closers.push("}");
+    else if (ch === "[") closers.push("]");
+    else if (ch === "}" || ch === "]") closers.pop();
+  }
+
+  let repaired = escaped ? json.slice(0, -1) : json;
+  if (inString) repaired += '"';
+  repaired = repaired
+    .replace(/,\s*"[^"\\]*"\s*:?\s*$/, "")
+    .replace(/[,:]\s*$/, "")
+    .replace(/,\s*([}\]])/g, "$1");
+  return repaired + closers.reverse().join("");
+}
+
+/**
+ * Parse the legacy "[EMOTION:xxx] text" format (plain text gets neutral)
+ */
+function parseLegacy(text: string): StructuredReply {
+  const tag = text.match(EMOTION_TAG);
+  return {
+    emotion: toEmotion(tag?.[1]),
+    speech: text.replace(EMOTION_TAG, "").trim(),
+  };
+}
+
+/**
+ * Parse and validate a complete reply
+ */
+export function parseReply(raw: string): ParsedReply {
+  const text = raw.trim();
+  if (!isJsonReply(text)) {
+    return { reply: parseLegacy(text), format: "legacy" };
+  }
+
+  // Drop a code fence and anything before the object
+  const body = text
+    .replace(/^```(?:json)?\s*/, "")
+    .replace(/\s*```$/, "")
+    .replace(/^[^{]*/, "");
+
+  const tryParse = (json: string): StructuredReply | null => {
+    try {
+      return toReply(JSON.parse(json));
+    } catch {
+      return null;
+    }
+  };
+
+  const valid = tryParse(body);
+  if (valid) return { reply: valid, format: "json" };
+
+  // Trailing text after the object, then truncation
+  const repaired = tryParse(body.slice(0, body.lastIndexOf("}") + 1)) ?? tryParse(closeJson(body));
+  if (repaired) return { reply: repaired, format: "repaired" };
+
+  // Last resort: read the fields one by one
+  const reply: StructuredReply = {
+    emotion: readEmotion(body) ?? "neutral",
+    speech: (readPartialString(body, "speech") ?? "").trim(),
+  };
+  const display = readPartialString(body, "display")?.trim();
+  if (display && display !== reply.speech) {
+    reply.display = display;
+  }
+  return { reply, format: "repaired" };
+}
+
+/**
+ * Incremental reader for a streamed reply
+ * Create with createReplyStream() and feed raw deltas to pushReplyDelta()
+ */
+export interface ReplyStream {
+  raw: string;
+  format: "pending" | "json" | "legacy";
+  emotion?: EmotionType;  // Known once the emotion field / tag has arrived
+  emitted: number;        // Speech chars already returned
+}
+
+export function createReplyStream(): ReplyStream {
+  return { raw: "", format: "pending", emitted: 0 };
+}
+
+/**
+ * Speech received so far (null while still waiting for it to start)
+ */
+function currentSpeech(stream: ReplyStream): string | null {
+  if (stream.format === "json") {
+    stream.emotion ??= readEmotion(stream.raw);
+    return readPartialString(stream.raw, "speech");
+  }
+
+  // Legacy: hold back a leading "[" until the emotion tag is complete
+  const text = stream.raw.trimStart();
+  const tag = text.match(EMOTION_TAG);
+  const leadingTag = tag?.index === 0 ? tag : null;
+  if (stream.emotion === undefined) {
+    if (leadingTag) {
+      stream.emotion = toEmotion(leadingTag[1]);
+    } else if (text.startsWith("[") && text.length <= EMOTION_TAG_MAX_WAIT) {
+      return null;
+    } else {
+      stream.emotion = "neutral";
+    }
+  }
+  return leadingTag ? text.slice(leadingTag[0].length) : text;
+}
+
+/**
+ * Feed a raw delta; returns the new speech text it completes (may be empty)
+ */
+export function pushReplyDelta(stream: ReplyStream, delta: string): string {
+  stream.raw += delta;
+
+  if (stream.format === "pending") {
+    if (!stream.raw.trim()) return "";
+    stream.format = isJsonReply(stream.raw) ? "json" : "legacy";
+  }
+
+  const speech = currentSpeech(stream);
+  if (speech === null || speech.length <= stream.emitted) return "";
+
+  const fresh = speech.slice(stream.emitted);
+  stream.emitted = speech.length;
+  return fresh;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { assembleStream, type RawStreamEvent } from "./stream-assembler.js";
+import type { LLMResponse } from "./types.js";
+
+async function* eventsOf(events: RawStreamEvent[]): AsyncIterable<RawStreamEvent> {
+  yield* events;
+}
+
+async function run(events: RawStreamEvent[]): Promise<{ deltas: string[]; response: LLMResponse }> {
+  const stream = assembleStream(eventsOf(events));
+  const deltas: string[] = [];
+  let next = await stream.next();
+  while (!next.done) {
+    deltas.push(next.value);
+    next = await stream.next();
+  }
+  return { deltas, response: next.value };
+}
+
+const messageStart: RawStreamEvent = {
+  type: "message_start",
+  message: { usage: { input_tokens: 120, output_tokens: 1, cache_read_input_tokens: 100, cache_creation_input_tokens: null } },
+};
+
+function toolUse(index: number, partialJson: string[]): RawStreamEvent[] {
+  return [
+    { type: "content_block_start", index, content_block: { type: "tool_use", id: `toolu_${index}`, name: "search_movies" } },
+    ...partialJson.map(json => ({ type: "content_block_delta", index, delta: { type: "input_json_delta", partial_json: json } })),
+    { type: "content_block_stop", index },
+  ];
+}
+
+describe("assembleStream", () => {
+  it("yields text deltas and assembles the final response", async () => {
+    const { deltas, response } = await run([
+      messageStart,
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "こんに" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "ちは" } },
+      { type: "content_block_stop", index: 0 },
+      { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 12 } },
+    ]);
+
+    expect(deltas).toEqual(["こんに", "ちは"]);
+    expect(response).toEqual({
+      content: [{ type: "text", text: "こんにちは" }],
+      stop_reason: "end_turn",
+      usage: { input_tokens: 120, output_tokens: 12, cache_read_input_tokens: 100, cache_creation_input_tokens: 0 },
+    });
+  });
+
+  it("assembles tool input from JSON fragments", async () => {
+    const { response } = await run([
+      messageStart,
+      ...toolUse(0, ['{"query":', '"インセプ', 'ション"}']),
+      ...toolUse(1, []),
+      { type: "message_delta", delta: { stop_reason: "tool_use" } },
+    ]);
+
+    expect(response.stop_reason).toBe("tool_use");
+    expect(response.content).toEqual([
+      { type: "tool_use", id: "toolu_0", name: "search_movies", input: { query: "インセプション" } },
+      { type: "tool_use", id: "toolu_1", name: "search_movies", input: {} },
+    ]);
+  });
+
+  it("keeps the streamed text when tool input is malformed", async () => {
+    const { deltas, response } = await run([
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "調べるね" } },
+      { type: "content_block_stop", index: 0 },
+      ...toolUse(1, ['{"query":"インセプ']),
+      { type: "message_delta", delta: { stop_reason: "tool_use" } },
+    ]);
+
+    expect(deltas).toEqual(["調べるね"]);
+    expect(response.content[1]).toEqual({ type: "tool_use", id: "toolu_1", name: "search_movies", input: {} });
+  });
+
+  it("drops empty text blocks", async () => {
+    const { response } = await run([
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_stop", index: 0 },
+      ...toolUse(1, ['{"query":"x"}']),
+    ]);
+
+    expect(response.content.map(block => block.type)).toEqual(["tool_use"]);
+  });
+});
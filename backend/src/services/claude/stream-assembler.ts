@@ -0,0 +1,131 @@
+/**
+ * Stream Assembler
+ * Turns Anthropic-format message stream events (Anthropic API and Bedrock)
+ * into text deltas plus the final response, assembling tool_use input
+ * from input_json_delta fragments as they arrive.
+ */
+
+import type { LLMContentBlock, LLMResponse, LLMUsage } from "./types.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("StreamAssembler");
+
+/**
+ * Raw stream event (the fields we read from message_start, content_block_*, message_delta)
+ */
+export interface RawStreamEvent {
+  type: string;
+  index?: number;
+  message?: {
+    usage?: {
+      input_tokens?: number | null;
+      output_tokens?: number | null;
+      cache_read_input_tokens?: number | null;
+      cache_creation_input_tokens?: number | null;
+    } | null;
+  };
+  content_block?: { type: string; text?: string; id?: string; name?: string };
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null };
+  usage?: { output_tokens?: number | null } | null;
+}
+
+interface BlockBuffer {
+  block: LLMContentBlock;
+  inputJson: string;  // tool_use input, concatenated input_json_delta fragments
+}
+
+/**
+ * Parse assembled tool input (empty input means no arguments)
+ * Malformed input also becomes no arguments: text may already have been streamed,
+ * so failing here would lose the reply instead of letting the tool report bad input
+ */
+function parseToolInput(json: string, toolName?: string): Record<string, unknown> {
+  if (!json.trim()) return {};
+  try {
+    const input: unknown = JSON.parse(json);
+    if (input && typeof input === "object" && !Array.isArray(input)) {
+      return input as Record<string, unknown>;
+    }
+    log.warn(`Tool input for ${toolName} is not an object, using no arguments`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Malformed tool input for ${toolName} (${message}), using no arguments`);
+  }
+  return {};
+}
+
+/**
+ * Yield text deltas from a raw event stream and return the assembled response
+ */
+export async function* assembleStream(
+  events: AsyncIterable<RawStreamEvent>
+): AsyncGenerator<string, LLMResponse, unknown> {
+  const blocks = new Map<number, BlockBuffer>();
+  let stopReason = "end_turn";
+  const usage: LLMUsage = { input_tokens: 0, output_tokens: 0 };
+
+  for await (const event of events) {
+    switch (event.type) {
+      case "message_start": {
+        const start = event.message?.usage;
+        if (start) {
+          usage.input_tokens = start.input_tokens ?? 0;
+          usage.output_tokens = start.output_tokens ?? 0;
+          usage.cache_read_input_tokens = start.cache_read_input_tokens ?? 0;
+          usage.cache_creation_input_tokens = start.cache_creation_input_tokens ?? 0;
+        }
+        break;
+      }
+
+      case "content_block_start": {
+        const block = event.content_block;
+        if (!block || event.index === undefined) break;
+        blocks.set(event.index, {
+          block: block.type === "tool_use"
+            ? { type: "tool_use", id: block.id, name: block.name }
+            : { type: block.type, text: block.text || "" },
+          inputJson: "",
+        });
+        break;
+      }
+
+      case "content_block_delta": {
+        const buffer = event.index !== undefined ? blocks.get(event.index) : undefined;
+        if (!buffer || !event.delta) break;
+
+        if (event.delta.type === "text_delta" && event.delta.text) {
+          buffer.block.text = (buffer.block.text || "") + event.delta.text;
+          yield event.delta.text;
+        } else if (event.delta.type === "input_json_delta") {
+          buffer.inputJson += event.delta.partial_json || "";
+        }
+        break;
+      }
+
+      case "content_block_stop": {
+        const buffer = event.index !== undefined ? blocks.get(event.index) : undefined;
+        if (buffer?.block.type === "tool_use") {
+          buffer.block.input = parseToolInput(buffer.inputJson, buffer.block.name);
+        }
+        break;
+      }
+
+      case "message_delta":
+        if (event.delta?.stop_reason) {
+          stopReason = event.delta.stop_reason;
+        }
+        if (typeof event.usage?.output_tokens === "number") {
+          usage.output_tokens = event.usage.output_tokens;
+        }
+        break;
+    }
+  }
+
+  // Empty text blocks are rejected when the content is sent back (tool follow-up)
+  const content = [...blocks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, buffer]) => buffer.block)
+    .filter(block => block.type !== "text" || (block.text || "").length > 0);
+
+  return { content, stop_reason: stopReason, usage };
+}
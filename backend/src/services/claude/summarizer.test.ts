@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from "vitest";
+import type { ConversationTurn } from "../../types/index.js";
+
+vi.mock("./provider.js", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+const { selectTurnsToSummarize, summarizeConversation } = await import("./summarizer.js");
+const { invokeLLM } = await import("./provider.js");
+
+function turns(count: number, content = "あいうえおかきくけこ"): ConversationTurn[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content,
+  }));
+}
+
+function replyWith(text: string) {
+  vi.mocked(invokeLLM).mockResolvedValueOnce({
+    content: [{ type: "text", text }],
+    stop_reason: "end_turn",
+  });
+}
+
+describe("selectTurnsToSummarize", () => {
+  // 10 chars ≈ 5 tokens per turn
+  const budget = { tokenBudget: 40, keepRecentTurns: 3 };
+
+  it("summarizes nothing while history is within the budget", () => {
+    expect(selectTurnsToSummarize(turns(8), budget)).toEqual([]);
+  });
+
+  it("summarizes all but the most recent turns once over budget", () => {
+    const history = turns(9);
+    const older = selectTurnsToSummarize(history, budget);
+    expect(older).toHaveLength(6);
+    expect(older[0]).toBe(history[0]);
+  });
+
+  it("never summarizes the recent turns, even when they alone pass the budget", () => {
+    const history = turns(3, "長".repeat(100));
+    expect(selectTurnsToSummarize(history, budget)).toEqual([]);
+    expect(selectTurnsToSummarize(history.slice(0, 2), budget)).toEqual([]);
+  });
+});
+
+describe("summarizeConversation", () => {
+  const history: ConversationTurn[] = [
+    { role: "user", content: "ラーメンが好き" },
+    { role: "assistant", content: "いいね！" },
+  ];
+
+  it("summarizes a transcript and records usage as a summary", async () => {
+    replyWith("[EMOTION:happy] ユーザーはラーメン好き。");
+
+    const summary = await summarizeConversation(history, undefined, { sessionId: "s1", userId: "u1" });
+
+    expect(summary).toBe("ユーザーはラーメン好き。");
+    const [request, scope] = vi.mocked(invokeLLM).mock.calls.at(-1)!;
+    expect(request.messages[0].content).toBe("【会話】\nユーザー：ラーメンが好き\nラビット：いいね！");
+    expect(scope).toEqual({ sessionId: "s1", userId: "u1", purpose: "summary" });
+  });
+
+  it("merges new turns into the previous summary", async () => {
+    replyWith("ラーメン好きで渋谷在住。");
+
+    await summarizeConversation(history, "渋谷在住。");
+
+    const [request, scope] = vi.mocked(invokeLLM).mock.calls.at(-1)!;
+    expect(request.messages[0].content).toMatch(/^【既存の要約】\n渋谷在住。\n\n【新しい会話】\nユーザー：/);
+    expect(scope).toBeUndefined();
+  });
+
+  it("rejects an empty summary", async () => {
+    replyWith("[EMOTION:neutral]");
+    await expect(summarizeConversation(history)).rejects.toThrow("empty summary");
+  });
+});
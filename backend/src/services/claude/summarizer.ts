@@ -0,0 +1,73 @@
+/**
+ * Conversation Summarizer
+ * Condenses older conversation turns into a short summary that is kept
+ * in the system prompt, so long conversations keep their early context.
+ */
+
+import { createLogger } from "../../utils/logger.js";
+import { invokeLLM, type LLMUsageScope } from "./provider.js";
+import { SUMMARY_PROMPT } from "./prompts.js";
+import { estimateHistoryTokens } from "./tokens.js";
+import type { ConversationTurn } from "../../types/index.js";
+
+const log = createLogger("Summarizer");
+
+const MAX_TOKENS_SUMMARY = 400;  // ~300 Japanese chars
+
+/**
+ * Pick the older turns to fold into the summary once history passes the token budget
+ * Returns an empty list while under budget; the most recent turns are always kept verbatim
+ */
+export function selectTurnsToSummarize(
+  history: ConversationTurn[],
+  budget: { tokenBudget: number; keepRecentTurns: number }
+): ConversationTurn[] {
+  if (estimateHistoryTokens(history) <= budget.tokenBudget) {
+    return [];
+  }
+  return history.slice(0, Math.max(0, history.length - budget.keepRecentTurns));
+}
+
+/**
+ * Format turns as a plain transcript for the summarizer
+ */
+function toTranscript(turns: ConversationTurn[]): string {
+  return turns
+    .map(turn => `${turn.role === "user" ? "ユーザー" : "ラビット"}：${turn.content}`)
+    .join("\n");
+}
+
+/**
+ * Summarize turns, merging them into the previous summary if there is one
+ * Usage is recorded against the scope with purpose "summary"
+ */
+export async function summarizeConversation(
+  turns: ConversationTurn[],
+  previousSummary?: string,
+  scope?: LLMUsageScope
+): Promise<string> {
+  const transcript = toTranscript(turns);
+  const content = previousSummary
+    ? `【既存の要約】\n${previousSummary}\n\n【新しい会話】\n${transcript}`
+    : `【会話】\n${transcript}`;
+
+  const response = await invokeLLM({
+    max_tokens: MAX_TOKENS_SUMMARY,
+    system: SUMMARY_PROMPT,
+    messages: [{ role: "user", content }],
+  }, scope && { ...scope, purpose: "summary" });
+
+  const summary = response.content
+    .filter(block => block.type === "text")
+    .map(block => block.text || "")
+    .join("")
+    .replace(/\[EMOTION:\w+\]/g, "")
+    .trim();
+
+  if (!summary) {
+    throw new Error("Summarizer returned an empty summary");
+  }
+
+  log.debug(`Summarized ${turns.length} turns → ${summary.length} chars`);
+  return summary;
+}
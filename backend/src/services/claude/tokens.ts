@@ -0,0 +1,20 @@
+/**
+ * Token Estimation
+ * Rough counts for budgeting without calling a tokenizer
+ */
+
+import type { ConversationTurn } from "../../types/index.js";
+
+/**
+ * Rough token estimate (Japanese text is ~1 token per 1-2 chars)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 2);
+}
+
+/**
+ * Estimated tokens for conversation turns
+ */
+export function estimateHistoryTokens(history: ConversationTurn[]): number {
+  return history.reduce((sum, turn) => sum + estimateTokens(turn.content), 0);
+}
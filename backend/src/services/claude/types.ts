@@ -0,0 +1,88 @@
+/**
+ * LLM Provider Types
+ * Common request/response shapes shared by every provider implementation
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+
+/**
+ * Conversation message and tool schema (Anthropic format, also used by Bedrock)
+ */
+export type LLMMessage = Anthropic.Beta.PromptCaching.PromptCachingBetaMessageParam;
+export type LLMTool = Anthropic.Tool;
+
+/**
+ * System prompt block (Anthropic format)
+ * cache_control marks the end of a prefix the provider may cache between requests
+ */
+export interface LLMSystemBlock {
+  type: "text";
+  text: string;
+  cache_control?: { type: "ephemeral" };
+}
+
+export interface LLMRequest {
+  model?: string;
+  max_tokens: number;
+  system: string | LLMSystemBlock[];
+  messages: LLMMessage[];
+  stop_sequences?: string[];
+  tools?: LLMTool[];
+  signal?: AbortSignal;  // Cancels the call (barge-in); not part of the request body
+}
+
+export interface LLMContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+}
+
+export interface LLMUsage {
+  input_tokens: number;  // Uncached input tokens
+  output_tokens: number;
+  cache_read_input_tokens?: number;  // Prompt prefix read from cache
+  cache_creation_input_tokens?: number;  // Prompt prefix written to cache
+}
+
+/**
+ * Who an LLM call is accounted to (recorded in llm_usage)
+ */
+export interface LLMUsageScope {
+  sessionId?: string;
+  userId?: string;
+  purpose?: string;  // "chat", "summary", ... (defaults to "chat")
+  onUsage?: (usage: LLMUsage, provider: string) => void;  // Called with each call's usage and serving provider (e.g. for workflow timing)
+}
+
+export interface LLMResponse {
+  content: LLMContentBlock[];
+  stop_reason: string;
+  usage?: LLMUsage;
+  provider?: string;  // Provider that served the request (set by provider.ts after failover)
+}
+
+/**
+ * Price per million tokens (USD), used for cost estimation
+ */
+export interface LLMPricing {
+  inputPerMTok: number;
+  outputPerMTok: number;
+  cacheWritePerMTok?: number;  // Defaults to inputPerMTok
+  cacheReadPerMTok?: number;   // Defaults to inputPerMTok
+}
+
+/**
+ * LLM provider contract
+ * Register implementations with registerProvider() in provider.ts
+ */
+export interface LLMProvider {
+  /** Provider name, matched against LLM_PROVIDER */
+  name: string;
+  pricing: LLMPricing;
+  /** Non-streaming call */
+  invoke(request: LLMRequest): Promise<LLMResponse>;
+  /** Streaming call, yields text deltas and returns the full response (tool_use blocks, usage) */
+  stream(request: LLMRequest): AsyncGenerator<string, LLMResponse, unknown>;
+}
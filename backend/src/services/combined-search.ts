@@ -6,7 +6,7 @@
  */
 
 import { searchMovies } from "../db/movies.js";
-import { searchGoogle, formatGoogleResults, type GoogleSearchResponse } from "./google-search.js";
+import type { GoogleSearchResponse } from "./google-search.js";
 import { createLogger } from "../utils/logger.js";
 import type { MovieSearchResult } from "../types/index.js";
 
@@ -74,7 +74,7 @@ export async function combinedMovieSearch(
  */
 function formatCombinedResults(
   dbResults: MovieSearchResult,
-  googleResults: GoogleSearchResponse
+  _googleResults: GoogleSearchResponse
 ): string {
   const sections: string[] = [];
 
@@ -107,7 +107,7 @@ function formatCombinedResults(
 
   // DISABLED: Google results section (focus only on database)
   // if (googleResults.results.length > 0) {
-  //   sections.push(formatGoogleResults(googleResults));
+  //   sections.push(formatGoogleResults(_googleResults));
   // }
 
   return sections.join("\n\n");
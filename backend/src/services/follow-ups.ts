@@ -0,0 +1,60 @@
+/**
+ * Follow-up Suggestions
+ *
+ * Short next messages shown as tappable chips under the assistant message
+ * ("監督は？", "近くのカフェも探して", "保存して").
+ * The LLM suggests them in its reply (follow_ups); after a search without
+ * suggestions, they are derived from the active result set.
+ */
+
+import type { ActiveResultSet } from "../types/index.js";
+
+const MIN_FOLLOW_UPS = 2;
+const MAX_FOLLOW_UPS = 4;
+
+// Derived suggestions, by domain and whether an item is focused
+const RESULT_FOLLOW_UPS = {
+  movie: {
+    list: ["1番を詳しく", "他にもある？", "違うジャンルで探して"],
+    focused: ["監督は？", "似た映画ある？", "保存して"],
+  },
+  gourmet: {
+    list: ["1番を詳しく", "他にもある？", "別のエリアで探して"],
+    focused: ["予算は？", "近くのカフェも探して", "保存して"],
+  },
+} as const;
+
+/**
+ * Suggestions derived from the results currently shown
+ * focusedIndex defaults to the selected item; a single result counts as focused
+ */
+export function deriveFollowUps(
+  activeResults: ActiveResultSet,
+  focusedIndex: number | null = activeResults.selectedIndex
+): string[] {
+  const { list, focused } = RESULT_FOLLOW_UPS[activeResults.type];
+  const hasFocus = activeResults.items.length === 1 ||
+    (focusedIndex !== null && focusedIndex < activeResults.items.length);
+  return [...(hasFocus ? focused : list)];
+}
+
+/**
+ * Pick the follow-ups for a reply
+ * The LLM's suggestions win (duplicates removed); with fewer than two, fall back
+ * to the active results when the turn was about them
+ */
+export function selectFollowUps(
+  llmFollowUps: string[] | undefined,
+  activeResults: ActiveResultSet | null,
+  aboutResults: boolean,
+  focusedIndex?: number | null
+): string[] | undefined {
+  const suggested = [...new Set(llmFollowUps || [])];
+  if (suggested.length >= MIN_FOLLOW_UPS) {
+    return suggested.slice(0, MAX_FOLLOW_UPS);
+  }
+  if (aboutResults && activeResults && activeResults.items.length > 0) {
+    return deriveFollowUps(activeResults, focusedIndex ?? activeResults.selectedIndex);
+  }
+  return undefined;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { config } from "../config/index.js";
+import { getInstantResponse, inHours, isValidHours } from "./instant-responses.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * Freeze the clock at the given hour in the configured time zone
+ */
+function setLocalHour(hour: number): void {
+  const format = new Intl.DateTimeFormat("en-US", {
+    hour: "numeric",
+    hourCycle: "h23",
+    timeZone: config.instantResponses.timeZone,
+  });
+  const base = Date.UTC(2026, 0, 15, 0, 30);
+  for (let offset = 0; offset < 24; offset++) {
+    const time = base + offset * 60 * 60 * 1000;
+    if (parseInt(format.format(new Date(time)), 10) === hour) {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(time);
+      return;
+    }
+  }
+  throw new Error(`No time found for hour ${hour}`);
+}
+
+describe("inHours", () => {
+  it("matches [from, to) within a day", () => {
+    expect(inHours([12, 18], 12)).toBe(true);
+    expect(inHours([12, 18], 17)).toBe(true);
+    expect(inHours([12, 18], 18)).toBe(false);
+    expect(inHours([12, 18], 4)).toBe(false);
+  });
+
+  it("wraps past midnight when from > to", () => {
+    expect(inHours([18, 4], 23)).toBe(true);
+    expect(inHours([18, 4], 0)).toBe(true);
+    expect(inHours([18, 4], 3)).toBe(true);
+    expect(inHours([18, 4], 4)).toBe(false);
+    expect(inHours([18, 4], 12)).toBe(false);
+  });
+});
+
+describe("isValidHours", () => {
+  it("accepts two different integers 0-23", () => {
+    expect(isValidHours([0, 23])).toBe(true);
+    expect(isValidHours([18, 4])).toBe(true);
+  });
+
+  it("rejects anything else", () => {
+    expect(isValidHours([12, 12])).toBe(false);
+    expect(isValidHours([12, 24])).toBe(false);
+    expect(isValidHours([-1, 5])).toBe(false);
+    expect(isValidHours([9.5, 12])).toBe(false);
+    expect(isValidHours(["9", "12"])).toBe(false);
+    expect(isValidHours([9])).toBe(false);
+    expect(isValidHours(null)).toBe(false);
+  });
+});
+
+describe("getInstantResponse", () => {
+  it("answers a late good morning only in the afternoon", () => {
+    setLocalHour(14);
+    expect(getInstantResponse("おはよう")?.ruleId).toBe("good-morning-late");
+
+    setLocalHour(8);
+    expect(getInstantResponse("おはよう")?.ruleId).not.toBe("good-morning-late");
+
+    setLocalHour(2);
+    expect(getInstantResponse("おはよう")?.ruleId).not.toBe("good-morning-late");
+  });
+
+  it("skips nickname variants for guests", () => {
+    setLocalHour(14);
+    for (let i = 0; i < 20; i++) {
+      expect(getInstantResponse("おはよう")?.text).not.toContain("{nickName}");
+    }
+    expect(getInstantResponse("おはよう", "ゆき")?.text).not.toContain("{nickName}");
+  });
+
+  it("leaves other messages to the LLM", () => {
+    expect(getInstantResponse("おすすめの映画を教えて")).toBeNull();
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Instant Response Rules
+ *
+ * Fixed replies to greetings and small talk, answered without an LLM call.
+ * Rules come from the built-in defaults, or from a JSON file
+ * (INSTANT_RESPONSES_FILE) that is reloaded whenever it changes, so replies
+ * can be tuned without a deploy.
+ *
+ * Rules are evaluated by priority (highest first, then file order);
+ * the first rule that matches the message, the time of day and has a usable
+ * variant wins. A variant is picked at random.
+ */
+
+import fs from "fs";
+import { config } from "../config/index.js";
+import { createLogger } from "../utils/logger.js";
+import type { EmotionType } from "../types/index.js";
+
+const log = createLogger("InstantResponses");
+
+export interface InstantRule {
+  /** Name used in logs */
+  id: string;
+  /** Higher runs first (default 0) */
+  priority?: number;
+  /** Regex source(s) tested against the trimmed message, case-insensitive */
+  match: string | string[];
+  /** Local hours [from, to) the rule applies, integers 0-23; wraps past midnight ([18, 4]) */
+  hours?: [number, number];
+  emotion?: EmotionType;
+  /**
+   * Reply variants, or variants per locale ({ "ja": [...], "en": [...] })
+   * "{nickName}" is replaced with the user's nickname; such variants are skipped for guests
+   */
+  responses: string[] | Record<string, string[]>;
+}
+
+export interface InstantResponse {
+  text: string;
+  emotion: EmotionType;
+  ruleId: string;
+}
+
+interface CompiledRule {
+  rule: InstantRule;
+  patterns: RegExp[];
+}
+
+// NOTE: Avoid starting with short interjections (ああ, うん, えっと, わぁ, etc.)
+// as frontend already plays these as waiting sounds
+const DEFAULT_RULES: InstantRule[] = [
+  {
+    id: "good-morning-late",
+    priority: 10,
+    match: "^(おはよう|おはよ|おはようございます)$",
+    hours: [12, 18],
+    emotion: "surprised",
+    responses: ["もうお昼過ぎだよ〜！今起きたの？", "{nickName}、もうこんにちはの時間だよ〜！"],
+  },
+  {
+    id: "good-morning",
+    match: "^(おはよう|おはよ|おはようございます)$",
+    emotion: "happy",
+    responses: ["おはよ〜！今日も一日頑張ろうね！", "おはよ〜！{nickName}、今日は何する？"],
+  },
+  {
+    id: "hello",
+    match: "^(こんにちは|こんにちわ|hello|hi|ハロー)$",
+    emotion: "happy",
+    responses: ["元気？なんか話そうよ！", "{nickName}、元気だった？なんか話そうよ！"],
+  },
+  {
+    id: "good-evening",
+    match: "^(こんばんは|こんばんわ)$",
+    emotion: "happy",
+    responses: ["今日はどんな一日だった？", "{nickName}、今日もお疲れさま！"],
+  },
+  {
+    id: "thanks",
+    match: "^(ありがとう|ありがとうございます|thanks|thank you)$",
+    emotion: "happy",
+    responses: ["いえいえ〜！また何かあったら言ってね！", "どういたしまして！また話そうね！"],
+  },
+  {
+    id: "bye-night",
+    priority: 10,
+    match: "^(さようなら|バイバイ|bye|goodbye|おやすみ|おやすみなさい)$",
+    hours: [21, 4],
+    emotion: "happy",
+    responses: ["おやすみ〜！また明日ね！", "{nickName}、おやすみ！いい夢見てね！"],
+  },
+  {
+    id: "bye",
+    match: "^(さようなら|バイバイ|bye|goodbye)$",
+    emotion: "happy",
+    responses: ["またね〜！いつでも話しかけてね！"],
+  },
+  {
+    id: "yes",
+    match: "^(はい|うん|ok|okay)$",
+    emotion: "neutral",
+    responses: ["で、どうしたの？"],
+  },
+  {
+    id: "tired",
+    match: "^(疲れた|つかれた)$",
+    emotion: "sad",
+    responses: ["お疲れさま〜！ゆっくり休んでね！", "{nickName}、今日もよく頑張ったね！"],
+  },
+  {
+    id: "bored",
+    match: "^(暇|ひま|ヒマ)$",
+    emotion: "excited",
+    responses: ["じゃあ一緒に何か話そうよ！", "映画でも探してみる？"],
+  },
+];
+
+// Greeting sent when the session starts (request_greeting)
+// Personalized variants are used whenever the nickname is known
+const GREETINGS = {
+  emotion: "happy" as EmotionType,
+  guest: ["こんにちは！"],
+  named: ["やっほー、{nickName}！元気？"],
+};
+
+let compiledRules: CompiledRule[] | null = null;
+let watching = false;
+
+/**
+ * Whether hours is a usable [from, to) window: two different hours 0-23
+ */
+export function isValidHours(hours: unknown): hours is [number, number] {
+  return Array.isArray(hours)
+    && hours.length === 2
+    && hours.every(hour => Number.isInteger(hour) && hour >= 0 && hour <= 23)
+    && hours[0] !== hours[1];
+}
+
+/**
+ * Validate and compile rules (invalid rules are skipped), sorted by priority
+ */
+function compileRules(rules: InstantRule[]): CompiledRule[] {
+  const compiled: CompiledRule[] = [];
+  for (const rule of rules) {
+    if (!rule || typeof rule.id !== "string" || !rule.match || !rule.responses) {
+      log.warn(`Skipping invalid instant response rule: ${JSON.stringify(rule)}`);
+      continue;
+    }
+    if (rule.hours !== undefined && !isValidHours(rule.hours)) {
+      log.warn(`Skipping rule "${rule.id}": hours must be two different integers 0-23, got ${JSON.stringify(rule.hours)}`);
+      continue;
+    }
+    try {
+      const sources = Array.isArray(rule.match) ? rule.match : [rule.match];
+      compiled.push({ rule, patterns: sources.map(source => new RegExp(source, "i")) });
+    } catch (error) {
+      log.warn(`Skipping rule "${rule.id}": invalid pattern`, error);
+    }
+  }
+  // Array.prototype.sort is stable: equal priorities keep file order
+  return compiled.sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0));
+}
+
+/**
+ * Read the rule file; keeps the current rules if it can't be read
+ */
+function loadRuleFile(path: string): void {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path, "utf8"));
+    if (!Array.isArray(parsed)) {
+      log.warn(`Instant response file is not an array, keeping current rules: ${path}`);
+      return;
+    }
+    compiledRules = compileRules(parsed as InstantRule[]);
+    log.info(`Loaded ${compiledRules.length} instant response rules from ${path}`);
+  } catch (error) {
+    log.error(`Failed to load instant response file ${path}:`, error);
+  }
+}
+
+/**
+ * Current rules (file rules when configured, reloaded on change)
+ */
+function getRules(): CompiledRule[] {
+  if (compiledRules) return compiledRules;
+
+  compiledRules = compileRules(DEFAULT_RULES);
+  const path = config.instantResponses.rulesPath;
+  if (path) {
+    loadRuleFile(path);
+    if (!watching) {
+      watching = true;
+      fs.watchFile(path, { interval: config.instantResponses.reloadIntervalMs }, (curr, prev) => {
+        if (curr.mtimeMs !== prev.mtimeMs) loadRuleFile(path);
+      }).unref();
+    }
+  }
+  return compiledRules;
+}
+
+/**
+ * Current hour (0-23) in the configured time zone
+ */
+function currentHour(): number {
+  const hour = new Intl.DateTimeFormat("en-US", {
+    hour: "numeric",
+    hourCycle: "h23",
+    timeZone: config.instantResponses.timeZone,
+  }).format(new Date());
+  return parseInt(hour, 10);
+}
+
+/**
+ * Whether hour falls in [from, to), wrapping past midnight when from > to
+ */
+export function inHours([from, to]: [number, number], hour: number): boolean {
+  return from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+}
+
+/**
+ * Message locale: ASCII-only messages are English, anything else Japanese
+ */
+function detectLocale(message: string): string {
+  return /^[\x20-\x7E]+$/.test(message) ? "en" : "ja";
+}
+
+/**
+ * Variants for the locale, falling back to the default locale
+ */
+function variantsFor(rule: InstantRule, locale: string): string[] {
+  if (Array.isArray(rule.responses)) return rule.responses;
+  return rule.responses[locale] ?? rule.responses[config.instantResponses.defaultLocale] ?? [];
+}
+
+/**
+ * Find the instant response for a message, or null to ask the LLM
+ */
+export function getInstantResponse(message: string, nickName?: string): InstantResponse | null {
+  const trimmed = message.trim();
+  const hour = currentHour();
+  const locale = detectLocale(trimmed);
+
+  for (const { rule, patterns } of getRules()) {
+    if (!patterns.some(pattern => pattern.test(trimmed))) continue;
+    if (rule.hours && !inHours(rule.hours, hour)) continue;
+
+    const variants = variantsFor(rule, locale)
+      .filter(text => nickName || !text.includes("{nickName}"));
+    if (variants.length === 0) continue;
+
+    const variant = variants[Math.floor(Math.random() * variants.length)];
+    return {
+      text: nickName ? variant.replaceAll("{nickName}", nickName) : variant,
+      emotion: rule.emotion ?? "neutral",
+      ruleId: rule.id,
+    };
+  }
+  return null;
+}
+
+/**
+ * All greeting variants for a user (every guest variant when there's no nickname)
+ */
+export function getGreetingVariants(nickName?: string): string[] {
+  if (!nickName) return [...GREETINGS.guest];
+  return GREETINGS.named.map(text => text.replaceAll("{nickName}", nickName));
+}
+
+/**
+ * Pick the session greeting
+ */
+export function getGreeting(nickName?: string): InstantResponse {
+  const variants = getGreetingVariants(nickName);
+  return {
+    text: variants[Math.floor(Math.random() * variants.length)],
+    emotion: GREETINGS.emotion,
+    ruleId: nickName ? "greeting-named" : "greeting",
+  };
+}
+
+/**
+ * Every fixed phrase that can be sent without the LLM, for pre-synthesis
+ * Personalized ({nickName}) variants are left out; they are rendered on first use
+ */
+export function getInstantPhrases(): Array<{ text: string; emotion: EmotionType }> {
+  const phrases = getGreetingVariants().map(text => ({ text, emotion: GREETINGS.emotion }));
+  for (const { rule } of getRules()) {
+    const variants = Array.isArray(rule.responses) ? rule.responses : Object.values(rule.responses).flat();
+    for (const text of variants) {
+      if (!text.includes("{nickName}")) {
+        phrases.push({ text, emotion: rule.emotion ?? "neutral" });
+      }
+    }
+  }
+  return phrases;
+}
@@ -0,0 +1,171 @@
+/**
+ * Phrase Audio Cache
+ *
+ * Pre-synthesized audio for the phrases sent without the LLM (instant
+ * responses and greetings), so they are spoken with no TTS latency.
+ * Audio is keyed by TTS engine + text + voice + emotion and stored in
+ * PHRASE_AUDIO_DIR with a manifest; everything is loaded into memory at startup.
+ *
+ * Fixed phrases are rendered ahead of time (npm run generate:phrase-audio).
+ * Personalized phrases ("やっほー、{nickName}！") are rendered on first use
+ * and stored, so a returning user gets them instantly too.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { config } from "../config/index.js";
+import { createLogger } from "../utils/logger.js";
+import { synthesizeSpeech, type AudioFormat, type SynthesizedSpeech } from "./tts/index.js";
+import type { EmotionType, TTSOptions } from "../types/index.js";
+
+const log = createLogger("PhraseAudio");
+
+const MANIFEST_FILE = "manifest.json";
+
+/**
+ * Manifest entry (manifest.json maps key → entry)
+ */
+export interface PhraseAudioEntry {
+  engine: string;
+  text: string;
+  voice: "female" | "male";
+  emotion: EmotionType;
+  format: AudioFormat;
+  bytes: number;
+  createdAt: string;
+}
+
+/**
+ * Stored phrase audio, ready to send
+ */
+export interface PhraseAudio {
+  audio: Buffer;
+  format: AudioFormat;
+}
+
+const audio = new Map<string, PhraseAudio>();
+const manifest: Record<string, PhraseAudioEntry> = {};
+const pending = new Map<string, Promise<PhraseAudio>>();  // Renders in flight, by key
+
+// Manifest writes are chained so concurrent renders don't overwrite each other
+let manifestWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Cache key for a phrase (same text in another voice, emotion or TTS engine is another entry)
+ */
+export function phraseAudioKey(text: string, options: TTSOptions = {}): string {
+  const { voice = "female", emotion = "neutral" } = options;
+  return createHash("sha1")
+    .update(`${config.tts.engine}\u0000${voice}\u0000${emotion}\u0000${text}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Load the stored phrases into memory (missing files are dropped from the manifest)
+ */
+export async function loadPhraseAudio(): Promise<number> {
+  let stored: Record<string, PhraseAudioEntry>;
+  try {
+    stored = JSON.parse(await readFile(join(config.phraseAudio.dir, MANIFEST_FILE), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      log.error("Failed to read phrase audio manifest:", error);
+    }
+    return 0;
+  }
+
+  for (const [key, entry] of Object.entries(stored)) {
+    try {
+      const data = await readFile(join(config.phraseAudio.dir, `${key}.${entry.format}`));
+      audio.set(key, { audio: data, format: entry.format });
+      manifest[key] = entry;
+    } catch {
+      log.warn(`Missing phrase audio file for "${entry.text}" (${key})`);
+    }
+  }
+  log.info(`Loaded ${audio.size} phrase audio clips from ${config.phraseAudio.dir}`);
+  return audio.size;
+}
+
+/**
+ * Pre-synthesized audio for a phrase, or null
+ */
+export function getPhraseAudio(text: string, options: TTSOptions = {}): PhraseAudio | null {
+  return audio.get(phraseAudioKey(text, options)) ?? null;
+}
+
+/**
+ * Whether a phrase has stored audio
+ */
+export function hasPhraseAudio(text: string, options: TTSOptions = {}): boolean {
+  return audio.has(phraseAudioKey(text, options));
+}
+
+/**
+ * Store synthesized audio for a phrase (file + manifest)
+ */
+async function storePhraseAudio(
+  key: string,
+  text: string,
+  options: TTSOptions,
+  speech: SynthesizedSpeech
+): Promise<void> {
+  const { voice = "female", emotion = "neutral" } = options;
+  await mkdir(config.phraseAudio.dir, { recursive: true });
+  await writeFile(join(config.phraseAudio.dir, `${key}.${speech.format}`), speech.audio);
+
+  audio.set(key, { audio: speech.audio, format: speech.format });
+  manifest[key] = {
+    engine: speech.engine,
+    text,
+    voice,
+    emotion,
+    format: speech.format,
+    bytes: speech.audio.length,
+    createdAt: new Date().toISOString(),
+  };
+
+  manifestWrite = manifestWrite
+    .then(() => writeFile(join(config.phraseAudio.dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2)))
+    .catch(error => log.error("Failed to write phrase audio manifest:", error));
+  await manifestWrite;
+}
+
+/**
+ * Audio for a phrase: stored audio when available, otherwise synthesized and stored
+ * force re-synthesizes a stored phrase (e.g. after a voice change)
+ */
+export function renderPhraseAudio(
+  text: string,
+  options: TTSOptions = {},
+  force = false
+): Promise<PhraseAudio> {
+  const key = phraseAudioKey(text, options);
+  const stored = audio.get(key);
+  if (stored && !force) return Promise.resolve(stored);
+
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const render = (async () => {
+    const speech = await synthesizeSpeech(text, options);
+    // Audio from a fallback engine is only used for this request
+    if (speech.engine !== config.tts.engine) {
+      log.warn(`Not storing phrase audio for "${text}" (rendered by fallback engine ${speech.engine})`);
+      return { audio: speech.audio, format: speech.format };
+    }
+    try {
+      await storePhraseAudio(key, text, options, speech);
+      log.debug(`Stored phrase audio: "${text}" (${speech.engine}, ${Math.round(speech.audio.length / 1024)}KB)`);
+    } catch (error) {
+      // Still usable for this request
+      log.error(`Failed to store phrase audio for "${text}":`, error);
+    }
+    return { audio: speech.audio, format: speech.format };
+  })().finally(() => pending.delete(key));
+
+  pending.set(key, render);
+  return render;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.hoisted(() => {
+  process.env.LLM_USER_DAILY_LIMIT_USD = "1";
+  process.env.LLM_GLOBAL_DAILY_LIMIT_USD = "10";
+});
+
+vi.mock("../db/llm-usage.js", () => ({
+  getDailySpend: vi.fn(),
+}));
+
+const { addSpend, checkSpendLimit } = await import("./spend-limit.js");
+const { getDailySpend } = await import("../db/llm-usage.js");
+
+// Spend already recorded today, by filter
+const recorded: Record<string, number> = { global: 2, "user:alice": 0.9, "session:s1": 0.5 };
+
+vi.useFakeTimers({ toFake: ["Date"] });
+vi.setSystemTime(new Date(2026, 9, 19, 12, 0));
+
+beforeEach(() => {
+  vi.mocked(getDailySpend).mockReset();
+  vi.mocked(getDailySpend).mockImplementation(async (filter = {}) => {
+    const key = filter.userId ? `user:${filter.userId}` : filter.sessionId ? `session:${filter.sessionId}` : "global";
+    return recorded[key] ?? 0;
+  });
+});
+
+describe("spend limit", () => {
+  it("seeds counters from the database once per day", async () => {
+    expect(await checkSpendLimit({ userId: "alice", sessionId: "a1" })).toEqual({ limited: false, spentUsd: 0.9, limitUsd: 1 });
+    expect(getDailySpend).toHaveBeenCalledWith({});
+    expect(getDailySpend).toHaveBeenCalledWith({ userId: "alice" });
+
+    vi.mocked(getDailySpend).mockClear();
+    await checkSpendLimit({ userId: "alice", sessionId: "a2" });
+    expect(getDailySpend).not.toHaveBeenCalled();
+  });
+
+  it("limits a user once their daily cap is reached", async () => {
+    addSpend({ userId: "alice", sessionId: "a1" }, 0.1);
+    expect(await checkSpendLimit({ userId: "alice", sessionId: "a3" })).toMatchObject({ limited: true, scope: "user", limitUsd: 1 });
+
+    // Other users are unaffected
+    expect(await checkSpendLimit({ userId: "bob", sessionId: "b1" })).toMatchObject({ limited: false, spentUsd: 0 });
+  });
+
+  it("counts guests per session", async () => {
+    expect(await checkSpendLimit({ userId: "guest", sessionId: "s1" })).toMatchObject({ limited: false, spentUsd: 0.5 });
+    expect(getDailySpend).toHaveBeenCalledWith({ sessionId: "s1" });
+
+    addSpend({ userId: "guest", sessionId: "s1" }, 0.6);
+    expect(await checkSpendLimit({ userId: "guest", sessionId: "s1" })).toMatchObject({ limited: true, scope: "user" });
+    expect(await checkSpendLimit({ userId: "guest", sessionId: "s2" })).toMatchObject({ limited: false, spentUsd: 0 });
+  });
+
+  it("counts from 0 when the database is unavailable", async () => {
+    vi.mocked(getDailySpend).mockRejectedValue(new Error("connection refused"));
+    expect(await checkSpendLimit({ userId: "carol", sessionId: "c1" })).toMatchObject({ limited: false, spentUsd: 0 });
+  });
+
+  it("limits everyone once the global cap is reached, until the next day", async () => {
+    addSpend({ userId: "bob", sessionId: "b1" }, 8);
+    expect(await checkSpendLimit({ userId: "dave", sessionId: "d1" })).toMatchObject({ limited: true, scope: "global", limitUsd: 10 });
+
+    vi.setSystemTime(new Date(2026, 9, 20, 0, 1));
+    recorded.global = 0;
+    expect(await checkSpendLimit({ userId: "dave", sessionId: "d1" })).toMatchObject({ limited: false });
+    expect(getDailySpend).toHaveBeenCalledWith({});
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Spend Limit Service
+ *
+ * Daily LLM spend limits per user and globally (config.spendLimits).
+ * Spend is counted in memory as usage is recorded, seeded from llm_usage
+ * the first time a user (or the global total) is checked each day.
+ * Guests have no user ID, so their limit applies per session.
+ */
+
+import { config } from "../config/index.js";
+import { getDailySpend } from "../db/llm-usage.js";
+import { createLogger } from "../utils/logger.js";
+import type { LLMUsageScope } from "./claude/types.js";
+
+const log = createLogger("SpendLimit");
+
+export interface SpendStatus {
+  limited: boolean;
+  scope?: "user" | "global";  // Which limit was reached
+  spentUsd: number;
+  limitUsd: number;
+}
+
+// Counters for the current day (reset at local midnight)
+let currentDay = "";
+let globalSpend: number | null = null;
+const userSpend = new Map<string, number>();
+
+/**
+ * Key for the per-user counter (guests are counted per session)
+ */
+function spendKey(scope: LLMUsageScope): string | null {
+  if (scope.userId && scope.userId !== "guest") return `user:${scope.userId}`;
+  if (scope.sessionId) return `session:${scope.sessionId}`;
+  return null;
+}
+
+/**
+ * Drop yesterday's counters
+ */
+function rollDay(): void {
+  const today = new Date().toDateString();
+  if (today !== currentDay) {
+    currentDay = today;
+    globalSpend = null;
+    userSpend.clear();
+  }
+}
+
+/**
+ * Load today's spend from llm_usage (0 if the database is unavailable)
+ */
+async function loadSpend(filter: { userId?: string; sessionId?: string }): Promise<number> {
+  try {
+    return await getDailySpend(filter);
+  } catch (error) {
+    log.error("Failed to load daily spend, counting from 0:", error);
+    return 0;
+  }
+}
+
+/**
+ * Add the cost of a recorded LLM call to today's counters
+ */
+export function addSpend(scope: LLMUsageScope | undefined, costUsd: number): void {
+  rollDay();
+  if (globalSpend !== null) {
+    globalSpend += costUsd;
+  }
+
+  const key = scope && spendKey(scope);
+  if (key && userSpend.has(key)) {
+    userSpend.set(key, userSpend.get(key)! + costUsd);
+  }
+}
+
+/**
+ * Check whether the user or global daily limit has been reached
+ */
+export async function checkSpendLimit(scope: LLMUsageScope): Promise<SpendStatus> {
+  const { userDailyUsd, globalDailyUsd } = config.spendLimits;
+  rollDay();
+
+  if (globalDailyUsd > 0) {
+    if (globalSpend === null) {
+      globalSpend = await loadSpend({});
+    }
+    if (globalSpend >= globalDailyUsd) {
+      return { limited: true, scope: "global", spentUsd: globalSpend, limitUsd: globalDailyUsd };
+    }
+  }
+
+  const key = spendKey(scope);
+  if (userDailyUsd > 0 && key) {
+    let spent = userSpend.get(key);
+    if (spent === undefined) {
+      const isUser = key.startsWith("user:");
+      spent = await loadSpend(isUser ? { userId: scope.userId } : { sessionId: scope.sessionId });
+      userSpend.set(key, spent);
+    }
+    if (spent >= userDailyUsd) {
+      return { limited: true, scope: "user", spentUsd: spent, limitUsd: userDailyUsd };
+    }
+    return { limited: false, spentUsd: spent, limitUsd: userDailyUsd };
+  }
+
+  return { limited: false, spentUsd: globalSpend ?? 0, limitUsd: globalDailyUsd };
+}
@@ -0,0 +1,96 @@
+/**
+ * Google Cloud Speech-to-Text Recognizer
+ *
+ * Streaming recognition (v1 streamingRecognize) with interim results.
+ * Uses the same credentials as the Google TTS engines:
+ * GOOGLE_APPLICATION_CREDENTIALS, then GOOGLE_CLOUD_API_KEY, then default credentials.
+ */
+
+import { SpeechClient } from '@google-cloud/speech';
+import { config } from '../../config/index.js';
+import { createLogger } from '../../utils/logger.js';
+import type { SpeechRecognizer } from './types.js';
+
+const log = createLogger("GoogleSTT");
+
+let speechClient: SpeechClient | null = null;
+
+function getSpeechClient(): SpeechClient {
+  if (!speechClient) {
+    const keyFilePath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+
+    if (keyFilePath) {
+      speechClient = new SpeechClient({
+        keyFilename: keyFilePath,
+      });
+      log.info(`Using Google service account from: ${keyFilePath}`);
+    } else {
+      const apiKey = config.google?.cloudApiKey || config.google?.apiKey;
+      if (apiKey) {
+        speechClient = new SpeechClient({
+          apiKey: apiKey,
+        });
+        log.info('Using Google API key authentication');
+      } else {
+        // Last resort: default credentials (works on GCP)
+        speechClient = new SpeechClient();
+        log.info('Using default Google credentials');
+      }
+    }
+  }
+  return speechClient;
+}
+
+export const googleRecognizer: SpeechRecognizer = {
+  name: "google",
+
+  start(options, handlers) {
+    const stream = getSpeechClient().streamingRecognize({
+      config: {
+        encoding: 'LINEAR16',
+        sampleRateHertz: options.sampleRate,
+        languageCode: options.languageCode,
+        enableAutomaticPunctuation: true,
+      },
+      interimResults: true,
+    });
+
+    let ended = false;    // No more audio accepted
+    let aborted = false;  // No more callbacks
+
+    stream.on('data', (response: { results?: Array<{ isFinal?: boolean; alternatives?: Array<{ transcript?: string }> }> }) => {
+      if (aborted) return;
+      const result = response.results?.[0];
+      const text = result?.alternatives?.[0]?.transcript?.trim();
+      if (text) handlers.onTranscript(text, result?.isFinal === true);
+    });
+
+    stream.on('error', (error: Error) => {
+      if (aborted) return;
+      aborted = true;
+      log.error('Google STT error:', error.message);
+      handlers.onError(new Error(`Google STT failed: ${error.message}`));
+    });
+
+    stream.on('end', () => {
+      if (!aborted) handlers.onEnd?.();
+    });
+
+    return {
+      write(pcm) {
+        if (!ended && !aborted) stream.write(pcm);
+      },
+      end() {
+        if (ended || aborted) return;
+        ended = true;
+        stream.end();
+      },
+      abort() {
+        if (aborted) return;
+        aborted = true;
+        ended = true;
+        stream.destroy();
+      },
+    };
+  },
+};
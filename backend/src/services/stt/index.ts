@@ -0,0 +1,68 @@
+/**
+ * Speech Recognition
+ * Recognizer registry and the entry point for server-side speech-to-text:
+ * clients stream microphone PCM over the WebSocket and the configured
+ * recognizer (STT_ENGINE) turns it into partial and final transcripts.
+ */
+
+import { config } from "../../config/index.js";
+import { createLogger } from "../../utils/logger.js";
+import { googleRecognizer } from "./google-recognizer.js";
+import { localRecognizer } from "./local-recognizer.js";
+import type { RecognitionHandlers, RecognitionOptions, RecognitionStream, SpeechRecognizer } from "./types.js";
+
+export type { RecognitionHandlers, RecognitionOptions, RecognitionStream, SpeechRecognizer } from "./types.js";
+export { createVoiceActivityDetector, type VADEvent, type VADOptions, type VoiceActivityDetector } from "./vad.js";
+
+const log = createLogger("STT");
+
+// Recognizer registry (keyed by name)
+const recognizers = new Map<string, SpeechRecognizer>();
+
+/**
+ * Register a speech recognizer
+ * Re-registering a name replaces the previous implementation
+ */
+export function registerRecognizer(recognizer: SpeechRecognizer): void {
+  recognizers.set(recognizer.name, recognizer);
+  log.debug(`Registered speech recognizer: ${recognizer.name}`);
+}
+
+/**
+ * Get a recognizer by name (defaults to the configured STT_ENGINE)
+ */
+export function getRecognizer(name: string = config.stt.engine): SpeechRecognizer {
+  const recognizer = recognizers.get(name);
+  if (!recognizer) {
+    throw new Error(`Unknown speech recognizer "${name}" (registered: ${listRecognizers().join(", ")})`);
+  }
+  return recognizer;
+}
+
+/**
+ * List registered recognizer names
+ */
+export function listRecognizers(): string[] {
+  return [...recognizers.keys()];
+}
+
+// Built-in recognizers
+registerRecognizer(googleRecognizer);
+registerRecognizer(localRecognizer);
+
+/**
+ * Start a recognition stream with the configured recognizer
+ * Language and sample rate default to STT_LANGUAGE / STT_SAMPLE_RATE
+ */
+export function startRecognition(
+  handlers: RecognitionHandlers,
+  options: Partial<RecognitionOptions> = {}
+): RecognitionStream {
+  const recognizer = getRecognizer();
+  const resolved: RecognitionOptions = {
+    languageCode: options.languageCode ?? config.stt.languageCode,
+    sampleRate: options.sampleRate ?? config.stt.sampleRate,
+  };
+  log.debug(`Recognition START (${recognizer.name}, ${resolved.languageCode}, ${resolved.sampleRate}Hz)`);
+  return recognizer.start(resolved, handlers);
+}
@@ -0,0 +1,66 @@
+/**
+ * Local Speech Recognizer (offline stub)
+ *
+ * Does not understand speech: it measures how long the audio was voiced
+ * (RMS energy per 10ms) and reveals STT_LOCAL_TRANSCRIPT one character per
+ * ~110ms of voice as partials, then the whole text as the final when the
+ * stream ends. No credentials or network: used to run the voice path
+ * offline and in CI, e.g. with audio from the local TTS engine.
+ */
+
+import { config } from '../../config/index.js';
+import { pcmRms } from './vad.js';
+import type { SpeechRecognizer } from './types.js';
+
+const WINDOW_MS = 10;
+const VOICE_RMS = 0.02;    // Normalized RMS above which a window counts as voiced
+const SYLLABLE_MS = 110;   // Same pace as the local TTS engine
+
+export const localRecognizer: SpeechRecognizer = {
+  name: "local",
+
+  start(options, handlers) {
+    const transcript = config.stt.localTranscript;
+    const windowBytes = Math.round(WINDOW_MS * options.sampleRate / 1000) * 2;
+
+    let carry = Buffer.alloc(0);  // Incomplete window from the previous write
+    let voicedMs = 0;
+    let partial = "";
+    let closed = false;   // No more audio accepted
+    let aborted = false;  // No more callbacks
+
+    return {
+      write(pcm) {
+        if (closed) return;
+        const audio = carry.length > 0 ? Buffer.concat([carry, pcm]) : pcm;
+        let offset = 0;
+        for (; offset + windowBytes <= audio.length; offset += windowBytes) {
+          if (pcmRms(audio, offset, offset + windowBytes) >= VOICE_RMS) voicedMs += WINDOW_MS;
+        }
+        carry = Buffer.from(audio.subarray(offset));
+
+        const text = transcript.slice(0, Math.floor(voicedMs / SYLLABLE_MS));
+        if (text && text !== partial) {
+          partial = text;
+          handlers.onTranscript(text, false);
+        }
+      },
+
+      end() {
+        if (closed) return;
+        closed = true;
+        // Results are delivered asynchronously, like a real recognizer
+        setImmediate(() => {
+          if (aborted) return;
+          if (voicedMs > 0 && transcript) handlers.onTranscript(transcript, true);
+          handlers.onEnd?.();
+        });
+      },
+
+      abort() {
+        closed = true;
+        aborted = true;
+      },
+    };
+  },
+};
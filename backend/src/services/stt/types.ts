@@ -0,0 +1,41 @@
+/**
+ * Speech Recognizer Types
+ * Contract shared by every server-side speech recognition implementation
+ */
+
+export interface RecognitionOptions {
+  languageCode: string;  // e.g. "ja-JP"
+  sampleRate: number;    // Of the PCM written to the stream
+}
+
+/**
+ * Callbacks for one recognition stream
+ */
+export interface RecognitionHandlers {
+  /** Partial (isFinal=false) or final transcript of the current utterance */
+  onTranscript(text: string, isFinal: boolean): void;
+  onError(error: Error): void;
+  /** The stream is closed (after end(), or when the recognizer gave up) */
+  onEnd?(): void;
+}
+
+/**
+ * One recognition stream, fed with 16-bit mono PCM as it is captured
+ */
+export interface RecognitionStream {
+  write(pcm: Buffer): void;
+  /** No more audio: pending results are still delivered, then onEnd */
+  end(): void;
+  /** Stop immediately, without further callbacks */
+  abort(): void;
+}
+
+/**
+ * Speech recognizer contract
+ * Register implementations with registerRecognizer() in stt/index.ts
+ */
+export interface SpeechRecognizer {
+  /** Recognizer name, matched against STT_ENGINE */
+  name: string;
+  start(options: RecognitionOptions, handlers: RecognitionHandlers): RecognitionStream;
+}
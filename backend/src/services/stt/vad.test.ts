@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { createVoiceActivityDetector, pcmRms, type VADEvent } from "./vad.js";
+
+const SAMPLE_RATE = 16000;
+const options = { sampleRate: SAMPLE_RATE, threshold: 0.02, minSpeechMs: 100, hangoverMs: 300 };
+
+/**
+ * 16-bit PCM: a 200Hz tone at amplitude (0..1), or silence at 0
+ */
+function pcm(ms: number, amplitude: number): Buffer {
+  const samples = Math.round(ms * SAMPLE_RATE / 1000);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    buffer.writeInt16LE(Math.round(amplitude * 32767 * Math.sin(2 * Math.PI * 200 * i / SAMPLE_RATE)), i * 2);
+  }
+  return buffer;
+}
+
+const silence = (ms: number) => pcm(ms, 0);
+const voice = (ms: number) => pcm(ms, 0.3);
+
+describe("pcmRms", () => {
+  it("is 0 for silence and amplitude/sqrt(2) for a sine", () => {
+    expect(pcmRms(silence(20))).toBe(0);
+    expect(pcmRms(voice(100))).toBeCloseTo(0.3 / Math.SQRT2, 2);
+  });
+});
+
+describe("createVoiceActivityDetector", () => {
+  it("reports an utterance with its start and end offsets", () => {
+    const vad = createVoiceActivityDetector(options);
+    const events = vad.process(Buffer.concat([silence(200), voice(500), silence(400)]));
+
+    expect(events).toEqual([
+      { type: "speech_start", offsetMs: 200 },
+      { type: "speech_end", offsetMs: 700, durationMs: 500 },
+    ]);
+    expect(vad.speaking).toBe(false);
+  });
+
+  it("ignores clicks shorter than minSpeechMs", () => {
+    const vad = createVoiceActivityDetector(options);
+    expect(vad.process(Buffer.concat([voice(60), silence(400), voice(40), silence(400)]))).toEqual([]);
+  });
+
+  it("keeps pauses shorter than the hangover inside the utterance", () => {
+    const vad = createVoiceActivityDetector(options);
+    const events = vad.process(Buffer.concat([voice(300), silence(200), voice(300), silence(400)]));
+
+    expect(events.map(event => event.type)).toEqual(["speech_start", "speech_end"]);
+    expect(events[1]).toEqual({ type: "speech_end", offsetMs: 800, durationMs: 800 });
+  });
+
+  it("handles audio split at arbitrary byte boundaries", () => {
+    const audio = Buffer.concat([silence(100), voice(400), silence(400)]);
+    const vad = createVoiceActivityDetector(options);
+    const events: VADEvent[] = [];
+    for (let offset = 0; offset < audio.length; offset += 333) {
+      events.push(...vad.process(audio.subarray(offset, offset + 333)));
+    }
+
+    expect(events).toEqual([
+      { type: "speech_start", offsetMs: 100 },
+      { type: "speech_end", offsetMs: 500, durationMs: 400 },
+    ]);
+  });
+
+  it("closes an utterance in progress on flush", () => {
+    const vad = createVoiceActivityDetector(options);
+    expect(vad.process(voice(200))).toEqual([{ type: "speech_start", offsetMs: 0 }]);
+    expect(vad.speaking).toBe(true);
+    expect(vad.flush()).toEqual([{ type: "speech_end", offsetMs: 200, durationMs: 200 }]);
+    expect(vad.flush()).toEqual([]);
+  });
+});
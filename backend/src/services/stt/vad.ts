@@ -0,0 +1,111 @@
+/**
+ * Voice Activity Detection
+ *
+ * Energy- and duration-based endpointing on 16-bit mono PCM. A 20ms frame is
+ * voiced when its RMS is above the threshold. Speech starts once minSpeechMs
+ * of voiced frames have accumulated (with no silence of hangoverMs in
+ * between, so clicks and coughs are ignored) and ends after hangoverMs of
+ * silence, which keeps the short pauses inside an utterance.
+ */
+
+const FRAME_MS = 20;
+
+export interface VADOptions {
+  sampleRate: number;
+  threshold: number;    // Normalized RMS (0..1)
+  minSpeechMs: number;  // Voiced time before speech_start
+  hangoverMs: number;   // Silence before speech_end
+}
+
+/**
+ * Speech boundary; offsets are positions in the audio fed so far
+ */
+export type VADEvent =
+  | { type: "speech_start"; offsetMs: number }                     // Start of the first voiced frame
+  | { type: "speech_end"; offsetMs: number; durationMs: number };  // End of the last voiced frame
+
+export interface VoiceActivityDetector {
+  /** Feed audio; returns the boundaries crossed in it */
+  process(pcm: Buffer): VADEvent[];
+  /** End of the audio: closes an utterance in progress */
+  flush(): VADEvent[];
+  readonly speaking: boolean;
+}
+
+/**
+ * RMS of 16-bit little-endian samples, normalized to 0..1
+ */
+export function pcmRms(pcm: Buffer, start = 0, end = pcm.length): number {
+  let sum = 0;
+  for (let offset = start; offset + 1 < end; offset += 2) {
+    const sample = pcm.readInt16LE(offset) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / Math.max(1, (end - start) >> 1));
+}
+
+export function createVoiceActivityDetector(options: VADOptions): VoiceActivityDetector {
+  const frameBytes = Math.round(FRAME_MS * options.sampleRate / 1000) * 2;
+
+  let carry = Buffer.alloc(0);  // Incomplete frame from the previous call
+  let position = 0;             // Audio processed (ms)
+  let speaking = false;
+  let candidateStart = -1;      // First voiced frame of a possible utterance (-1 = none)
+  let voicedMs = 0;             // Voiced time since candidateStart
+  let lastVoicedEnd = 0;
+  let speechStart = 0;
+
+  function speechEnd(): VADEvent {
+    speaking = false;
+    return { type: "speech_end", offsetMs: lastVoicedEnd, durationMs: lastVoicedEnd - speechStart };
+  }
+
+  function frame(voiced: boolean): VADEvent | null {
+    const start = position;
+    position += FRAME_MS;
+
+    if (voiced) {
+      lastVoicedEnd = position;
+      if (speaking) return null;
+      if (candidateStart < 0) {
+        candidateStart = start;
+        voicedMs = 0;
+      }
+      voicedMs += FRAME_MS;
+      if (voicedMs < options.minSpeechMs) return null;
+      speaking = true;
+      speechStart = candidateStart;
+      candidateStart = -1;
+      return { type: "speech_start", offsetMs: speechStart };
+    }
+
+    if (position - lastVoicedEnd < options.hangoverMs) return null;
+    if (speaking) return speechEnd();
+    candidateStart = -1;  // Too short to be speech
+    return null;
+  }
+
+  return {
+    process(pcm: Buffer): VADEvent[] {
+      const audio = carry.length > 0 ? Buffer.concat([carry, pcm]) : pcm;
+      const events: VADEvent[] = [];
+      let offset = 0;
+      for (; offset + frameBytes <= audio.length; offset += frameBytes) {
+        const event = frame(pcmRms(audio, offset, offset + frameBytes) >= options.threshold);
+        if (event) events.push(event);
+      }
+      carry = Buffer.from(audio.subarray(offset));
+      return events;
+    },
+
+    flush(): VADEvent[] {
+      carry = Buffer.alloc(0);
+      candidateStart = -1;
+      return speaking ? [speechEnd()] : [];
+    },
+
+    get speaking(): boolean {
+      return speaking;
+    },
+  };
+}
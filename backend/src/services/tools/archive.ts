@@ -0,0 +1,370 @@
+/**
+ * Archive Tools
+ * Let the assistant read and edit the user's saved items (user_archive)
+ * e.g. "先週何を保存した？", "2番目のラーメン屋をリストから消して", "インセプションってもう保存した？"
+ */
+
+import {
+  saveToArchive,
+  removeFromArchive,
+  getArchiveByDomain,
+  getArchiveStats,
+  getFriendsWhoSavedItem,
+  type UserArchive,
+} from "../../db/user-archive.js";
+import { ARCHIVE_KEYWORDS } from "../../constants/keywords.js";
+import { createLogger } from "../../utils/logger.js";
+import type {
+  ArchiveItemInfo,
+  DomainType,
+  FriendMatch,
+  GourmetRestaurant,
+  Movie,
+} from "../../types/index.js";
+import { toMovieArchiveItem } from "./movie-search.js";
+import { toRestaurantArchiveItem } from "./gourmet-search.js";
+import type { ToolContext, ToolDefinition } from "./types.js";
+
+const log = createLogger("ArchiveTools");
+
+// Max archive rows scanned for title lookups
+const ARCHIVE_SCAN_LIMIT = 200;
+
+// Tool results carry an error message instead of throwing for expected failures
+// (not logged in, item not found) so the assistant can explain it to the user
+interface ArchiveToolError {
+  error: string;
+}
+
+const NOT_LOGGED_IN: ArchiveToolError = { error: "ログインしていないため保存リストを使えません" };
+
+const DOMAIN_PROPERTY = {
+  type: "string",
+  enum: ["movie", "gourmet"],
+  description: "ジャンル（movie: 映画・ドラマ・アニメ, gourmet: お店）。指定しなければ全部",
+};
+
+/**
+ * Check if the query is about the user's saved items
+ */
+export function needsArchive(message: string): boolean {
+  const lowerMessage = message.toLowerCase();
+  return ARCHIVE_KEYWORDS.some(keyword => lowerMessage.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Resolve the archive owner (guests have no archive)
+ */
+function getArchiveUserId(ctx: ToolContext): string | null {
+  return ctx.userId && ctx.userId !== "guest" ? ctx.userId : null;
+}
+
+/**
+ * Normalize a title for loose matching (case, spaces, punctuation)
+ */
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[\s・:：\-－!！?？'"「」『』]/g, "");
+}
+
+/**
+ * Find saved items whose title (Japanese or English) contains the query
+ */
+function matchByTitle(items: UserArchive[], title: string): UserArchive[] {
+  const query = normalizeTitle(title);
+  if (!query) return [];
+
+  return items.filter(item => {
+    const titles = [item.item_title, item.item_data?.title_en as string | undefined];
+    return titles.some(t => t && normalizeTitle(t).includes(query));
+  });
+}
+
+/**
+ * Compact archive row for the LLM
+ */
+function toSummary(item: UserArchive, index?: number) {
+  return {
+    ...(index !== undefined && { no: index + 1 }),
+    domain: item.domain,
+    item_id: item.item_id,
+    title: item.item_title,
+    saved: new Date(item.created_at).toISOString().slice(0, 10),
+  };
+}
+
+// ============================================================================
+// list_archive
+// ============================================================================
+
+interface ListArchiveInput {
+  domain?: DomainType;
+  days?: number;
+  limit?: number;
+}
+
+type ListArchiveResult = ArchiveToolError | { items: UserArchive[]; total: number };
+
+export const listArchiveTool: ToolDefinition<ListArchiveInput, ListArchiveResult> = {
+  schema: {
+    name: "list_archive",
+    description: "ユーザーが保存した映画・お店のリストを新しい順に取得する。「最近保存したもの」「先週保存した映画」「保存リストの2番目」など",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        domain: DOMAIN_PROPERTY,
+        days: { type: "number", description: "直近何日以内に保存したものに絞る（例：先週なら7）" },
+        limit: { type: "number", description: "最大件数（デフォルト10）" },
+      },
+    },
+  },
+
+  isRelevant: needsArchive,
+
+  async execute(input, ctx) {
+    const userId = getArchiveUserId(ctx);
+    if (!userId) return NOT_LOGGED_IN;
+
+    let items = await getArchiveByDomain(userId, input.domain, ARCHIVE_SCAN_LIMIT);
+    if (input.days && input.days > 0) {
+      const since = Date.now() - input.days * 24 * 60 * 60 * 1000;
+      items = items.filter(item => new Date(item.created_at).getTime() >= since);
+    }
+
+    return { items: items.slice(0, input.limit || 10), total: items.length };
+  },
+
+  format(result) {
+    if ("error" in result) return JSON.stringify(result);
+    if (result.items.length === 0) return JSON.stringify({ found: 0 });
+
+    // Numbered newest first, so "2番目" maps to no: 2
+    return JSON.stringify({
+      total: result.total,
+      items: result.items.map((item, i) => toSummary(item, i)),
+    });
+  },
+};
+
+// ============================================================================
+// check_archive
+// ============================================================================
+
+interface CheckArchiveInput {
+  title: string;
+  domain?: DomainType;
+}
+
+type CheckArchiveResult = ArchiveToolError | { saved: boolean; matches: UserArchive[] };
+
+export const checkArchiveTool: ToolDefinition<CheckArchiveInput, CheckArchiveResult> = {
+  schema: {
+    name: "check_archive",
+    description: "作品名・店名がユーザーの保存リストに入っているか確認する。「インセプションってもう保存した？」など",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        title: { type: "string", description: "作品名または店名（元の表記のまま）" },
+        domain: DOMAIN_PROPERTY,
+      },
+      required: ["title"],
+    },
+  },
+
+  isRelevant: needsArchive,
+
+  async execute(input, ctx) {
+    const userId = getArchiveUserId(ctx);
+    if (!userId) return NOT_LOGGED_IN;
+
+    const items = await getArchiveByDomain(userId, input.domain, ARCHIVE_SCAN_LIMIT);
+    const matches = matchByTitle(items, input.title);
+    return { saved: matches.length > 0, matches };
+  },
+
+  format(result) {
+    if ("error" in result) return JSON.stringify(result);
+    return JSON.stringify({
+      saved: result.saved,
+      matches: result.matches.slice(0, 5).map(item => toSummary(item)),
+    });
+  },
+};
+
+// ============================================================================
+// remove_from_archive
+// ============================================================================
+
+interface RemoveFromArchiveInput {
+  item_id?: string;
+  domain?: DomainType;
+  title?: string;
+}
+
+type RemoveFromArchiveResult =
+  | ArchiveToolError
+  | { removed: UserArchive }
+  | { ambiguous: UserArchive[] };
+
+export const removeFromArchiveTool: ToolDefinition<RemoveFromArchiveInput, RemoveFromArchiveResult> = {
+  schema: {
+    name: "remove_from_archive",
+    description: "保存リストから1件削除する。番号で指定された場合は先に list_archive で item_id を確認してから呼ぶ。候補が複数ある場合は削除せず candidates を返すので、ユーザーにどれか確認する",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        item_id: { type: "string", description: "list_archive / check_archive で得た item_id" },
+        domain: DOMAIN_PROPERTY,
+        title: { type: "string", description: "item_id が分からない場合の作品名・店名" },
+      },
+    },
+  },
+
+  isRelevant: needsArchive,
+
+  async execute(input, ctx) {
+    const userId = getArchiveUserId(ctx);
+    if (!userId) return NOT_LOGGED_IN;
+
+    const items = await getArchiveByDomain(userId, input.domain, ARCHIVE_SCAN_LIMIT);
+    const candidates = input.item_id
+      ? items.filter(item => item.item_id === input.item_id)
+      : matchByTitle(items, input.title || "");
+
+    if (candidates.length === 0) {
+      return { error: "保存リストに該当するものが見つかりません" };
+    }
+    if (candidates.length > 1) {
+      return { ambiguous: candidates };
+    }
+
+    const target = candidates[0];
+    const removed = await removeFromArchive(userId, target.domain, target.item_id);
+    if (!removed) {
+      return { error: "保存リストに該当するものが見つかりません" };
+    }
+
+    log.info(`🗑️ Removed from archive: ${target.domain}/${target.item_id} for user ${userId}`);
+    return { removed: target };
+  },
+
+  format(result) {
+    if ("error" in result) return JSON.stringify(result);
+    if ("ambiguous" in result) {
+      return JSON.stringify({ removed: false, candidates: result.ambiguous.slice(0, 5).map(item => toSummary(item)) });
+    }
+    return JSON.stringify({ removed: true, item: toSummary(result.removed) });
+  },
+
+  present(result) {
+    if (!("removed" in result)) return null;
+    return {
+      archiveChange: {
+        action: "removed",
+        domain: result.removed.domain,
+        itemId: result.removed.item_id,
+        itemTitle: result.removed.item_title,
+      },
+    };
+  },
+};
+
+// ============================================================================
+// save_to_archive
+// ============================================================================
+
+interface SaveToArchiveInput {
+  number: number;
+}
+
+type SaveToArchiveResult = ArchiveToolError | { item: ArchiveItemInfo; friendsMatched: FriendMatch[] };
+
+export const saveToArchiveTool: ToolDefinition<SaveToArchiveInput, SaveToArchiveResult> = {
+  schema: {
+    name: "save_to_archive",
+    description: "いま表示している検索結果のうち、指定番号の作品・お店を保存リストに追加する。「2番目を保存して」など",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        number: { type: "number", description: "表示中の検索結果の番号（1始まり）" },
+      },
+      required: ["number"],
+    },
+  },
+
+  isRelevant: needsArchive,
+
+  async execute(input, ctx) {
+    const userId = getArchiveUserId(ctx);
+    if (!userId) return NOT_LOGGED_IN;
+
+    const results = ctx.activeResults;
+    const entry = results?.items[input.number - 1];
+    if (!results || !entry) {
+      return { error: "その番号の検索結果がありません" };
+    }
+
+    const item = results.type === "movie"
+      ? toMovieArchiveItem(entry as Movie)
+      : toRestaurantArchiveItem(entry as GourmetRestaurant);
+
+    await saveToArchive(userId, item.itemDomain, item.itemId, item.itemTitle, item.itemData);
+    const friendsMatched = await getFriendsWhoSavedItem(userId, item.itemDomain, item.itemId);
+
+    log.info(`📚 Saved to archive: ${item.itemDomain}/${item.itemId} for user ${userId}, friendsMatched=${friendsMatched.length}`);
+    return { item, friendsMatched };
+  },
+
+  format(result) {
+    if ("error" in result) return JSON.stringify(result);
+    return JSON.stringify({
+      saved: true,
+      title: result.item.itemTitle,
+      friends: result.friendsMatched.map(friend => friend.name),
+    });
+  },
+
+  present(result) {
+    if ("error" in result) return null;
+    return {
+      archiveChange: {
+        action: "saved",
+        domain: result.item.itemDomain,
+        itemId: result.item.itemId,
+        itemTitle: result.item.itemTitle,
+        itemData: result.item.itemData,
+        friendsMatched: result.friendsMatched,
+      },
+    };
+  },
+};
+
+// ============================================================================
+// archive_stats
+// ============================================================================
+
+type ArchiveStatsResult = ArchiveToolError | { stats: Record<string, number> };
+
+export const archiveStatsTool: ToolDefinition<Record<string, never>, ArchiveStatsResult> = {
+  schema: {
+    name: "archive_stats",
+    description: "保存リストのジャンル別の件数を取得する。「何件保存してる？」など",
+    input_schema: {
+      type: "object" as const,
+      properties: {},
+    },
+  },
+
+  isRelevant: needsArchive,
+
+  async execute(_input, ctx) {
+    const userId = getArchiveUserId(ctx);
+    if (!userId) return NOT_LOGGED_IN;
+    return { stats: await getArchiveStats(userId) };
+  },
+
+  format(result) {
+    if ("error" in result) return JSON.stringify(result);
+    const total = Object.values(result.stats).reduce((sum, count) => sum + count, 0);
+    return JSON.stringify({ total, by_domain: result.stats });
+  },
+};
@@ -0,0 +1,145 @@
+/**
+ * Gourmet Search Tool
+ * Searches the restaurant database
+ */
+
+import { searchGourmetRestaurants } from "../../db/gourmet.js";
+import { GOURMET_KEYWORDS } from "../../constants/keywords.js";
+import { createLogger } from "../../utils/logger.js";
+import type {
+  ArchiveItemInfo,
+  ConversationTurn,
+  DomainType,
+  GourmetRestaurant,
+  GourmetSearchInput,
+  GourmetSearchResult,
+} from "../../types/index.js";
+import type { ToolDefinition } from "./types.js";
+
+const log = createLogger("Gourmet");
+
+/**
+ * Check if the query needs gourmet search tools
+ * Considers both explicit keywords and conversation context
+ */
+export function needsGourmetSearch(message: string, history?: ConversationTurn[]): boolean {
+  const lowerMessage = message.toLowerCase();
+  
+  // Explicit gourmet keywords
+  const hasExplicitKeyword = GOURMET_KEYWORDS.some(keyword =>
+    lowerMessage.includes(keyword.toLowerCase())
+  );
+  
+  if (hasExplicitKeyword) return true;
+  
+  // Implicit detection: Check if recent conversation was about gourmet
+  if (history && history.length > 0) {
+    const recentTurns = history.slice(-3); // Last 3 turns
+    const hasGourmetContext = recentTurns.some(turn => turn.domain === 'gourmet');
+    
+    if (hasGourmetContext) {
+      // Implicit follow-up questions that need data
+      const implicitPatterns = [
+        /教えて|紹介|おすすめ|詳しく|もっと|他に|別の|探し|検索|知りたい|行きたい|聞きたい/,
+        /それ|その|こ[のれ]|あ[のれ]/, // これ, それ, あれ, この, その, あの
+        /どんな|何|誰|いつ|どこ|なぜ|どう/,
+        /予算|値段|価格|料金|安い|高い/, // Price-related (gourmet specific)
+        /営業|時間|定休|予約/, // Hours/reservation (gourmet specific)
+      ];
+      
+      return implicitPatterns.some(pattern => pattern.test(lowerMessage));
+    }
+  }
+  
+  return false;
+}
+
+/**
+ * Format gourmet search results for LLM
+ */
+function formatGourmetResults(result: GourmetSearchResult): string {
+  if (result.restaurants.length === 0) {
+    return JSON.stringify({ found: 0 });
+  }
+
+  const compact = result.restaurants.slice(0, 5).map(r => ({
+    name: r.name,
+    addr: r.address,
+    copy: r.catch_copy,
+    access: r.access,
+    hours: r.open_hours,
+  }));
+
+  // Log formatted results being sent to LLM
+  const names = result.restaurants.slice(0, 3).map(r => r.name).join(", ");
+  const more = result.restaurants.length > 3 ? ` +${result.restaurants.length - 3} more` : "";
+  log.debug(`📤 Formatted ${result.restaurants.length} results for LLM: ${names}${more}`);
+
+  return JSON.stringify(compact);
+}
+
+/**
+ * Build the archive item for a restaurant (archive candidate / save target)
+ */
+export function toRestaurantArchiveItem(restaurant: GourmetRestaurant): ArchiveItemInfo {
+  return {
+    itemId: restaurant.id?.toString() || `gourmet-${Date.now()}`,
+    itemTitle: restaurant.name,
+    itemDomain: "gourmet" as DomainType,
+    itemData: {
+      code: restaurant.code,
+      address: restaurant.address,
+      catch_copy: restaurant.catch_copy,
+      urls_pc: restaurant.urls_pc,
+      open_hours: restaurant.open_hours,
+    },
+  };
+}
+
+export const gourmetSearchTool: ToolDefinition<GourmetSearchInput, GourmetSearchResult> = {
+  schema: {
+    name: "gourmet_search",
+    description: "レストラン・飲食店を検索。エリア、料理ジャンル、店名などで検索する。店名は元の表記のまま検索する（翻訳不要）",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        query: { type: "string", description: "店名、料理ジャンル、キーワード（英語・日本語・カタカナどれでもOK、元の表記のまま検索。「レストラン」「restaurant」等の一般語は除外し、固有名詞のみ）" },
+        area: { type: "string", description: "エリア・地域名（例：新宿、渋谷、銀座）" },
+        cuisine: { type: "string", description: "料理の種類（例：イタリアン、和食、寿司）" },
+      },
+      required: ["query"],
+    },
+  },
+
+  isRelevant: needsGourmetSearch,
+
+  prefetchInput: (userText) => ({ query: userText }),
+
+  execute: (input) => searchGourmetRestaurants(input.query, input.area, input.cuisine),
+
+  format: formatGourmetResults,
+
+  present(result, input) {
+    if (!result.restaurants || result.restaurants.length === 0) {
+      return null;
+    }
+
+    // First restaurant becomes the archive candidate
+    return {
+      archiveItem: toRestaurantArchiveItem(result.restaurants[0]),
+      searchResults: {
+        type: "gourmet",
+        restaurants: result.restaurants,
+        total: result.total,
+      },
+      // Active results for numbered selection
+      activeResults: {
+        type: "gourmet",
+        items: result.restaurants,
+        selectedIndex: null,
+        query: input.query,
+        timestamp: Date.now(),
+      },
+    };
+  },
+};
@@ -0,0 +1,47 @@
+/**
+ * LLM Tools
+ * Registers the built-in tools and re-exports the registry API
+ *
+ * To add a tool: define a ToolDefinition in its own file and register it here.
+ */
+
+import { registerTool } from "./registry.js";
+import { searchMoviesTool } from "./movie-search.js";
+import { gourmetSearchTool } from "./gourmet-search.js";
+import {
+  listArchiveTool,
+  checkArchiveTool,
+  removeFromArchiveTool,
+  saveToArchiveTool,
+  archiveStatsTool,
+} from "./archive.js";
+import { recommendFromFriendsTool } from "./recommendations.js";
+import { listMemoriesTool, forgetMemoryTool } from "./memory.js";
+
+registerTool(searchMoviesTool);
+registerTool(gourmetSearchTool);
+registerTool(listArchiveTool);
+registerTool(checkArchiveTool);
+registerTool(removeFromArchiveTool);
+registerTool(saveToArchiveTool);
+registerTool(archiveStatsTool);
+registerTool(recommendFromFriendsTool);
+registerTool(listMemoriesTool);
+registerTool(forgetMemoryTool);
+
+export {
+  registerTool,
+  getTool,
+  listTools,
+  getToolSchemas,
+  needsTools,
+  createToolContext,
+  startPrefetch,
+  executeTool,
+} from "./registry.js";
+export { needsMovieSearch } from "./movie-search.js";
+export { needsGourmetSearch } from "./gourmet-search.js";
+export { needsArchive } from "./archive.js";
+export { needsFriendRecommendations } from "./recommendations.js";
+export { needsMemory } from "./memory.js";
+export type { ToolDefinition, RegisteredTool, ToolContext, ToolPresentation, ArchiveChange } from "./types.js";
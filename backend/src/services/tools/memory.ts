@@ -0,0 +1,122 @@
+/**
+ * Memory Tools
+ * Let the user review and erase what the assistant remembers about them
+ * e.g. "私について何を覚えてる？", "ホラーが苦手って忘れて", "全部忘れて"
+ */
+
+import { getMemories, deleteMemory, clearMemories, type UserMemory } from "../../db/user-memory.js";
+import { formatMemory, loadMemoryLines } from "../user-memory.js";
+import { MEMORY_KEYWORDS } from "../../constants/keywords.js";
+import { createLogger } from "../../utils/logger.js";
+import type { ToolDefinition } from "./types.js";
+
+const log = createLogger("MemoryTools");
+
+const NOT_LOGGED_IN = { error: "ログインしていないため記憶を使えません" };
+
+/**
+ * Check if the query is about what the assistant remembers
+ */
+export function needsMemory(message: string): boolean {
+  const lowerMessage = message.toLowerCase();
+  return MEMORY_KEYWORDS.some(keyword => lowerMessage.includes(keyword.toLowerCase()));
+}
+
+// ============================================================================
+// list_memories
+// ============================================================================
+
+type ListMemoriesResult = { error: string } | { memories: UserMemory[] };
+
+export const listMemoriesTool: ToolDefinition<Record<string, never>, ListMemoriesResult> = {
+  schema: {
+    name: "list_memories",
+    description: "これまでの会話で覚えたユーザーの好み（好き・苦手・食事制限・住まい）を取得する。「私について何を覚えてる？」など",
+    input_schema: {
+      type: "object" as const,
+      properties: {},
+    },
+  },
+
+  isRelevant: needsMemory,
+
+  async execute(_input, ctx) {
+    if (!ctx.userId || ctx.userId === "guest") return NOT_LOGGED_IN;
+    return { memories: await getMemories(ctx.userId) };
+  },
+
+  format(result) {
+    if ("error" in result) return JSON.stringify(result);
+    if (result.memories.length === 0) return JSON.stringify({ found: 0 });
+    return JSON.stringify(result.memories.map(memory => ({ id: memory.id, memory: formatMemory(memory) })));
+  },
+};
+
+// ============================================================================
+// forget_memory
+// ============================================================================
+
+interface ForgetMemoryInput {
+  subject?: string;
+  all?: boolean;
+}
+
+type ForgetMemoryResult =
+  | { error: string }
+  | { forgotten: string[]; memories: string[] };
+
+export const forgetMemoryTool: ToolDefinition<ForgetMemoryInput, ForgetMemoryResult> = {
+  schema: {
+    name: "forget_memory",
+    description: "覚えているユーザーの好みを忘れる。「ホラーが苦手って忘れて」なら subject に「ホラー」、「全部忘れて」なら all を true にする",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        subject: { type: "string", description: "忘れる内容のキーワード（例：ホラー、渋谷、ベジタリアン）" },
+        all: { type: "boolean", description: "すべて忘れる場合は true" },
+      },
+    },
+  },
+
+  isRelevant: needsMemory,
+
+  async execute(input, ctx) {
+    const userId = ctx.userId;
+    if (!userId || userId === "guest") return NOT_LOGGED_IN;
+
+    if (input.all) {
+      const count = await clearMemories(userId);
+      log.info(`🧹 Cleared ${count} memories for user ${userId}`);
+      return { forgotten: [`${count}件すべて`], memories: [] };
+    }
+
+    const keyword = input.subject?.trim();
+    if (!keyword) {
+      return { error: "何を忘れるか分かりません" };
+    }
+
+    const targets = (await getMemories(userId)).filter(memory =>
+      memory.subject.includes(keyword) || keyword.includes(memory.subject)
+    );
+    if (targets.length === 0) {
+      return { error: `「${keyword}」について覚えていることはありません` };
+    }
+
+    for (const memory of targets) {
+      await deleteMemory(userId, memory.id);
+    }
+    log.info(`🧹 Forgot ${targets.length} memories for user ${userId}: "${keyword}"`);
+
+    return { forgotten: targets.map(formatMemory), memories: await loadMemoryLines(userId) };
+  },
+
+  format(result) {
+    if ("error" in result) return JSON.stringify(result);
+    return JSON.stringify({ forgotten: result.forgotten });
+  },
+
+  present(result) {
+    if ("error" in result) return null;
+    return { memories: result.memories };
+  },
+};
@@ -0,0 +1,117 @@
+/**
+ * Movie Search Tool
+ * Searches the movie database (movies, dramas, anime)
+ */
+
+import { combinedMovieSearch, type CombinedSearchResult } from "../combined-search.js";
+import { MOVIE_KEYWORDS } from "../../constants/keywords.js";
+import type {
+  ArchiveItemInfo,
+  ConversationTurn,
+  DomainType,
+  Movie,
+  MovieSearchInput,
+} from "../../types/index.js";
+import type { ToolDefinition } from "./types.js";
+
+/**
+ * Check if the query needs movie search tools
+ * Considers both explicit keywords and conversation context
+ */
+export function needsMovieSearch(message: string, history?: ConversationTurn[]): boolean {
+  const lowerMessage = message.toLowerCase();
+  
+  // Explicit movie keywords
+  const hasExplicitKeyword = MOVIE_KEYWORDS.some(keyword =>
+    lowerMessage.includes(keyword.toLowerCase())
+  );
+  
+  if (hasExplicitKeyword) return true;
+  
+  // Implicit detection: Check if recent conversation was about movies
+  if (history && history.length > 0) {
+    const recentTurns = history.slice(-3); // Last 3 turns
+    const hasMovieContext = recentTurns.some(turn => turn.domain === 'movie');
+    
+    if (hasMovieContext) {
+      // Implicit follow-up questions that need data
+      const implicitPatterns = [
+        /教えて|紹介|おすすめ|詳しく|もっと|他に|別の|探し|検索|知りたい|見たい|聞きたい/,
+        /それ|その|こ[のれ]|あ[のれ]/, // これ, それ, あれ, この, その, あの
+        /どんな|何|誰|いつ|どこ|なぜ|どう/,
+      ];
+      
+      return implicitPatterns.some(pattern => pattern.test(lowerMessage));
+    }
+  }
+  
+  return false;
+}
+
+/**
+ * Build the archive item for a movie (archive candidate / save target)
+ */
+export function toMovieArchiveItem(movie: Movie): ArchiveItemInfo {
+  return {
+    itemId: movie.id?.toString() || `movie-${Date.now()}`,
+    itemTitle: movie.title_ja,
+    itemDomain: "movie" as DomainType,
+    itemData: {
+      title_en: movie.title_en,
+      description: movie.description,
+      release_year: movie.release_year,
+      rating: movie.rating,
+      director: movie.director,
+      actors: movie.actors,
+    },
+  };
+}
+
+export const searchMoviesTool: ToolDefinition<MovieSearchInput, CombinedSearchResult> = {
+  schema: {
+    name: "search_movies",
+    description: "映画・ドラマ・アニメを検索。知らない作品名、固有名詞、不明な単語があれば積極的に検索する。作品名は元の表記のまま検索する（翻訳不要）",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        query: { type: "string", description: "作品名、キーワード、または不明な固有名詞（英語・日本語・カタカナどれでもOK、元の表記のまま検索。「映画」「movie」等の一般語は除外し、固有名詞のみ）" },
+        genre: { type: "string", description: "ジャンル" },
+        year: { type: "number", description: "公開年" },
+      },
+      required: ["query"],
+    },
+  },
+
+  isRelevant: needsMovieSearch,
+
+  prefetchInput: (userText) => ({ query: userText }),
+
+  execute: (input) => combinedMovieSearch(input.query, input.genre, input.year),
+
+  // Formatted string (database results only)
+  format: (result) => result.merged,
+
+  present(result, input) {
+    if (!result.dbResults || !result.dbResults.movies || result.dbResults.movies.length === 0) {
+      return null;
+    }
+
+    // First movie becomes the archive candidate
+    return {
+      archiveItem: toMovieArchiveItem(result.dbResults.movies[0]),
+      searchResults: {
+        type: "movie",
+        movies: result.dbResults.movies,
+        total: result.dbResults.total,
+      },
+      // Active results for numbered selection
+      activeResults: {
+        type: "movie",
+        items: result.dbResults.movies,
+        selectedIndex: null,
+        query: input.query,
+        timestamp: Date.now(),
+      },
+    };
+  },
+};
@@ -0,0 +1,79 @@
+/**
+ * Friend Recommendation Tool
+ * Suggests items saved by users whose archives overlap with this user's
+ * e.g. "私と趣味が似てる人は何を見てる？"
+ */
+
+import { getFriendRecommendations } from "../../db/user-archive.js";
+import { FRIEND_KEYWORDS } from "../../constants/keywords.js";
+import type { DomainType, FriendRecommendation } from "../../types/index.js";
+import type { ToolDefinition } from "./types.js";
+
+interface RecommendFromFriendsInput {
+  domain?: DomainType;
+  limit?: number;
+}
+
+type RecommendFromFriendsResult =
+  | { error: string }
+  | { recommendations: FriendRecommendation[]; domain?: DomainType };
+
+/**
+ * Check if the query asks what similar users / friends like
+ */
+export function needsFriendRecommendations(message: string): boolean {
+  const lowerMessage = message.toLowerCase();
+  return FRIEND_KEYWORDS.some(keyword => lowerMessage.includes(keyword.toLowerCase()));
+}
+
+export const recommendFromFriendsTool: ToolDefinition<RecommendFromFriendsInput, RecommendFromFriendsResult> = {
+  schema: {
+    name: "recommend_from_friends",
+    description: "保存リストが似ている他のユーザーが保存していて、このユーザーはまだ保存していない映画・お店を取得する。「私みたいな人は何を見てる？」「友達のおすすめは？」など",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        domain: {
+          type: "string",
+          enum: ["movie", "gourmet"],
+          description: "ジャンル（movie: 映画・ドラマ・アニメ, gourmet: お店）。指定しなければ全部",
+        },
+        limit: { type: "number", description: "最大件数（デフォルト5）" },
+      },
+    },
+  },
+
+  isRelevant: needsFriendRecommendations,
+
+  async execute(input, ctx) {
+    if (!ctx.userId || ctx.userId === "guest") {
+      return { error: "ログインしていないためおすすめを探せません" };
+    }
+
+    const recommendations = await getFriendRecommendations(ctx.userId, input.domain, input.limit || 5);
+    return { recommendations, domain: input.domain };
+  },
+
+  format(result) {
+    if ("error" in result) return JSON.stringify(result);
+    if (result.recommendations.length === 0) return JSON.stringify({ found: 0 });
+
+    return JSON.stringify(result.recommendations.map((rec, i) => ({
+      no: i + 1,
+      domain: rec.domain,
+      title: rec.itemTitle,
+      saved_by: rec.friends.slice(0, 3).map(friend => friend.name),
+      saved_count: rec.friends.length,
+    })));
+  },
+
+  present(result) {
+    if ("error" in result || result.recommendations.length === 0) return null;
+    return {
+      friendRecommendations: {
+        recommendations: result.recommendations,
+        domain: result.domain,
+      },
+    };
+  },
+};
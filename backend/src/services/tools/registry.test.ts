@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createToolContext,
+  executeTool,
+  getToolSchemas,
+  needsTools,
+  registerTool,
+  startPrefetch,
+} from "./registry.js";
+import type { ToolDefinition, ToolPresentation } from "./types.js";
+
+interface EchoInput {
+  query: string;
+}
+
+interface EchoResult {
+  hits: string[];
+}
+
+function defineTool(name: string, keyword: string): ToolDefinition<EchoInput, EchoResult> {
+  return {
+    schema: {
+      name,
+      description: `${name} tool`,
+      input_schema: { type: "object", properties: { query: { type: "string" } }, required: ["query"] },
+    },
+    isRelevant: message => message.includes(keyword),
+    prefetchInput: userText => ({ query: userText }),
+    execute: vi.fn(async (input: EchoInput) => ({ hits: [`${name}:${input.query}`] })),
+    format: result => result.hits.join(","),
+    present: (result, input) => ({ memories: [...result.hits, input.query] }),
+  };
+}
+
+const movies = defineTool("movies", "映画");
+const food = defineTool("food", "ラーメン");
+registerTool(movies);
+registerTool(food);
+
+function context(userText: string, presentations: ToolPresentation[] = []) {
+  return createToolContext({
+    userText,
+    history: [],
+    isCancelled: () => false,
+    onPresentation: presentation => presentations.push(presentation),
+  });
+}
+
+describe("tool registry", () => {
+  it("lists the schemas of registered tools", () => {
+    expect(getToolSchemas().map(schema => schema.name)).toEqual(["movies", "food"]);
+  });
+
+  it("enables tools only for relevant messages", () => {
+    expect(needsTools("おすすめの映画は？")).toBe(true);
+    expect(needsTools("ラーメン食べたい")).toBe(true);
+    expect(needsTools("今日は晴れだね")).toBe(false);
+  });
+
+  it("executes, presents and formats a tool call", async () => {
+    const presentations: ToolPresentation[] = [];
+    const timings: number[] = [];
+    const ctx = { ...context("映画", presentations), onSearchTiming: (ms: number) => timings.push(ms) };
+
+    const content = await executeTool("food", { query: "とんこつ" }, ctx);
+
+    expect(content).toBe("food:とんこつ");
+    expect(food.execute).toHaveBeenCalledWith({ query: "とんこつ" }, ctx);
+    expect(presentations).toEqual([{ memories: ["food:とんこつ", "とんこつ"] }]);
+    expect(timings).toHaveLength(1);
+  });
+
+  it("prefetches relevant tools and reuses the result for the same input", async () => {
+    vi.mocked(movies.execute).mockClear();
+    vi.mocked(food.execute).mockClear();
+    const ctx = context("映画 ");
+
+    startPrefetch(ctx);
+    expect([...ctx.prefetched.keys()]).toEqual(["movies"]);
+
+    // Whitespace differences still hit the prefetch
+    expect(await executeTool("movies", { query: "映画" }, ctx)).toBe("movies:映画 ");
+    expect(movies.execute).toHaveBeenCalledTimes(1);
+    expect(food.execute).not.toHaveBeenCalled();
+
+    // A different input runs the tool again
+    expect(await executeTool("movies", { query: "アニメ" }, ctx)).toBe("movies:アニメ");
+    expect(movies.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips cancelled turns and rejects unknown tools", async () => {
+    const cancelled = { ...context("映画"), isCancelled: () => true };
+    expect(await executeTool("movies", { query: "映画" }, cancelled)).toBe("");
+    await expect(executeTool("weather", {}, context("天気"))).rejects.toThrow("Unknown tool: weather");
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tool Registry
+ * Central list of LLM tools; chat() offers these and dispatches tool_use blocks here
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import { createLogger } from "../../utils/logger.js";
+import { startTimer } from "../../utils/timer.js";
+import type { ConversationTurn } from "../../types/index.js";
+import type { RegisteredTool, ToolContext, ToolDefinition } from "./types.js";
+
+const log = createLogger("Tools");
+
+// Registered tools (keyed by schema name)
+const tools = new Map<string, RegisteredTool>();
+
+/**
+ * Register a tool
+ * Re-registering a name replaces the previous definition
+ */
+export function registerTool<TInput, TResult>(tool: ToolDefinition<TInput, TResult>): void {
+  tools.set(tool.schema.name, {
+    schema: tool.schema,
+    isRelevant: tool.isRelevant,
+    prefetchInput: tool.prefetchInput,
+    run: (input, ctx) => runTool(tool, input as TInput, ctx),
+  });
+  log.debug(`Registered tool: ${tool.schema.name}`);
+}
+
+/**
+ * Get a tool by name
+ */
+export function getTool(name: string): RegisteredTool | undefined {
+  return tools.get(name);
+}
+
+/**
+ * List all registered tools
+ */
+export function listTools(): RegisteredTool[] {
+  return [...tools.values()];
+}
+
+/**
+ * Schemas of all registered tools (for the LLM request)
+ */
+export function getToolSchemas(): Anthropic.Tool[] {
+  return listTools().map(tool => tool.schema);
+}
+
+/**
+ * Check if any tool is relevant for the message
+ * Considers conversation history for implicit follow-ups
+ */
+export function needsTools(message: string, history?: ConversationTurn[]): boolean {
+  return listTools().some(tool => tool.isRelevant?.(message, history || []) ?? false);
+}
+
+/**
+ * Create a tool context for one conversation turn
+ */
+export function createToolContext(init: Omit<ToolContext, "prefetched">): ToolContext {
+  return { ...init, prefetched: new Map() };
+}
+
+/**
+ * Run a tool, apply its presentation and format the result for the LLM
+ */
+async function runTool<TInput, TResult>(
+  tool: ToolDefinition<TInput, TResult>,
+  input: TInput,
+  ctx: ToolContext
+): Promise<string> {
+  const timer = startTimer(`Tool ${tool.schema.name}`, { input });
+  const result = await tool.execute(input, ctx);
+  const timing = timer.stop();
+  ctx.onSearchTiming?.(timing.durationMs);
+
+  const presentation = tool.present?.(result, input);
+  if (presentation) {
+    ctx.onPresentation?.(presentation);
+  }
+  return tool.format(result);
+}
+
+/**
+ * Start speculative searches for relevant tools that support prefetch
+ * Results are reused by executeTool() when the LLM asks for the same input
+ */
+export function startPrefetch(ctx: ToolContext): void {
+  for (const tool of listTools()) {
+    if (!tool.prefetchInput || !tool.isRelevant?.(ctx.userText, ctx.history)) continue;
+
+    const input = tool.prefetchInput(ctx.userText);
+    log.debug(`Prefetching ${tool.schema.name}: "${ctx.userText}"`);
+    ctx.prefetched.set(tool.schema.name, tool.run(input, ctx).catch(() => null));
+  }
+}
+
+/**
+ * Normalize tool input for comparison (ignores empty values, trims strings)
+ */
+function normalizeInput(input: unknown): string {
+  const entries = Object.entries((input as Record<string, unknown>) || {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([key, value]) => [key, typeof value === "string" ? value.trim() : value] as const)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(entries);
+}
+
+/**
+ * Execute a tool_use request and return tool_result content for the LLM
+ */
+export async function executeTool(name: string, input: unknown, ctx: ToolContext): Promise<string> {
+  // Skip if response was cancelled (barge-in)
+  if (ctx.isCancelled()) {
+    return "";
+  }
+
+  const tool = tools.get(name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+
+  // Reuse the prefetch when the LLM asked for exactly the prefetched input
+  const prefetch = ctx.prefetched.get(name);
+  if (prefetch && tool.prefetchInput &&
+      normalizeInput(input) === normalizeInput(tool.prefetchInput(ctx.userText))) {
+    const prefetched = await prefetch;
+    if (prefetched !== null) {
+      log.debug(`Using prefetched result for ${name}`);
+      return prefetched;
+    }
+  }
+
+  return tool.run(input, ctx);
+}
@@ -0,0 +1,92 @@
+/**
+ * LLM Tool Types
+ * Contract for tools registered in the tool registry (services/tools/registry.ts)
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import type {
+  ConversationTurn,
+  ActiveResultSet,
+  ArchiveItemInfo,
+  DomainType,
+  FriendMatch,
+  FriendRecommendationData,
+  SearchResults,
+} from "../../types/index.js";
+import type { UserContext } from "../../db/user-profile.js";
+
+/**
+ * Change made to the user's archive by a tool
+ * Sent to the client as archive_saved / archive_removed
+ */
+export interface ArchiveChange {
+  action: "saved" | "removed";
+  domain: DomainType;
+  itemId: string;
+  itemTitle?: string;
+  itemData?: Record<string, unknown>;
+  friendsMatched?: FriendMatch[];
+}
+
+/**
+ * What a tool result means for the frontend
+ * Applied by the handler: search cards, numbered selection, archive candidate, archive sync
+ */
+export interface ToolPresentation {
+  searchResults?: SearchResults;
+  activeResults?: ActiveResultSet;
+  archiveItem?: ArchiveItemInfo;
+  archiveChange?: ArchiveChange;
+  friendRecommendations?: FriendRecommendationData;  // Rendered as a friend_match component
+  memories?: string[];  // Updated UserContext.memories after the user edited them
+}
+
+/**
+ * Per-turn context handed to tool handlers
+ * Create with createToolContext() from the registry
+ */
+export interface ToolContext {
+  userText: string;                        // Original user text (prefetch key)
+  history: ConversationTurn[];
+  userId?: string;
+  userContext?: UserContext;
+  activeResults?: ActiveResultSet | null;  // Results currently shown to the user
+  isCancelled: () => boolean;              // True once the turn was superseded (barge-in)
+  onSearchTiming?: (durationMs: number) => void;
+  onPresentation?: (presentation: ToolPresentation) => void;
+  prefetched: Map<string, Promise<string | null>>;  // Formatted prefetch results by tool name
+}
+
+/**
+ * Tool definition
+ *
+ * @typeParam TInput - Tool input (matches schema.input_schema)
+ * @typeParam TResult - Raw handler result, before formatting for the LLM
+ */
+export interface ToolDefinition<TInput = unknown, TResult = unknown> {
+  /** Schema sent to the LLM (schema.name is the registry key) */
+  schema: Anthropic.Tool;
+  /** Whether this message likely needs the tool (enables tools for the turn) */
+  isRelevant?: (message: string, history: ConversationTurn[]) => boolean;
+  /** Input to run speculatively with the raw user text, in parallel with the LLM request */
+  prefetchInput?: (userText: string) => TInput;
+  /** Run the tool */
+  execute: (input: TInput, ctx: ToolContext) => Promise<TResult>;
+  /** Format the result as tool_result content for the LLM */
+  format: (result: TResult) => string;
+  /** Map the result to frontend state (omit or return null for none) */
+  present?: (result: TResult, input: TInput) => ToolPresentation | null;
+}
+
+/**
+ * Tool as stored in the registry
+ * run() binds the definition's input and result types, so tools of any
+ * shape fit in one list (tool_use input is the LLM's JSON, taken as TInput)
+ */
+export interface RegisteredTool {
+  schema: Anthropic.Tool;
+  isRelevant?: (message: string, history: ConversationTurn[]) => boolean;
+  prefetchInput?: (userText: string) => unknown;
+  /** Execute, apply the presentation and format the result for the LLM */
+  run: (input: unknown, ctx: ToolContext) => Promise<string>;
+}
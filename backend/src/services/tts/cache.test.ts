@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import { readdir, rm } from "fs/promises";
+
+const cacheDir = await vi.hoisted(async () => {
+  const { mkdtemp } = await import("fs/promises");
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  const dir = await mkdtemp(join(tmpdir(), "tts-cache-test-"));
+  process.env.TTS_CACHE_DIR = dir;
+  process.env.TTS_CACHE_MEMORY_MB = "0";
+  process.env.TTS_CACHE_DISK_MB = "0";
+  return dir;
+});
+
+const MB = 1024 * 1024;
+
+const { config } = await import("../../config/index.js");
+const { getCachedAudio, getTTSCacheStats, setCachedAudio, ttsCacheKey } = await import("./cache.js");
+
+vi.useFakeTimers({ toFake: ["Date"] });
+
+afterAll(async () => {
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+// config is read-only; the cache reads its limits on every call
+function setLimits(target: typeof config, memoryBytes: number, diskBytes: number): void {
+  Object.assign(target.ttsCache, { memoryMaxMb: memoryBytes / MB, diskMaxMb: diskBytes / MB });
+}
+
+function key(text: string, format = "PCM16/24000"): string {
+  return ttsCacheKey({ text, voice: "rabbit", prompt: "", model: "test", format });
+}
+
+function audio(byte: number, bytes = 400): Buffer {
+  return Buffer.alloc(bytes, byte);
+}
+
+async function cachedFiles(): Promise<string[]> {
+  const files = (await readdir(cacheDir, { recursive: true })).map(String);
+  return files.filter(file => file.includes(".")).map(file => file.split(/[\\/]/).pop()!).sort();
+}
+
+describe("ttsCacheKey", () => {
+  it("ends in the extension of the key's format", () => {
+    expect(key("こんにちは", "PCM16/24000")).toMatch(/^[0-9a-f]{64}\.pcm$/);
+    expect(key("こんにちは", "MP3/24000")).toMatch(/\.mp3$/);
+    expect(key("こんにちは", "WAV/24000")).toMatch(/\.wav$/);
+    expect(key("こんにちは", "MP3/24000")).not.toBe(key("こんにちは", "PCM16/24000"));
+  });
+});
+
+describe("memory tier", () => {
+  it("evicts the least recently used entries over the limit", async () => {
+    setLimits(config, 1000, 0);
+    const [a, b, c] = [key("a"), key("b"), key("c")];
+
+    setCachedAudio(a, audio(1));
+    setCachedAudio(b, audio(2));
+    expect(await getCachedAudio(a)).toEqual(audio(1));  // a is now the most recently used
+    setCachedAudio(c, audio(3));
+
+    const tally = { hits: 0, misses: 0 };
+    expect(await getCachedAudio(b, tally)).toBeNull();
+    expect(await getCachedAudio(a, tally)).toEqual(audio(1));
+    expect(await getCachedAudio(c, tally)).toEqual(audio(3));
+    expect(tally).toEqual({ hits: 2, misses: 1 });
+    expect(getTTSCacheStats()).toMatchObject({ memoryEntries: 2, memoryBytes: 800, evictions: 1 });
+  });
+
+  it("skips audio larger than the whole tier", async () => {
+    const big = key("big");
+    setCachedAudio(big, audio(4, 2000));
+    expect(await getCachedAudio(big)).toBeNull();
+  });
+});
+
+describe("disk tier", () => {
+  it("stores one file per key and removes the least recently used files over the limit", async () => {
+    setLimits(config, 0, 1000);
+    const [d, e, f] = [key("d"), key("e", "MP3/24000"), key("f")];
+
+    vi.setSystemTime(1_000);
+    setCachedAudio(d, audio(5));
+    await vi.waitFor(async () => expect(await cachedFiles()).toContain(d));
+    vi.setSystemTime(2_000);
+    setCachedAudio(e, audio(6));
+    await vi.waitFor(async () => expect(await cachedFiles()).toContain(e));
+
+    vi.setSystemTime(3_000);
+    expect(await getCachedAudio(d)).toEqual(audio(5));  // d is now more recent than e
+
+    vi.setSystemTime(4_000);
+    setCachedAudio(f, audio(7));
+    await vi.waitFor(async () => expect(await cachedFiles()).toEqual([d, f].sort()));
+
+    expect(await getCachedAudio(e)).toBeNull();
+    expect(await getCachedAudio(f)).toEqual(audio(7));
+    expect(getTTSCacheStats()).toMatchObject({ diskEntries: 2, diskBytes: 800 });
+  });
+
+  it("indexes existing files after a restart", async () => {
+    vi.resetModules();
+    const fresh = await import("../../config/index.js");
+    setLimits(fresh.config, 0, 1000);
+    const restarted = await import("./cache.js");
+
+    expect(await restarted.getCachedAudio(key("f"))).toEqual(audio(7));
+    expect(restarted.getTTSCacheStats()).toMatchObject({ diskEntries: 2, diskHits: 1 });
+  });
+});
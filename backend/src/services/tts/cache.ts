@@ -0,0 +1,304 @@
+/**
+ * TTS Audio Cache
+ *
+ * Content-addressed cache for synthesized speech: the key is a hash of
+ * everything that changes the audio (text, voice, style prompt, model, format)
+ * plus a file extension for the format, so repeated sentences
+ * ("今確認するね。", error messages) cost no TTS call.
+ *
+ * Two tiers:
+ * - memory: LRU bounded by TTS_CACHE_MEMORY_MB
+ * - disk: one file per key under TTS_CACHE_DIR, kept across restarts and
+ *   bounded by TTS_CACHE_DISK_MB (least recently used files are removed)
+ *
+ * Cache errors never fail synthesis; they are logged and treated as misses.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rename, stat, unlink, utimes, writeFile } from "fs/promises";
+import { join } from "path";
+import { config } from "../../config/index.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("TTSCache");
+
+const MB = 1024 * 1024;
+
+/**
+ * Everything that affects the synthesized audio
+ */
+export interface TTSCacheKeyParts {
+  text: string;
+  voice: string;   // Engine voice name
+  prompt: string;  // Style prompt
+  model: string;
+  format: string;  // Encoding and sample rate
+}
+
+/**
+ * Per-turn hit/miss counters (reported in workflow_timing)
+ */
+export interface TTSCacheTally {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Cache counters since startup (reported by GET /health)
+ */
+export interface TTSCacheStats {
+  memoryEntries: number;
+  memoryBytes: number;
+  diskEntries: number;
+  diskBytes: number;
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+interface DiskEntry {
+  bytes: number;
+  lastUsed: number;
+}
+
+const memory = new Map<string, Buffer>();  // Insertion order = least recently used first
+let memoryBytes = 0;
+
+const disk = new Map<string, DiskEntry>();
+let diskBytes = 0;
+let diskIndex: Promise<void> | null = null;
+const writing = new Set<string>();  // Keys being written
+
+const stats = { memoryHits: 0, diskHits: 0, misses: 0, evictions: 0 };
+
+function memoryLimit(): number {
+  return config.ttsCache.memoryMaxMb * MB;
+}
+
+function diskLimit(): number {
+  return config.ttsCache.diskMaxMb * MB;
+}
+
+// Cache file names: "<sha256>.<extension>"
+const KEY_PATTERN = /^[0-9a-f]{64}\.[a-z0-9]+$/;
+
+/**
+ * File extension for a key format ("MP3/24000" → mp3, "PCM16/24000" → pcm)
+ */
+function formatExtension(format: string): string {
+  const encoding = format.split("/")[0].toLowerCase().replace(/[^a-z0-9]/g, "");
+  if (encoding.startsWith("pcm")) return "pcm";
+  return encoding || "bin";
+}
+
+/**
+ * Cache key: SHA-256 of the key parts, with the format's file extension
+ */
+export function ttsCacheKey(parts: TTSCacheKeyParts): string {
+  const { text, voice, prompt, model, format } = parts;
+  const hash = createHash("sha256")
+    .update([model, voice, format, prompt, text].join("\u0000"))
+    .digest("hex");
+  return `${hash}.${formatExtension(format)}`;
+}
+
+// Files are sharded by the first two hex chars of the key
+function diskPath(key: string): string {
+  return join(config.ttsCache.dir, key.slice(0, 2), key);
+}
+
+// ============================================================================
+// Memory tier
+// ============================================================================
+
+function rememberInMemory(key: string, audio: Buffer): void {
+  const limit = memoryLimit();
+  if (audio.length > limit) return;
+
+  const existing = memory.get(key);
+  if (existing) {
+    memory.delete(key);
+    memoryBytes -= existing.length;
+  }
+  memory.set(key, audio);
+  memoryBytes += audio.length;
+
+  for (const [oldestKey, oldest] of memory) {
+    if (memoryBytes <= limit) break;
+    memory.delete(oldestKey);
+    memoryBytes -= oldest.length;
+    stats.evictions++;
+  }
+}
+
+function getFromMemory(key: string): Buffer | null {
+  const audio = memory.get(key);
+  if (!audio) return null;
+  // Move to the most recently used end
+  memory.delete(key);
+  memory.set(key, audio);
+  return audio;
+}
+
+// ============================================================================
+// Disk tier
+// ============================================================================
+
+/**
+ * Index the files already on disk (once, on first use)
+ */
+function loadDiskIndex(): Promise<void> {
+  diskIndex ??= (async () => {
+    let shards: string[];
+    try {
+      shards = await readdir(config.ttsCache.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        log.error("Failed to read TTS cache directory:", error);
+      }
+      return;
+    }
+
+    for (const shard of shards) {
+      let files: string[];
+      try {
+        files = await readdir(join(config.ttsCache.dir, shard));
+      } catch {
+        continue;  // Not a shard directory
+      }
+      for (const file of files) {
+        if (!KEY_PATTERN.test(file)) continue;  // Temp files from interrupted writes
+        try {
+          const info = await stat(join(config.ttsCache.dir, shard, file));
+          disk.set(file, { bytes: info.size, lastUsed: info.mtimeMs });
+          diskBytes += info.size;
+        } catch {
+          // Removed while indexing
+        }
+      }
+    }
+    log.info(`TTS disk cache: ${disk.size} files, ${Math.round(diskBytes / MB)}MB`);
+  })();
+  return diskIndex;
+}
+
+async function getFromDisk(key: string): Promise<Buffer | null> {
+  await loadDiskIndex();
+  const entry = disk.get(key);
+  if (!entry) return null;
+
+  try {
+    const audio = await readFile(diskPath(key));
+    entry.lastUsed = Date.now();
+    // mtime records the last use, so LRU order survives restarts
+    const now = new Date();
+    utimes(diskPath(key), now, now).catch(() => {});
+    return audio;
+  } catch {
+    disk.delete(key);
+    diskBytes -= entry.bytes;
+    return null;
+  }
+}
+
+/**
+ * Remove least recently used files until the disk tier is within its limit
+ */
+async function evictFromDisk(): Promise<void> {
+  const limit = diskLimit();
+  if (diskBytes <= limit) return;
+
+  const oldestFirst = [...disk.entries()].sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+  for (const [key, entry] of oldestFirst) {
+    if (diskBytes <= limit) break;
+    disk.delete(key);
+    diskBytes -= entry.bytes;
+    stats.evictions++;
+    await unlink(diskPath(key)).catch(() => {});
+  }
+}
+
+async function writeToDisk(key: string, audio: Buffer): Promise<void> {
+  await loadDiskIndex();
+  if (disk.has(key) || writing.has(key) || audio.length > diskLimit()) return;
+
+  writing.add(key);
+  try {
+    const path = diskPath(key);
+    await mkdir(join(config.ttsCache.dir, key.slice(0, 2)), { recursive: true });
+    // Write then rename, so a crash never leaves a truncated file under the key
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tmpPath, audio);
+    await rename(tmpPath, path);
+
+    disk.set(key, { bytes: audio.length, lastUsed: Date.now() });
+    diskBytes += audio.length;
+  } finally {
+    writing.delete(key);
+  }
+  await evictFromDisk();
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Cached audio for a key, from memory first, then disk (promoted to memory)
+ */
+export async function getCachedAudio(key: string, tally?: TTSCacheTally): Promise<Buffer | null> {
+  if (memoryLimit() > 0) {
+    const audio = getFromMemory(key);
+    if (audio) {
+      stats.memoryHits++;
+      if (tally) tally.hits++;
+      return audio;
+    }
+  }
+
+  if (diskLimit() > 0) {
+    const audio = await getFromDisk(key);
+    if (audio) {
+      stats.diskHits++;
+      if (tally) tally.hits++;
+      rememberInMemory(key, audio);
+      return audio;
+    }
+  }
+
+  stats.misses++;
+  if (tally) tally.misses++;
+  return null;
+}
+
+/**
+ * Store synthesized audio in both tiers (disk write runs in the background)
+ */
+export function setCachedAudio(key: string, audio: Buffer): void {
+  if (memoryLimit() > 0) {
+    rememberInMemory(key, audio);
+  }
+  if (diskLimit() > 0) {
+    writeToDisk(key, audio).catch(error => {
+      log.error("Failed to write TTS cache file:", error);
+    });
+  }
+}
+
+/**
+ * Cache counters (for health checks)
+ */
+export function getTTSCacheStats(): TTSCacheStats {
+  const hits = stats.memoryHits + stats.diskHits;
+  const lookups = hits + stats.misses;
+  return {
+    memoryEntries: memory.size,
+    memoryBytes,
+    diskEntries: disk.size,
+    diskBytes,
+    ...stats,
+    hitRate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 1000 : 0,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Gemini-TTS Engine
+ *
+ * Migration from Google Cloud Neural2 TTS to Gemini-TTS
+ *
+ * Benefits:
+ * - Natural language prompts for style control
+ * - Better conversational quality
+ * - Advanced emotion and tone control
+ * - Low latency streaming
+ *
+ * Japanese (ja-JP) is GA (Generally Available)
+ */
+
+import { createLogger } from '../../utils/logger.js';
+import { getGoogleTTSClient } from './google-client.js';
+import type { EmotionType, TTSOptions } from '../../types/index.js';
+import type { TTSEngine } from './types.js';
+
+const log = createLogger("GeminiTTS");
+
+const MODEL_NAME = 'gemini-2.5-flash-tts'; // Low latency, cost-efficient
+const SAMPLE_RATE = 24000;
+
+// Emotion to natural language prompt mapping
+// Keep prompts subtle - only slight pitch variation, avoid dramatic emotional changes
+// const EMOTION_PROMPTS: Record<EmotionType, string> = {
+//   neutral: 'Say the following in a calm and natural conversational tone',
+//   happy: 'Say the following naturally with a slightly higher pitch',
+//   excited: 'Say the following naturally with a slightly higher pitch and pace',
+//   thinking: 'Say the following naturally with a slightly slower pace',
+//   sad: 'Say the following naturally with a slightly lower pitch',
+//   surprised: 'Say the following naturally with a slightly higher pitch',
+//   confused: 'Say the following naturally with a slightly slower pace',
+//   listening: 'Say the following in a natural conversational tone',
+//   speaking: 'Say the following in a natural conversational tone',
+// };
+
+const EMOTION_PROMPTS: Record<EmotionType, string> = {
+  neutral: '',
+  happy: '',
+  excited: '',
+  thinking: '',
+  sad: '',
+  surprised: '',
+  confused: '',
+  listening: '',
+  speaking: '',
+};
+
+function emotionPrompt(emotion: EmotionType = 'neutral'): string {
+  return EMOTION_PROMPTS[emotion] ?? EMOTION_PROMPTS.neutral;
+}
+
+export const geminiEngine: TTSEngine = {
+  name: "gemini",
+  format: "mp3",
+  cacheable: true,
+
+  voices: {
+    female: { name: 'Achernar', description: 'Female voice' },
+    male: { name: 'Charon', description: 'Male voice' },
+  },
+
+  describe(text: string, options: TTSOptions) {
+    return {
+      text,
+      voice: this.voices[options.voice ?? 'female'].name,
+      prompt: emotionPrompt(options.emotion),
+      model: MODEL_NAME,
+      format: `MP3/${SAMPLE_RATE}`,
+    };
+  },
+
+  /**
+   * Synthesize speech using Gemini-TTS (MP3)
+   * Uses natural language prompts for emotion control
+   */
+  async synthesize(text: string, options: TTSOptions, signal?: AbortSignal): Promise<Buffer> {
+    const { voice = 'female', emotion = 'neutral' } = options;
+    const prompt = emotionPrompt(emotion);
+
+    // Construct the Gemini-TTS request
+    const request = {
+      input: {
+        text,
+        prompt,
+      },
+      voice: {
+        languageCode: 'ja-JP',
+        name: this.voices[voice].name,
+        modelName: MODEL_NAME,
+      },
+      audioConfig: {
+        audioEncoding: 'MP3' as const,
+        sampleRateHertz: SAMPLE_RATE,
+      },
+    };
+
+    try {
+      const client = getGoogleTTSClient();
+      const startTime = performance.now();
+      const textPreview = text.length > 30 ? text.slice(0, 30) + '...' : text;
+
+      log.debug(`TTS request START: "${textPreview}" (${text.length} chars, emotion: ${emotion})`);
+
+      const [response] = await client.synthesizeSpeech(request);
+      // Aborted (barge-in) while synthesizing: drop the audio
+      signal?.throwIfAborted();
+
+      const durationMs = Math.round(performance.now() - startTime);
+      const audioBytes = response.audioContent ? (response.audioContent as Uint8Array).length : 0;
+      const audioKB = Math.round(audioBytes / 1024);
+
+      // Log with timing details - flag slow requests (>500ms)
+      if (durationMs > 500) {
+        log.warn(`TTS request SLOW: ${durationMs}ms for "${textPreview}" (${text.length} chars → ${audioKB}KB)`);
+      } else {
+        log.debug(`TTS request END: ${durationMs}ms for "${textPreview}" (${text.length} chars → ${audioKB}KB)`);
+      }
+
+      if (!response.audioContent) {
+        throw new Error('No audio content in response');
+      }
+
+      return Buffer.from(response.audioContent as Uint8Array);
+    } catch (error) {
+      signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      log.error('Gemini-TTS error:', message);
+      throw new Error(`Gemini-TTS failed: ${message}`);
+    }
+  },
+
+  streamSampleRate: SAMPLE_RATE,
+
+  /**
+   * Stream speech using Gemini-TTS streaming synthesis (raw PCM)
+   * The first request carries the config, the second the text
+   */
+  async *stream(text: string, options: TTSOptions, signal?: AbortSignal): AsyncIterable<Buffer> {
+    const { voice = 'female', emotion = 'neutral' } = options;
+    const call = getGoogleTTSClient().streamingSynthesize();
+    const textPreview = text.length > 30 ? text.slice(0, 30) + '...' : text;
+    const startTime = performance.now();
+    let finished = false;
+
+    // Aborted (barge-in) while waiting for audio: cancel the RPC right away
+    const cancel = () => call.cancel();
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    call.write({
+      streamingConfig: {
+        voice: {
+          languageCode: 'ja-JP',
+          name: this.voices[voice].name,
+          modelName: MODEL_NAME,
+        },
+        streamingAudioConfig: {
+          audioEncoding: 'PCM',
+          sampleRateHertz: SAMPLE_RATE,
+        },
+      },
+    });
+    call.write({ input: { text, prompt: emotionPrompt(emotion) } });
+    call.end();
+
+    try {
+      let first = true;
+      for await (const response of call) {
+        const audio = response.audioContent as Uint8Array | undefined;
+        if (!audio?.length) continue;
+        if (first) {
+          log.debug(`TTS stream first audio: ${Math.round(performance.now() - startTime)}ms for "${textPreview}"`);
+          first = false;
+        }
+        yield Buffer.from(audio);
+      }
+      finished = true;
+    } catch (error) {
+      signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      log.error('Gemini-TTS stream error:', message);
+      throw new Error(`Gemini-TTS stream failed: ${message}`);
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+      // Consumer stopped early (barge-in): cancel the RPC
+      if (!finished) call.cancel();
+    }
+  },
+};
@@ -0,0 +1,42 @@
+/**
+ * Google Cloud Text-to-Speech client shared by the Gemini and Google engines
+ *
+ * Setup:
+ * 1. Service account JSON file at GOOGLE_APPLICATION_CREDENTIALS (recommended)
+ *    or GOOGLE_CLOUD_API_KEY
+ * 2. Enable Cloud Text-to-Speech API
+ */
+
+import { TextToSpeechClient } from '@google-cloud/text-to-speech';
+import { config } from '../../config/index.js';
+import { createLogger } from '../../utils/logger.js';
+
+const log = createLogger("GoogleTTSClient");
+
+let ttsClient: TextToSpeechClient | null = null;
+
+export function getGoogleTTSClient(): TextToSpeechClient {
+  if (!ttsClient) {
+    const keyFilePath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+
+    if (keyFilePath) {
+      ttsClient = new TextToSpeechClient({
+        keyFilename: keyFilePath,
+      });
+      log.info(`Using Google service account from: ${keyFilePath}`);
+    } else {
+      const apiKey = config.google?.cloudApiKey || config.google?.apiKey;
+      if (apiKey) {
+        ttsClient = new TextToSpeechClient({
+          apiKey: apiKey,
+        });
+        log.info('Using Google API key authentication');
+      } else {
+        // Last resort: default credentials (works on GCP)
+        ttsClient = new TextToSpeechClient();
+        log.info('Using default Google credentials');
+      }
+    }
+  }
+  return ttsClient;
+}
@@ -0,0 +1,118 @@
+/**
+ * Google Cloud Text-to-Speech Engine (Neural2)
+ *
+ * Migration from Azure TTS to Google TTS
+ *
+ * Benefits:
+ * - Higher rate limits (default: 1000 requests/minute)
+ * - Better Japanese voice quality
+ * - More stable API
+ * - No 429 errors on free tier
+ *
+ * Emotion is expressed with speaking rate and pitch
+ */
+
+import { createLogger } from '../../utils/logger.js';
+import { getGoogleTTSClient } from './google-client.js';
+import type { EmotionType, TTSOptions } from '../../types/index.js';
+import type { TTSEngine } from './types.js';
+
+const log = createLogger("GoogleTTS");
+
+const SAMPLE_RATE = 24000;
+
+// SSML gender for each voice role
+const SSML_GENDERS = {
+  female: 'FEMALE' as const,
+  male: 'MALE' as const,
+};
+
+// Emotion to speaking rate/pitch mapping
+// Reduced pitch variations to maintain voice consistency across emotions
+const EMOTION_PARAMS: Record<EmotionType, { speakingRate: number; pitch: number }> = {
+  neutral: { speakingRate: 1.0, pitch: 0.0 },
+  happy: { speakingRate: 1.02, pitch: 0.5 },
+  excited: { speakingRate: 1.05, pitch: 1.0 },
+  thinking: { speakingRate: 0.98, pitch: -0.5 },
+  sad: { speakingRate: 0.95, pitch: -1.0 },
+  surprised: { speakingRate: 1.03, pitch: 1.0 },
+  confused: { speakingRate: 0.98, pitch: 0.0 },
+  listening: { speakingRate: 1.0, pitch: 0.0 },
+  speaking: { speakingRate: 1.0, pitch: 0.0 },
+};
+
+/**
+ * Speaking rate (speed overrides the emotion) and pitch for a request
+ */
+function voiceParams(options: TTSOptions): { speakingRate: number; pitch: number } {
+  const emotionParams = EMOTION_PARAMS[options.emotion ?? 'neutral'] ?? EMOTION_PARAMS.neutral;
+  return {
+    speakingRate: options.speed ?? emotionParams.speakingRate,
+    pitch: emotionParams.pitch,
+  };
+}
+
+export const googleEngine: TTSEngine = {
+  name: "google",
+  format: "mp3",
+  cacheable: true,
+
+  voices: {
+    female: { name: 'ja-JP-Neural2-B', description: 'Natural, female voice' },
+    male: { name: 'ja-JP-Neural2-C', description: 'Natural, male voice' },
+  },
+
+  describe(text: string, options: TTSOptions) {
+    const { speakingRate, pitch } = voiceParams(options);
+    return {
+      text,
+      voice: this.voices[options.voice ?? 'female'].name,
+      prompt: `rate=${speakingRate},pitch=${pitch}`,
+      model: 'neural2',
+      format: `MP3/${SAMPLE_RATE}`,
+    };
+  },
+
+  /**
+   * Synthesize speech from text using Google Cloud TTS (MP3)
+   */
+  async synthesize(text: string, options: TTSOptions, signal?: AbortSignal): Promise<Buffer> {
+    const voice = options.voice ?? 'female';
+    const { speakingRate, pitch } = voiceParams(options);
+
+    // Construct the request
+    const request = {
+      input: { text },
+      voice: {
+        languageCode: 'ja-JP',
+        name: this.voices[voice].name,
+        ssmlGender: SSML_GENDERS[voice],
+      },
+      audioConfig: {
+        audioEncoding: 'MP3' as const,
+        speakingRate,
+        pitch,
+        // Optimize for quality
+        sampleRateHertz: SAMPLE_RATE,
+      },
+    };
+
+    try {
+      const client = getGoogleTTSClient();
+      const [response] = await client.synthesizeSpeech(request);
+      // Aborted (barge-in) while synthesizing: drop the audio
+      signal?.throwIfAborted();
+
+      if (!response.audioContent) {
+        throw new Error('No audio content in response');
+      }
+
+      return Buffer.from(response.audioContent as Uint8Array);
+    } catch (error) {
+      signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      log.error('Google TTS error:', message);
+      throw new Error(`Google TTS failed: ${message}`);
+    }
+  },
+};
@@ -0,0 +1,213 @@
+/**
+ * TTS Engines
+ * Engine registry and unified synthesis: the configured engine (TTS_ENGINE)
+ * is tried first, then TTS_FALLBACK_ENGINES in order when it errors.
+ * Cacheable engines go through the TTS cache (tts/cache.ts).
+ * Engines that implement stream() can also deliver PCM frames as they are
+ * produced (streamSpeech), for clients that play streamed audio.
+ */
+
+import { config } from "../../config/index.js";
+import { createLogger } from "../../utils/logger.js";
+import { getCachedAudio, setCachedAudio, ttsCacheKey, type TTSCacheTally } from "./cache.js";
+import { geminiEngine } from "./gemini-engine.js";
+import { googleEngine } from "./google-engine.js";
+import { localEngine } from "./local-engine.js";
+import type { TTSOptions } from "../../types/index.js";
+import type { AudioFormat, SpeechFrame, SynthesizedSpeech, TTSEngine, TTSVoice, VoiceRole } from "./types.js";
+
+export type { AudioFormat, SpeechFrame, SynthesizedSpeech, TTSEngine, TTSVoice, VoiceRole } from "./types.js";
+export type { TTSCacheTally } from "./cache.js";
+
+const log = createLogger("TTS");
+
+// Engine registry (keyed by engine name)
+const engines = new Map<string, TTSEngine>();
+
+/**
+ * Register a TTS engine
+ * Re-registering a name replaces the previous implementation
+ */
+export function registerEngine(engine: TTSEngine): void {
+  engines.set(engine.name, engine);
+  log.debug(`Registered TTS engine: ${engine.name}`);
+}
+
+/**
+ * Get an engine by name (defaults to the configured TTS_ENGINE)
+ */
+export function getEngine(name: string = config.tts.engine): TTSEngine {
+  const engine = engines.get(name);
+  if (!engine) {
+    throw new Error(`Unknown TTS engine "${name}" (registered: ${listEngines().join(", ")})`);
+  }
+  return engine;
+}
+
+/**
+ * List registered engine names
+ */
+export function listEngines(): string[] {
+  return [...engines.keys()];
+}
+
+// Built-in engines
+registerEngine(geminiEngine);
+registerEngine(googleEngine);
+registerEngine(localEngine);
+
+/**
+ * Engines to try, in order: TTS_ENGINE, then TTS_FALLBACK_ENGINES (duplicates removed)
+ */
+export function getEngineChain(): string[] {
+  return [config.tts.engine, ...config.tts.fallbackEngines]
+    .filter((name, i, all) => all.indexOf(name) === i);
+}
+
+/**
+ * Voice catalog of every registered engine (for GET /api/tts/voices)
+ */
+export function getVoiceCatalog(): Array<{ engine: string; format: AudioFormat; voices: Record<VoiceRole, TTSVoice> }> {
+  return [...engines.values()].map(engine => ({
+    engine: engine.name,
+    format: engine.format,
+    voices: engine.voices,
+  }));
+}
+
+/**
+ * Synthesize with one engine, through the cache when the engine allows it
+ */
+async function synthesizeWith(
+  engine: TTSEngine,
+  text: string,
+  options: TTSOptions,
+  tally?: TTSCacheTally,
+  signal?: AbortSignal
+): Promise<SynthesizedSpeech> {
+  if (!engine.cacheable) {
+    const audio = await engine.synthesize(text, options, signal);
+    signal?.throwIfAborted();
+    return { audio, format: engine.format, engine: engine.name, cached: false };
+  }
+
+  const key = ttsCacheKey(engine.describe(text, options));
+  const cached = await getCachedAudio(key, tally);
+  if (cached) {
+    log.debug(`TTS cache hit (${engine.name}): "${text.length > 30 ? text.slice(0, 30) + "..." : text}"`);
+    return { audio: cached, format: engine.format, engine: engine.name, cached: true };
+  }
+
+  signal?.throwIfAborted();
+  const audio = await engine.synthesize(text, options, signal);
+  // Engines that ignore the signal: still drop audio that arrives after the abort
+  signal?.throwIfAborted();
+  setCachedAudio(key, audio);
+  return { audio, format: engine.format, engine: engine.name, cached: false };
+}
+
+/**
+ * Unified speech synthesis
+ * Tries the engine chain in order; tally counts this caller's cache hits/misses.
+ * The signal reaches the engine: audio finished after an abort is dropped
+ * and no further engine is tried (no fallback)
+ */
+export async function synthesizeSpeech(
+  text: string,
+  options: TTSOptions = {},
+  tally?: TTSCacheTally,
+  signal?: AbortSignal
+): Promise<SynthesizedSpeech> {
+  let lastError: unknown = new Error("No TTS engine available");
+
+  for (const name of getEngineChain()) {
+    signal?.throwIfAborted();
+    try {
+      return await synthesizeWith(getEngine(name), text, options, tally, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      lastError = error;
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`TTS engine ${name} failed: ${message}`);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Whether the engine chain has an engine that can stream
+ */
+export function canStreamSpeech(): boolean {
+  return getEngineChain().some(name => engines.get(name)?.stream);
+}
+
+/**
+ * Stream PCM from one engine, through the cache when the engine allows it
+ * (a hit is replayed as a single frame; a miss is stored once the stream completes)
+ */
+async function* streamWith(
+  engine: TTSEngine,
+  text: string,
+  options: TTSOptions,
+  tally?: TTSCacheTally,
+  signal?: AbortSignal
+): AsyncGenerator<SpeechFrame> {
+  const sampleRate = engine.streamSampleRate!;
+  const key = engine.cacheable
+    ? ttsCacheKey({ ...engine.describe(text, options), format: `PCM16/${sampleRate}` })
+    : null;
+
+  if (key) {
+    const cached = await getCachedAudio(key, tally);
+    if (cached) {
+      log.debug(`TTS cache hit (${engine.name}, stream): "${text.length > 30 ? text.slice(0, 30) + "..." : text}"`);
+      yield { pcm: cached, sampleRate, engine: engine.name, cached: true };
+      return;
+    }
+  }
+
+  signal?.throwIfAborted();
+  const frames: Buffer[] = [];
+  for await (const pcm of engine.stream!(text, options, signal)) {
+    if (key) frames.push(pcm);
+    yield { pcm, sampleRate, engine: engine.name, cached: false };
+  }
+  if (key) setCachedAudio(key, Buffer.concat(frames));
+}
+
+/**
+ * Streaming speech synthesis
+ * Tries the streaming engines of the chain in order; once an engine has
+ * produced audio, its errors are not retried elsewhere (the audio is already out).
+ * Aborting the signal cancels the engine request (no fallback)
+ */
+export async function* streamSpeech(
+  text: string,
+  options: TTSOptions = {},
+  tally?: TTSCacheTally,
+  signal?: AbortSignal
+): AsyncGenerator<SpeechFrame> {
+  let lastError: unknown = new Error("No streaming TTS engine available");
+
+  for (const name of getEngineChain()) {
+    const engine = getEngine(name);
+    if (!engine.stream) continue;
+
+    let started = false;
+    try {
+      for await (const frame of streamWith(engine, text, options, tally, signal)) {
+        started = true;
+        yield frame;
+      }
+      return;
+    } catch (error) {
+      if (started || signal?.aborted) throw error;
+      lastError = error;
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`TTS engine ${name} failed to stream: ${message}`);
+    }
+  }
+
+  throw lastError;
+}
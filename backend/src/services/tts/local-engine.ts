@@ -0,0 +1,144 @@
+/**
+ * Local TTS Engine (offline stub)
+ *
+ * Renders a WAV of short sine-tone "syllables", one per character, with
+ * silence for punctuation. No credentials or network: used to run the
+ * backend offline, and as the last fallback when Google fails.
+ * The output is deterministic, so the same text always gives the same bytes.
+ * stream() yields the same samples as raw PCM in 100ms frames.
+ */
+
+import type { EmotionType, TTSOptions } from "../../types/index.js";
+import type { TTSEngine } from "./types.js";
+
+const SAMPLE_RATE = 16000;
+const SYLLABLE_MS = 110;   // Roughly the pace of Japanese speech (~9 morae/s)
+const PAUSE_MS = 180;      // Punctuation
+const MAX_DURATION_MS = 8000;
+const AMPLITUDE = 0.2;
+const STREAM_FRAME_MS = 100;
+
+// Base pitch per voice role (Hz)
+const BASE_PITCH = {
+  female: 440,
+  male: 220,
+};
+
+// Pitch shift per emotion (semitones)
+const EMOTION_SEMITONES: Record<EmotionType, number> = {
+  neutral: 0,
+  happy: 2,
+  excited: 3,
+  thinking: -1,
+  sad: -2,
+  surprised: 4,
+  confused: -1,
+  listening: 0,
+  speaking: 0,
+};
+
+const PAUSE_CHARS = /[\s、。，．,.!?！？…・「」『』（）()]/;
+
+/**
+ * 16-bit mono PCM WAV file
+ */
+function encodeWav(samples: Int16Array): Buffer {
+  const dataBytes = samples.length * 2;
+  const buffer = Buffer.alloc(44 + dataBytes);
+  buffer.write("RIFF", 0);
+  buffer.writeUInt32LE(36 + dataBytes, 4);
+  buffer.write("WAVE", 8);
+  buffer.write("fmt ", 12);
+  buffer.writeUInt32LE(16, 16);               // fmt chunk size
+  buffer.writeUInt16LE(1, 20);                // PCM
+  buffer.writeUInt16LE(1, 22);                // Mono
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);  // Byte rate
+  buffer.writeUInt16LE(2, 32);                // Block align
+  buffer.writeUInt16LE(16, 34);               // Bits per sample
+  buffer.write("data", 36);
+  buffer.writeUInt32LE(dataBytes, 40);
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i], 44 + i * 2);
+  }
+  return buffer;
+}
+
+/**
+ * Render the tone sequence for a text
+ */
+function renderTones(text: string, options: TTSOptions): Int16Array {
+  const semitones = EMOTION_SEMITONES[options.emotion ?? "neutral"] ?? 0;
+  const pitch = BASE_PITCH[options.voice ?? "female"] * 2 ** (semitones / 12);
+  const speed = options.speed ?? 1;
+
+  const syllableSamples = Math.round((SYLLABLE_MS / speed) * SAMPLE_RATE / 1000);
+  const pauseSamples = Math.round((PAUSE_MS / speed) * SAMPLE_RATE / 1000);
+  const maxSamples = Math.round(MAX_DURATION_MS * SAMPLE_RATE / 1000);
+
+  const chunks: Array<{ length: number; tone: boolean }> = [];
+  let total = 0;
+  for (const ch of text) {
+    const chunk = PAUSE_CHARS.test(ch)
+      ? { length: pauseSamples, tone: false }
+      : { length: syllableSamples, tone: true };
+    if (total + chunk.length > maxSamples) break;
+    chunks.push(chunk);
+    total += chunk.length;
+  }
+
+  const samples = new Int16Array(Math.max(total, syllableSamples));
+  let offset = 0;
+  chunks.forEach((chunk, index) => {
+    if (chunk.tone) {
+      // Alternate the pitch slightly so syllables are distinguishable
+      const frequency = pitch * (index % 2 === 0 ? 1 : 1.06);
+      for (let i = 0; i < chunk.length; i++) {
+        // Sine envelope: fades in and out, no clicks between syllables
+        const envelope = Math.sin((Math.PI * i) / chunk.length);
+        const value = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * AMPLITUDE;
+        samples[offset + i] = Math.round(value * 32767);
+      }
+    }
+    offset += chunk.length;
+  });
+  return samples;
+}
+
+export const localEngine: TTSEngine = {
+  name: "local",
+  format: "wav",
+  cacheable: false,  // Rendering is faster than a cache lookup
+
+  voices: {
+    female: { name: "sine-440", description: "Sine tones at 440Hz" },
+    male: { name: "sine-220", description: "Sine tones at 220Hz" },
+  },
+
+  describe(text: string, options: TTSOptions) {
+    return {
+      text,
+      voice: this.voices[options.voice ?? "female"].name,
+      prompt: `emotion=${options.emotion ?? "neutral"},speed=${options.speed ?? 1}`,
+      model: "sine",
+      format: `WAV/${SAMPLE_RATE}`,
+    };
+  },
+
+  async synthesize(text: string, options: TTSOptions, signal?: AbortSignal): Promise<Buffer> {
+    signal?.throwIfAborted();
+    return encodeWav(renderTones(text, options));
+  },
+
+  streamSampleRate: SAMPLE_RATE,
+
+  async *stream(text: string, options: TTSOptions, signal?: AbortSignal): AsyncIterable<Buffer> {
+    const samples = renderTones(text, options);
+    const frameSamples = Math.round(STREAM_FRAME_MS * SAMPLE_RATE / 1000);
+    for (let offset = 0; offset < samples.length; offset += frameSamples) {
+      signal?.throwIfAborted();
+      const frame = samples.subarray(offset, offset + frameSamples);
+      yield Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength);
+    }
+  },
+};
@@ -0,0 +1,67 @@
+/**
+ * TTS Engine Types
+ * Contract shared by every speech synthesis engine implementation
+ */
+
+import type { TTSOptions } from "../../types/index.js";
+import type { TTSCacheKeyParts } from "./cache.js";
+
+export type AudioFormat = "mp3" | "wav";
+
+/**
+ * Voice roles the app asks for; each engine maps them to its own voices
+ */
+export type VoiceRole = NonNullable<TTSOptions["voice"]>;
+
+/**
+ * Engine voice for a role
+ */
+export interface TTSVoice {
+  name: string;          // Engine voice name (e.g. "Achernar", "ja-JP-Neural2-B")
+  description?: string;
+}
+
+/**
+ * Synthesized audio and the engine that produced it
+ */
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  format: AudioFormat;
+  engine: string;
+  cached: boolean;  // Served from the TTS cache
+}
+
+/**
+ * TTS engine contract
+ * Register implementations with registerEngine() in tts/index.ts
+ */
+export interface TTSEngine {
+  /** Engine name, matched against TTS_ENGINE */
+  name: string;
+  format: AudioFormat;
+  /** Voice catalog: the engine voice used for each role */
+  voices: Record<VoiceRole, TTSVoice>;
+  /** Whether results go through the TTS cache (cheap local engines skip it) */
+  cacheable: boolean;
+  /** Everything that affects the audio for this request (the cache key) */
+  describe(text: string, options: TTSOptions): TTSCacheKeyParts;
+  /** Aborting the signal rejects with the abort reason; audio finished after the abort is dropped */
+  synthesize(text: string, options: TTSOptions, signal?: AbortSignal): Promise<Buffer>;
+  /** Sample rate of stream() output (set together with stream) */
+  streamSampleRate?: number;
+  /**
+   * Stream 16-bit mono PCM as the engine produces it (optional)
+   * Returning early from the iterator or aborting the signal cancels the request
+   */
+  stream?(text: string, options: TTSOptions, signal?: AbortSignal): AsyncIterable<Buffer>;
+}
+
+/**
+ * PCM frame from streamSpeech()
+ */
+export interface SpeechFrame {
+  pcm: Buffer;          // 16-bit little-endian mono
+  sampleRate: number;
+  engine: string;
+  cached: boolean;      // Replayed from the TTS cache
+}
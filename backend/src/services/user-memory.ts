@@ -0,0 +1,158 @@
+/**
+ * User Memory Service
+ *
+ * Remembers preferences the user states in conversation across sessions
+ * ("ホラーが苦手", "ベジタリアンなんだ", "渋谷の近くに住んでる").
+ * Extraction is rule-based and runs after each turn, off the response path.
+ * Remembered facts are added to the system prompt via UserContext.memories.
+ */
+
+import {
+  saveMemory,
+  getMemories,
+  deleteMemoriesByCategory,
+  type MemoryCategory,
+  type UserMemory,
+} from "../db/user-memory.js";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("Memory");
+
+export interface ExtractedMemory {
+  category: MemoryCategory;
+  subject: string;
+}
+
+interface PreferencePattern {
+  category: MemoryCategory;
+  pattern: RegExp;
+  /** Build the stored subject from the cleaned capture (defaults to the capture itself) */
+  toSubject?: (captured: string) => string;
+}
+
+// Evaluated in order; negated likes must come before likes
+const PREFERENCE_PATTERNS: PreferencePattern[] = [
+  { category: "dislike", pattern: /(.+?)(?:が|は|も)(?:あまり|あんまり)?(?:好き|すき)(?:じゃな|ではな)/ },
+  { category: "dislike", pattern: /(.+?)(?:が|は|も)(?:大嫌い|嫌い|きらい|苦手|にがて|無理|ダメ|だめ)/ },
+  { category: "like", pattern: /(.+?)(?:が|は|も)(?:大好き|好き|すき)/ },
+  { category: "diet", pattern: /(ベジタリアン|ヴィーガン|ビーガン|菜食主義)/ },
+  { category: "diet", pattern: /(.+?アレルギー)/ },
+  { category: "diet", pattern: /(.+?)(?:が|は)食べられない/, toSubject: s => `${s}が食べられない` },
+  { category: "location", pattern: /(.+?)に住んで/ },
+  // English
+  { category: "dislike", pattern: /\bi (?:hate|dislike|don'?t like|can'?t stand) ([a-z][\w\s-]{0,30})/i },
+  { category: "like", pattern: /\bi (?:love|like|really like) ([a-z][\w\s-]{0,30})/i },
+  { category: "diet", pattern: /\bi'?m (?:a )?(vegetarian|vegan)\b/i },
+  { category: "location", pattern: /\bi live (?:near|in) ([a-z][\w\s-]{0,30})/i },
+];
+
+// Topics that mean the statement is about the user ("私はホラーが苦手")
+const FIRST_PERSON = /^(?:私|わたし|あたし|僕|ぼく|俺|おれ|自分|うち)$/;
+
+// Subjects that only make sense in context ("それが好き")
+const VAGUE_SUBJECT = /^(?:それ|これ|あれ|そこ|ここ|どれ|何|なに|誰|だれ|どこ|全部|みんな|it|that|this)$/i;
+
+// Conversational lead-ins to strip from the subject
+const LEAD_IN = /^(?:実は|じつは|ちなみに|あと|でも|だけど|けど|正直|やっぱり|まあ|ていうか)[、,\s]*/;
+
+// Memory commands ("ホラーが苦手って忘れて") must not be re-remembered
+const MEMORY_COMMAND = /忘れて|わすれて|覚えて|おぼえて|forget|remember/i;
+
+const MAX_SUBJECT_LENGTH = 20;
+
+/**
+ * Clean a captured subject, or return null if it isn't about the user / too vague
+ */
+function cleanSubject(raw: string): string | null {
+  // Keep only the last clause ("映画は見るけど、ホラー" → "ホラー")
+  let subject = raw.split(/[、,]/).pop()!.trim().replace(LEAD_IN, "");
+
+  // Topic marker: keep only first-person topics ("私はホラー" → "ホラー")
+  const topicIndex = subject.indexOf("は");
+  if (topicIndex > 0) {
+    const topic = subject.slice(0, topicIndex);
+    if (!FIRST_PERSON.test(topic)) return null;
+    subject = subject.slice(topicIndex + 1);
+  }
+
+  subject = subject.replace(/(?:とか|なんか|って|のこと)$/, "").trim();
+
+  if (!subject || subject.length > MAX_SUBJECT_LENGTH) return null;
+  if (FIRST_PERSON.test(subject) || VAGUE_SUBJECT.test(subject)) return null;
+  return subject;
+}
+
+/**
+ * Extract stated preferences from a user message
+ * Questions ("ホラー好き？") and memory commands are ignored
+ */
+export function extractPreferences(text: string): ExtractedMemory[] {
+  const sentences = text.match(/[^。！!？?\n]+[。！!？?]?/g) || [];
+  const extracted: ExtractedMemory[] = [];
+
+  for (const sentence of sentences) {
+    if (/[？?]$/.test(sentence) || MEMORY_COMMAND.test(sentence)) continue;
+
+    const matchedCategories = new Set<MemoryCategory>();
+    for (const { category, pattern, toSubject } of PREFERENCE_PATTERNS) {
+      // One fact per category per sentence; a dislike wins over a like
+      if (matchedCategories.has(category)) continue;
+      if (category === "like" && matchedCategories.has("dislike")) continue;
+
+      const match = sentence.match(pattern);
+      if (!match) continue;
+
+      const subject = cleanSubject(match[1]);
+      if (!subject) continue;
+
+      matchedCategories.add(category);
+      extracted.push({ category, subject: toSubject ? toSubject(subject) : subject });
+    }
+  }
+
+  return extracted;
+}
+
+/**
+ * Format a memory for the system prompt / spoken list
+ */
+export function formatMemory(memory: Pick<UserMemory, "category" | "subject">): string {
+  switch (memory.category) {
+    case "like":
+      return `${memory.subject}が好き`;
+    case "dislike":
+      return `${memory.subject}が苦手`;
+    case "diet":
+      return `食事制限：${memory.subject}`;
+    case "location":
+      return `${memory.subject}に住んでいる`;
+  }
+}
+
+/**
+ * Load a user's memories formatted for UserContext.memories
+ */
+export async function loadMemoryLines(userId: string): Promise<string[]> {
+  const memories = await getMemories(userId);
+  return memories.map(formatMemory);
+}
+
+/**
+ * Extract and store preferences from a user message
+ * Returns the updated memory lines, or null if nothing new was stated
+ */
+export async function rememberPreferences(userId: string, text: string): Promise<string[] | null> {
+  const extracted = extractPreferences(text);
+  if (extracted.length === 0) return null;
+
+  for (const { category, subject } of extracted) {
+    // Only one place of residence: a new one replaces the old
+    if (category === "location") {
+      await deleteMemoriesByCategory(userId, "location");
+    }
+    await saveMemory(userId, category, subject, text);
+    log.info(`🧠 Remembered for user ${userId}: ${formatMemory({ category, subject })}`);
+  }
+
+  return loadMemoryLines(userId);
+}
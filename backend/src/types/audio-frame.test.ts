@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  AUDIO_FRAME_VERSION,
+  createAudioFrame,
+  decodeAudioFrame,
+  encodeAudioFrame,
+  type AudioFrameFormat,
+  type AudioFrameKind,
+} from "./index.js";
+
+const payload = new Uint8Array([0, 1, 2, 253, 254, 255]);
+
+describe("audio frames", () => {
+  it.each<[AudioFrameKind, AudioFrameFormat]>([
+    ["stream", "pcm16"],
+    ["audio", "mp3"],
+    ["chunk", "wav"],
+    ["long_waiting", "mp3"],
+    ["mic", "pcm16"],
+  ])("round-trips a %s frame (%s)", (kind, format) => {
+    const frame = createAudioFrame(kind, format, payload, {
+      responseId: "resp-1",
+      chunkIndex: 3,
+      chunkTotal: 7,
+      seq: 42,
+      sampleRate: format === "pcm16" ? 24000 : 0,
+    });
+
+    expect(decodeAudioFrame(encodeAudioFrame(frame))).toEqual(frame);
+  });
+
+  it("round-trips the end flags and the largest header values", () => {
+    for (const [isChunkEnd, isResponseEnd] of [[true, false], [false, true], [true, true]]) {
+      const frame = createAudioFrame("chunk", "mp3", payload, {
+        chunkIndex: 65535,
+        chunkTotal: 65535,
+        seq: 65535,
+        isChunkEnd,
+        isResponseEnd,
+      });
+      expect(decodeAudioFrame(encodeAudioFrame(frame))).toEqual(frame);
+    }
+  });
+
+  it("round-trips a responseId of the maximum length, including multibyte text", () => {
+    const longest = "r".repeat(255);
+    const frame = createAudioFrame("audio", "wav", payload, { responseId: longest });
+    expect(decodeAudioFrame(encodeAudioFrame(frame))?.responseId).toBe(longest);
+
+    // 85 three-byte characters = 255 bytes
+    const multibyte = "音".repeat(85);
+    const decoded = decodeAudioFrame(encodeAudioFrame({ ...frame, responseId: multibyte }));
+    expect(decoded?.responseId).toBe(multibyte);
+    expect(decoded?.payload).toEqual(payload);
+
+    expect(() => encodeAudioFrame({ ...frame, responseId: "r".repeat(256) })).toThrow("responseId too long");
+  });
+
+  it("decodes a frame inside a larger buffer (ws Buffer slices)", () => {
+    const encoded = encodeAudioFrame(createAudioFrame("mic", "pcm16", payload, { sampleRate: 16000 }));
+    const pool = Buffer.alloc(encoded.length + 10);
+    pool.set(encoded, 10);
+
+    const frame = decodeAudioFrame(pool.subarray(10));
+    expect(frame).toMatchObject({ kind: "mic", sampleRate: 16000, responseId: "" });
+    expect([...frame!.payload]).toEqual([...payload]);
+  });
+
+  it("decodes an empty payload", () => {
+    const frame = createAudioFrame("stream", "pcm16", new Uint8Array(0), { isChunkEnd: true });
+    expect(decodeAudioFrame(encodeAudioFrame(frame))).toEqual(frame);
+  });
+
+  it("rejects short, unknown and truncated buffers", () => {
+    const encoded = encodeAudioFrame(createAudioFrame("audio", "mp3", payload, { responseId: "resp-1" }));
+
+    expect(decodeAudioFrame(new Uint8Array(0))).toBeNull();
+    expect(decodeAudioFrame(encoded.slice(0, 14))).toBeNull();
+    // Cut inside the responseId
+    expect(decodeAudioFrame(encoded.slice(0, 18))).toBeNull();
+
+    const withByte = (offset: number, value: number) => {
+      const bytes = encoded.slice();
+      bytes[offset] = value;
+      return bytes;
+    };
+    expect(decodeAudioFrame(withByte(0, AUDIO_FRAME_VERSION + 1))).toBeNull();  // Version
+    expect(decodeAudioFrame(withByte(1, 0))).toBeNull();  // Kind
+    expect(decodeAudioFrame(withByte(1, 9))).toBeNull();
+    expect(decodeAudioFrame(withByte(2, 9))).toBeNull();  // Format
+  });
+});
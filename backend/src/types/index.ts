@@ -12,15 +12,9 @@ export * from "@rabbit/shared";
 import type {
   EmotionType,
   DomainType,
-  ConversationTurn,
   Movie,
   GourmetRestaurant,
   WSBaseMessage,
-  ResponseMessage,
-  StatusMessage,
-  AudioMessage,
-  ErrorMessage,
-  VoiceEventMessage,
 } from "@rabbit/shared";
 
 // ============================================================================
@@ -40,6 +34,7 @@ export interface ConversationHistoryRecord {
   content: string;
   domain: DomainType;
   emotion?: string;
+  interrupted: boolean;
   created_at: Date;
 }
 
@@ -116,6 +111,8 @@ export interface LegacyStatusMessage extends WSBaseMessage {
 export interface LegacyAssistantMessage extends WSBaseMessage {
   type: "assistant_message";
   text: string;
+  displayText?: string;
+  followUps?: string[];
   emotion: EmotionType;
   messageId?: string;
   domain?: DomainType;
@@ -138,6 +135,7 @@ export interface LegacyAudioChunkMessage extends WSBaseMessage {
 export interface LegacyLongWaitingMessage extends WSBaseMessage {
   type: "long_waiting";
   audio: string;
+  format?: "mp3" | "wav";
   text: string;
   responseId?: string;
 }
@@ -175,6 +173,8 @@ export function toLegacyAssistantMessage(
   text: string,
   emotion: EmotionType,
   options?: {
+    displayText?: string;
+    followUps?: string[];
     messageId?: string;
     domain?: DomainType;
     archiveItem?: import("@rabbit/shared").ArchiveItemInfo;
@@ -185,6 +185,8 @@ export function toLegacyAssistantMessage(
     type: "assistant_message",
     text,
     emotion,
+    ...(options?.displayText && { displayText: options.displayText }),
+    ...(options?.followUps && { followUps: options.followUps }),
     ...(options?.messageId && { messageId: options.messageId }),
     ...(options?.domain && { domain: options.domain }),
     ...(options?.archiveItem && { archiveItem: options.archiveItem }),
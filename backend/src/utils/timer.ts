@@ -69,16 +69,8 @@ export function logTiming(
   sessionId?: string,
   details?: Record<string, unknown>
 ): void {
-  const log: TimingLog = {
-    sessionId,
-    action,
-    durationMs,
-    timestamp: new Date().toISOString(),
-    details,
-  };
-
   const sessionPrefix = sessionId ? `[${sessionId.slice(0, 8)}] ` : "";
-  logger.debug(`${sessionPrefix}${action}: ${durationMs}ms`);
+  logger.debug(`${sessionPrefix}${action}: ${durationMs}ms`, details);
 }
 
 /**
@@ -0,0 +1,75 @@
+/**
+ * Audio Transport
+ *
+ * Sends finished audio clips (audio, audio_chunk, long_waiting) to a client:
+ * as binary frames (AudioFrame in @rabbit/shared) when it accepted the
+ * binary offer in "connected", otherwise base64 inside the legacy JSON
+ * messages, which older clients still expect.
+ */
+
+import { WebSocket } from "ws";
+import {
+  AUDIO_FRAME_VERSION,
+  createAudioFrame,
+  encodeAudioFrame,
+  type AudioFrameKind,
+  type AudioFrameOffer,
+} from "../types/index.js";
+import type { AudioFormat } from "../services/tts/index.js";
+
+/**
+ * Binary audio offer for the "connected" message
+ */
+export const AUDIO_FRAME_OFFER: AudioFrameOffer = {
+  version: AUDIO_FRAME_VERSION,
+  formats: ["pcm16", "mp3", "wav"],
+};
+
+/**
+ * An audio clip to send
+ */
+export interface OutgoingAudio {
+  kind: Exclude<AudioFrameKind, "stream" | "mic">;
+  audio: Buffer;
+  format: AudioFormat;
+  responseId?: string;
+  chunk?: { index: number; total: number; isLast: boolean };  // kind "chunk"
+  text?: string;  // long_waiting caption (JSON only, clients just log it)
+}
+
+/**
+ * Send an audio clip; returns the bytes put on the wire (0 if the socket is closed)
+ */
+export function sendAudio(ws: WebSocket, binary: boolean, clip: OutgoingAudio): number {
+  if (ws.readyState !== WebSocket.OPEN) return 0;
+
+  if (binary) {
+    const frame = encodeAudioFrame(createAudioFrame(clip.kind, clip.format, clip.audio, {
+      responseId: clip.responseId,
+      chunkIndex: clip.chunk?.index,
+      chunkTotal: clip.chunk?.total,
+      isChunkEnd: clip.chunk?.isLast,
+    }));
+    ws.send(frame);
+    return frame.length;
+  }
+
+  const data = clip.audio.toString("base64");
+  const message = clip.kind === "chunk"
+    ? {
+        type: "audio_chunk",
+        data,
+        format: clip.format,
+        index: clip.chunk?.index ?? 0,
+        total: clip.chunk?.total ?? 1,
+        isLast: clip.chunk?.isLast ?? true,
+        responseId: clip.responseId,
+      }
+    : clip.kind === "long_waiting"
+      ? { type: "long_waiting", audio: data, format: clip.format, text: clip.text ?? "", responseId: clip.responseId }
+      : { type: "audio", data, format: clip.format, responseId: clip.responseId };
+
+  const json = JSON.stringify(message);
+  ws.send(json);
+  return json.length;
+}
@@ -0,0 +1,151 @@
+/**
+ * Streamed TTS Audio
+ *
+ * Sends a response's speech as binary WebSocket frames (AudioFrame in
+ * @rabbit/shared) while the TTS engine is still producing it, so playback
+ * starts with the first PCM frame instead of a whole synthesized sentence.
+ *
+ * Sentences are synthesized in parallel but played in order: frames of a
+ * later sentence are held back until every earlier sentence has been sent.
+ * Each sentence ends with an empty isChunkEnd frame, the response with an
+ * empty isResponseEnd frame.
+ */
+
+import { WebSocket } from "ws";
+import { streamSpeech, type TTSCacheTally } from "../services/tts/index.js";
+import { createLogger } from "../utils/logger.js";
+import { createAudioFrame, encodeAudioFrame, type AudioFrame, type TTSOptions } from "../types/index.js";
+
+const log = createLogger("AudioStream");
+
+const EMPTY = new Uint8Array(0);
+
+/**
+ * Totals for a response, reported in the TTS step details
+ */
+export interface AudioStreamStats {
+  chunks: number;
+  failed: number;        // Sentences that produced no audio
+  frames: number;        // Audio frames sent (end markers excluded)
+  bytes: number;         // PCM bytes sent
+  firstFrameAt?: number; // performance.now() when the first audio frame was sent
+}
+
+export interface ResponseAudioStream {
+  /** Start synthesizing a sentence; its frames play after the previous sentences */
+  addSentence(text: string, options: TTSOptions): void;
+  /** Sentences added so far */
+  readonly count: number;
+  /** Wait for every sentence, then send the end-of-response frame */
+  finish(): Promise<AudioStreamStats>;
+}
+
+interface ChunkState {
+  pending: AudioFrame[];  // Frames waiting for earlier sentences
+  seq: number;
+  sampleRate: number;
+  done: boolean;
+}
+
+/**
+ * Create the audio stream for one response
+ * isCurrent turns false on barge-in: nothing more is sent and engines are cancelled
+ * (right away when the response's signal is aborted, otherwise at the next frame)
+ * limit wraps each sentence's synthesis (TTS concurrency limiter)
+ */
+export function createResponseAudioStream(options: {
+  ws: WebSocket;
+  responseId: string;
+  isCurrent: () => boolean;
+  tally?: TTSCacheTally;
+  limit?: <T>(fn: () => Promise<T>) => Promise<T>;
+  signal?: AbortSignal;
+}): ResponseAudioStream {
+  const { ws, responseId, isCurrent, tally, limit = fn => fn(), signal } = options;
+  const chunks: ChunkState[] = [];
+  const tasks: Promise<void>[] = [];
+  const stats: AudioStreamStats = { chunks: 0, failed: 0, frames: 0, bytes: 0 };
+  let current = 0;  // Sentence whose frames are being sent
+
+  function sendFrame(frame: AudioFrame): void {
+    if (!isCurrent() || ws.readyState !== WebSocket.OPEN) return;
+    ws.send(encodeAudioFrame(frame));
+    if (frame.payload.length > 0) {
+      stats.frames++;
+      stats.bytes += frame.payload.length;
+      stats.firstFrameAt ??= performance.now();
+    }
+  }
+
+  // Send everything that is no longer blocked by an unfinished earlier sentence
+  function pump(): void {
+    while (current < chunks.length) {
+      const chunk = chunks[current];
+      for (const frame of chunk.pending) sendFrame(frame);
+      chunk.pending = [];
+      if (!chunk.done) return;
+      current++;
+    }
+  }
+
+  function push(index: number, payload: Uint8Array, isChunkEnd: boolean): void {
+    const chunk = chunks[index];
+    chunk.pending.push(createAudioFrame("stream", "pcm16", payload, {
+      responseId,
+      chunkIndex: index,
+      seq: chunk.seq++,
+      sampleRate: chunk.sampleRate,
+      isChunkEnd,
+    }));
+    if (isChunkEnd) chunk.done = true;
+    if (index === current) pump();
+  }
+
+  async function synthesize(index: number, text: string, ttsOptions: TTSOptions): Promise<void> {
+    const startTime = performance.now();
+    let frames = 0;
+    try {
+      for await (const frame of streamSpeech(text, ttsOptions, tally, signal)) {
+        // Barge-in: returning cancels the engine request
+        if (!isCurrent()) return;
+        chunks[index].sampleRate = frame.sampleRate;
+        if (frames++ === 0) {
+          log.debug(`[${responseId.slice(-8)}] Stream #${index} first frame: ${Math.round(performance.now() - startTime)}ms (${frame.engine}${frame.cached ? ", cached" : ""})`);
+        }
+        push(index, frame.pcm, false);
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      stats.failed++;
+      log.error(`[${responseId.slice(-8)}] Stream #${index} FAILED after ${frames} frames:`, error);
+    } finally {
+      // Always close the chunk so later sentences are not blocked
+      push(index, EMPTY, true);
+    }
+  }
+
+  return {
+    addSentence(text: string, ttsOptions: TTSOptions): void {
+      const index = chunks.length;
+      chunks.push({ pending: [], seq: 0, sampleRate: 0, done: false });
+      stats.chunks++;
+      tasks.push(limit(() => synthesize(index, text, ttsOptions)));
+    },
+
+    get count(): number {
+      return chunks.length;
+    },
+
+    async finish(): Promise<AudioStreamStats> {
+      await Promise.all(tasks);
+      sendFrame(createAudioFrame("stream", "pcm16", EMPTY, {
+        responseId,
+        chunkIndex: chunks.length,
+        chunkTotal: chunks.length,
+        isChunkEnd: true,
+        isResponseEnd: true,
+      }));
+      return stats;
+    },
+  };
+}
@@ -1,14 +1,26 @@
 import { WebSocket } from "ws";
 import { v4 as uuidv4 } from "uuid";
-import { chat, needsMovieSearch, needsGourmetSearch, needsSearch } from "../services/claude.js";
-import { synthesizeSpeechBase64 } from "../services/gemini-tts.js";
-import { searchMovies } from "../db/movies.js";
-import { searchGourmetRestaurants } from "../db/gourmet.js";
-import { combinedMovieSearch } from "../services/combined-search.js";
-import { startTimer } from "../utils/timer.js";
-import { generateLongWaitingPhrase, type WaitingContext } from "../services/long-waiting.js";
+import { chat } from "../services/claude.js";
+import { createToolContext, startPrefetch, type ArchiveChange } from "../services/tools/index.js";
+import { canStreamSpeech, synthesizeSpeech, type AudioFormat, type TTSCacheTally } from "../services/tts/index.js";
+import { getGreeting, getGreetingVariants } from "../services/instant-responses.js";
+import { getPhraseAudio, renderPhraseAudio } from "../services/phrase-audio.js";
+import { createResponseAudioStream } from "./audio-stream.js";
+import { createSpeechInput, type SpeechInput } from "./speech-input.js";
+import { AUDIO_FRAME_OFFER, sendAudio } from "./audio-send.js";
+import { checkSessionSpend } from "./spend-guard.js";
+import { heardText, toPlaybackPosition } from "./playback.js";
 import { createLogger, createUserLogger, setUserId, clearUserId } from "../utils/logger.js";
-import { saveConversationTurn, getConversationHistoryByUserId, recordsToTurns } from "../db/conversation.js";
+import {
+  saveConversationTurn,
+  markTurnInterrupted,
+  saveConversationSummary,
+  getConversationSummaryByUserId,
+  getConversationHistoryByUserId,
+  recordsToTurns,
+} from "../db/conversation.js";
+import { selectTurnsToSummarize, summarizeConversation } from "../services/claude/summarizer.js";
+import { config } from "../config/index.js";
 import { detectDomain } from "../utils/domain-detector.js";
 import { getRandomUser, userProfileToContext, type UserContext } from "../db/user-profile.js";
 
@@ -30,21 +42,29 @@ import type {
   ItemFocusedMessage,
   // New message types
   ResponseMessage,
-  StatusMessage as NewStatusMessage,
-  AudioMessage as NewAudioMessage,
   ErrorMessage as NewErrorMessage,
+  ErrorCode,
   VoiceEventMessage,
   // Legacy types for backward compatibility
   WSMessage,
   LoadHistoryMessage,
   HistoryLoadedMessage,
-  // Helper functions
-  createResponseMessage,
-  createStatusMessage,
-  createAudioMessage,
-  createErrorMessage,
+  AudioCapabilitiesMessage,
+  StartListeningMessage,
+  AudioDataMessage,
+  TranscriptMessage,
+  SpeechStartMessage,
+  SpeechEndMessage,
+  InterruptMessage,
+  InterruptAckMessage,
+  PlaybackPosition,
+  ArchiveSavedMessage,
+  ArchiveRemovedMessage,
 } from "../types/index.js";
+import { decodeAudioFrame } from "../types/index.js";
 import { saveToArchive, getFriendsWhoSavedItem } from "../db/user-archive.js";
+import { rememberPreferences, loadMemoryLines } from "../services/user-memory.js";
+import { selectFollowUps } from "../services/follow-ups.js";
 
 // Legacy type aliases for backward compatibility
 type LegacyStatusMessage = {
@@ -57,22 +77,17 @@ type LegacyUserMessage = { type: "user_message"; text: string };
 type LegacyAssistantMessage = {
   type: "assistant_message";
   text: string;
+  displayText?: string;
+  followUps?: string[];
   emotion: EmotionType;
   messageId?: string;
   domain?: DomainType;
   archiveItem?: ArchiveItemInfo;
   searchResults?: SearchResults;
+  component?: ResponseMessage["component"];
 };
 type LegacyErrorMessage = { type: "error"; message: string };
-type LegacyLongWaitingMessage = {
-  type: "long_waiting";
-  audio: string;
-  text: string;
-  responseId?: string;
-};
-type SetUserInfoMessage = { type: "set_user_info"; userId?: string; userName?: string; userToken?: string };
 type SaveArchiveMessage = { type: "save_archive"; userId: string; domain: DomainType; itemId: string; itemTitle?: string; itemData?: Record<string, unknown> };
-type RequestGreetingMessage = { type: "request_greeting" };
 
 // Configuration for parallel TTS streaming (TEN Framework inspired)
 const ENABLE_PARALLEL_TTS = true;
@@ -86,30 +101,6 @@ const SESSION_CLEANUP_INTERVAL_MS = 60 * 1000;  // Check every 1 minute
 const MAX_MESSAGE_LENGTH = 2000;  // Maximum user message length
 const MAX_REQUESTS_PER_MINUTE = 20;  // Rate limiting per session
 
-// Waiting phrases - played before database search (pre-recorded audio)
-const WAITING_PHRASES = [
-  "もちろん。急いで確認するから、待っててね。",
-  "了解。ちょっと待ってね。",
-  "うん、わかった。今確認するから待っててね。",
-  "なるほど。少し調べてみるから待ってて。",
-  "OK。内容を確認するから、少々お待ちを。",
-  "任せて。丁寧にお調べするから、少し待っててね。",
-  "承知したよ。ちょっと考えるから待っててくれる？",
-  "あ、そのことだね。今調べてあげるから待って。",
-  "確かに。すぐ確認するから、ちょっと待ってて。",
-  "いいよ。調べてみるから、そこで待っててね。",
-  "うん、わかるよ。すぐに調べてみるね。",
-  "おっけー。情報を探してくるから、待っててね。",
-  "了解了解。落ち着いて調べるから、待っててね。",
-  "そうだね。すぐ確認するから、ちょっと待って。",
-  "お安い御用だよ。今すぐ調べるから待っててね。",
-  "オッケー。しっかり探してみるから、待ってて。",
-  "そうだよね。今、詳しく確認するからちょっと待って。",
-  "おっけー。すぐ準備するから、ちょっと待っててね。",
-  "教えてくれてありがとう。今すぐ調べるから待ってて。",
-  "了解したよ。すぐに見つけてくるから、待っててね。",
-];
-
 // Workflow step definitions matching WORKFLOW.md
 type WorkflowStep = 
   | "STEP1_TEXT_INPUT"
@@ -135,6 +126,21 @@ interface StepTiming {
   details?: Record<string, unknown>;
 }
 
+/**
+ * The latest response and what it has spoken so far
+ * Kept after it completes (the client may still be playing it) until the next one starts
+ */
+interface ActiveResponse {
+  id: string;
+  controller: AbortController;  // Cancels in-flight LLM / TTS work (barge-in)
+  userText?: string;            // None for the greeting
+  spoken: string[];             // Text of each audio chunk sent, by chunkIndex
+  assistantTurn?: ConversationTurn;           // Once it is in history
+  assistantTurnId?: Promise<number | null>;   // Its conversation_history row
+  finished: boolean;     // No more audio will be sent (done or cancelled)
+  interrupted: boolean;
+}
+
 interface Session {
   id: string;
   ws: WebSocket;
@@ -142,6 +148,7 @@ interface Session {
   status: ConversationStatus;
   pendingRequest: boolean;
   currentResponseId: string | null;  // Track current response for barge-in cancellation
+  activeResponse: ActiveResponse | null;  // Latest response, for interrupt
   lastActivityTime: number;  // For idle timeout cleanup
   requestCount: number;  // For rate limiting
   requestWindowStart: number;  // Rate limit window start time
@@ -153,6 +160,18 @@ interface Session {
   userContext?: UserContext;  // Full user context for LLM
   // Active result set for numbered voice selection
   activeResults: ActiveResultSet | null;
+  // Rolling summary of turns condensed out of history
+  summary?: string;
+  summarizing: boolean;  // Summarization in flight (one at a time)
+  summarizedTurns: number;  // Total turns condensed so far
+  // Daily LLM spend limit reached: replies use the cheapest path
+  spendLimited: boolean;
+  spendLimitNotified: boolean;  // RATE_LIMIT error already sent this session
+  // Negotiated with audio_capabilities
+  binaryAudio: boolean;     // Audio clips as binary frames instead of base64 JSON
+  audioStreaming: boolean;  // Client plays streamed PCM frames
+  // Microphone audio between start_listening and stop_listening (VAD + recognition)
+  speechInput: SpeechInput | null;
 }
 
 // Active sessions
@@ -193,7 +212,7 @@ function startSessionCleanup(): void {
 /**
  * Stop session cleanup (for graceful shutdown)
  */
-function stopSessionCleanup(): void {
+export function stopSessionCleanup(): void {
   if (sessionCleanupInterval) {
     clearInterval(sessionCleanupInterval);
     sessionCleanupInterval = null;
@@ -217,6 +236,64 @@ function checkRateLimit(session: Session): boolean {
   return session.requestCount <= MAX_REQUESTS_PER_MINUTE;
 }
 
+/**
+ * Condense older turns into session.summary once history passes the token budget
+ * Runs in the background; the turns are dropped only after their summary is ready
+ */
+function maybeSummarizeHistory(session: Session): void {
+  const { history } = session;
+
+  // Hard cap in case summarization keeps failing
+  if (history.length > config.history.maxTurns) {
+    history.splice(0, history.length - config.history.maxTurns);
+  }
+
+  // Summaries cost LLM calls too: hold off while over the spend limit
+  if (session.summarizing || session.spendLimited) return;
+
+  const olderTurns = selectTurnsToSummarize(history, config.history);
+  if (olderTurns.length === 0) return;
+
+  session.summarizing = true;
+  const startTime = Date.now();
+
+  summarizeConversation(olderTurns, session.summary, { sessionId: session.id, userId: session.userId })
+    .then((summary) => {
+      // History only grows at the end meanwhile, so the summarized turns are still first
+      if (history[0] === olderTurns[0]) {
+        history.splice(0, olderTurns.length);
+      }
+      session.summary = summary;
+      session.summarizedTurns += olderTurns.length;
+      session.log.info(`📝 Summarized ${olderTurns.length} turns (${Date.now() - startTime}ms), ${history.length} turns kept`);
+
+      saveConversationSummary(session.id, summary, session.summarizedTurns, session.userId).catch(err => {
+        session.log.error("Failed to save conversation summary:", err);
+      });
+    })
+    .catch((err) => {
+      session.log.error("Failed to summarize history:", err);
+    })
+    .finally(() => {
+      session.summarizing = false;
+    });
+}
+
+/**
+ * Seed the rolling summary from the user's previous session when history is restored
+ * A summary already built in this session is kept
+ */
+async function restoreConversationSummary(session: Session, userId: string): Promise<void> {
+  if (session.summary) return;
+
+  const saved = await getConversationSummaryByUserId(userId);
+  if (!saved) return;
+
+  session.summary = saved.summary;
+  session.summarizedTurns = saved.summarizedTurns;
+  session.log.info(`📝 Restored summary of ${saved.summarizedTurns} earlier turns`);
+}
+
 // Start cleanup on module load
 startSessionCleanup();
 
@@ -277,7 +354,7 @@ class WorkflowTimer {
   /**
    * Start tracking a step
    */
-  startStep(step: WorkflowStep, details?: Record<string, unknown>): void {
+  startStep(step: WorkflowStep): void {
     this.currentStep = step;
     this.currentStepStart = performance.now();
   }
@@ -316,7 +393,7 @@ class WorkflowTimer {
     fn: () => Promise<T>,
     details?: Record<string, unknown>
   ): Promise<T> {
-    this.startStep(step, details);
+    this.startStep(step);
     try {
       const result = await fn();
       this.endStep(details);
@@ -415,6 +492,7 @@ function sendUserMessage(ws: WebSocket, text: string): void {
 /**
  * Send assistant message to client
  * Sends both legacy and new format for backward compatibility
+ * text is the spoken rendering; displayText (if different) is shown in the chat instead
  */
 function sendAssistantMessage(
   ws: WebSocket,
@@ -423,17 +501,23 @@ function sendAssistantMessage(
   messageId?: string,
   domain?: DomainType,
   archiveItem?: ArchiveItemInfo,
-  searchResults?: SearchResults
+  searchResults?: SearchResults,
+  component?: ResponseMessage["component"],
+  displayText?: string,
+  followUps?: string[]
 ): void {
   // Legacy format (for existing frontend)
   const legacyMessage: LegacyAssistantMessage = {
     type: "assistant_message",
     text,
+    ...(displayText ? { displayText } : {}),
+    ...(followUps ? { followUps } : {}),
     emotion,
     ...(messageId ? { messageId } : {}),
     ...(domain ? { domain } : {}),
     ...(archiveItem ? { archiveItem } : {}),
     ...(searchResults ? { searchResults } : {}),
+    ...(component ? { component } : {}),
   };
   send(ws, legacyMessage);
   
@@ -496,66 +580,79 @@ function sendError(ws: WebSocket, errorMessage: string): void {
 }
 
 /**
- * Send long waiting audio (for database operations)
- * Sends both legacy and new format for backward compatibility
+ * Send a structured error (new format only) for clients that act on the code
  */
-async function sendLongWaiting(
-  ws: WebSocket,
-  context: WaitingContext,
-  responseId: string
-): Promise<void> {
-  try {
-    // Generate contextual waiting phrase
-    const text = generateLongWaitingPhrase(context);
-    log.debug(`Sending long waiting phrase: "${text}"`);
-
-    // Synthesize speech immediately
-    // Use "speaking" emotion to match conversational flow
-    const audio = await synthesizeSpeechBase64(text, {
-      emotion: "speaking",
-      voice: "female",
-    });
-    
-    // Legacy format (for existing frontend)
-    const legacyMessage: LegacyLongWaitingMessage = {
-      type: "long_waiting",
-      audio,
-      text,
-      responseId,
+function sendErrorCode(ws: WebSocket, code: ErrorCode, errorMessage: string, recoverable: boolean = true): void {
+  const message: NewErrorMessage = {
+    type: "error",
+    timestamp: Date.now(),
+    error: { code, message: errorMessage, recoverable },
+  };
+  send(ws, message);
+}
+
+/**
+ * Notify client of an archive change made by a tool
+ * Same archive_saved shape as the save_archive reply; removals use archive_removed
+ */
+function sendArchiveChange(ws: WebSocket, change: ArchiveChange): void {
+  if (change.action === "saved") {
+    const message: ArchiveSavedMessage = {
+      type: "archive_saved",
+      success: true,
+      message: "アーカイブに保存しました",
+      itemId: change.itemId,
+      domain: change.domain,
+      itemTitle: change.itemTitle,
+      itemData: change.itemData,
+      friends_matched: change.friendsMatched || [],
     };
-    send(ws, legacyMessage);
-    
-    // New format will be enabled in future when frontend is ready
-    // const newMessage = createAudioMessage(audio, "mp3", {
-    //   isProtected: true,  // Cannot be interrupted
-    //   text,
-    //   responseId,
-    // });
-    // send(ws, newMessage);
-  } catch (error) {
-    log.error("Failed to generate long waiting audio:", error);
+    send(ws, message);
+  } else {
+    const message: ArchiveRemovedMessage = {
+      type: "archive_removed",
+      success: true,
+      message: "アーカイブから削除しました",
+      itemId: change.itemId,
+      domain: change.domain,
+      itemTitle: change.itemTitle,
+    };
+    send(ws, message);
+  }
+}
+
+/**
+ * Render the personalized greeting audio in the background once the user is known,
+ * so request_greeting can play it without waiting for TTS
+ */
+function prewarmGreeting(nickName: string): void {
+  for (const text of getGreetingVariants(nickName)) {
+    renderPhraseAudio(text, { emotion: "happy", voice: "female" }).catch(error => {
+      log.warn(`Failed to prewarm greeting audio for "${text}":`, error);
+    });
   }
 }
 
 /**
  * Send transcript message to client (real-time STT)
  */
+function sendTranscript(ws: WebSocket, text: string, isFinal: boolean): void {
+  const message: TranscriptMessage = { type: "transcript", text, isFinal };
+  send(ws, message);
+}
+
 /**
- * Send waiting signal to client (before DB search)
- * Frontend plays pre-recorded audio from public/waiting/{index}.mp3
- * 
- * DISABLED: Moved to frontend with configurable delay (NEXT_PUBLIC_WAITING_DELAY)
- * Frontend now automatically plays random waiting audio after submitting message
+ * TTS cache hits for the TTS step details (omitted when nothing was looked up)
  */
-// function sendWaiting(ws: WebSocket): void {
-//   const index = Math.floor(Math.random() * WAITING_PHRASES.length);
-//   console.log(`⏳ Sending waiting signal #${index}: "${WAITING_PHRASES[index]}"`);
-//   send(ws, {
-//     type: "waiting",
-//     index,
-//     text: WAITING_PHRASES[index],  // For debugging/fallback
-//   });
-// }
+function ttsCacheDetails(tally: TTSCacheTally): Record<string, number> {
+  const lookups = tally.hits + tally.misses;
+  if (lookups === 0) return {};
+  return {
+    cacheHits: tally.hits,
+    cacheMisses: tally.misses,
+    cacheHitRate: Math.round((tally.hits / lookups) * 100) / 100,
+  };
+}
 
 /**
  * Send workflow timing information to client
@@ -574,6 +671,7 @@ function sendWorkflowTiming(
       name: s.name,
       nameJa: s.nameJa,
       durationMs: s.durationMs,
+      ...(s.details ? { details: s.details } : {}),
     })),
     hasDbSearch: summary.hasDbSearch,
     dbSearchTime: summary.dbSearchTime,
@@ -641,33 +739,30 @@ function getItemId(item: Movie | GourmetRestaurant, type: "movie" | "gourmet"):
   return (item as GourmetRestaurant).id?.toString() || `gourmet-${Date.now()}`;
 }
 
-// Active results expiry: 10 minutes
-const ACTIVE_RESULTS_EXPIRY_MS = 10 * 60 * 1000;
-
 /**
- * Format gourmet search results for LLM
+ * Select an active result and highlight its card (item_focused)
+ * Returns the item name; the index must be within activeResults.items
  */
-function formatGourmetResults(result: import("../types/index.js").GourmetSearchResult): string {
-  if (result.restaurants.length === 0) {
-    return JSON.stringify({ found: 0 });
-  }
-
-  const compact = result.restaurants.slice(0, 5).map(r => ({
-    name: r.name,
-    addr: r.address,
-    copy: r.catch_copy,
-    access: r.access,
-    hours: r.open_hours,
-  }));
-
-  // Log formatted results being sent to LLM
-  const names = result.restaurants.slice(0, 3).map(r => r.name).join(", ");
-  const more = result.restaurants.length > 3 ? ` +${result.restaurants.length - 3} more` : "";
-  createLogger("Gourmet").debug(`📤 Formatted ${result.restaurants.length} results for LLM: ${names}${more}`);
-
-  return JSON.stringify(compact);
+function focusActiveResult(session: Session, activeResults: ActiveResultSet, index: number): string {
+  const selectedItem = activeResults.items[index];
+  activeResults.selectedIndex = index;
+
+  const entityName = getItemName(selectedItem, activeResults.type);
+  const focusedMsg: ItemFocusedMessage = {
+    type: "item_focused",
+    index,
+    itemId: getItemId(selectedItem, activeResults.type),
+    domain: activeResults.type,
+    itemTitle: entityName,
+    action: "highlight",
+  };
+  send(session.ws, focusedMsg);
+  return entityName;
 }
 
+// Active results expiry: 10 minutes
+const ACTIVE_RESULTS_EXPIRY_MS = 10 * 60 * 1000;
+
 /**
  * Process user text input and generate response
  */
@@ -703,6 +798,17 @@ async function processUserInput(session: Session, userText: string): Promise<voi
     sessionLog.debug("Cancelling previous response (barge-in)");
   }
   session.currentResponseId = responseId;
+  session.activeResponse?.controller.abort();
+  const active: ActiveResponse = {
+    id: responseId,
+    controller: new AbortController(),
+    userText,
+    spoken: [],
+    finished: false,
+    interrupted: false,
+  };
+  session.activeResponse = active;
+  const { signal } = active.controller;
   
   // Reset pendingRequest flag (allow new request to override)
   session.pendingRequest = true;
@@ -735,25 +841,12 @@ async function processUserInput(session: Session, userText: string): Promise<voi
       if (Date.now() - session.activeResults.timestamp < ACTIVE_RESULTS_EXPIRY_MS) {
         const index = selectionNumber - 1;
         if (index < session.activeResults.items.length) {
-          const selectedItem = session.activeResults.items[index];
-          session.activeResults.selectedIndex = index;
-          
-          const entityName = getItemName(selectedItem, session.activeResults.type);
+          // Highlight the card on the frontend
+          const entityName = focusActiveResult(session, session.activeResults, index);
           
           // Inject resolved entity context into the user message for LLM
           enrichedUserText = `[ユーザーが「${entityName}」を選択] ${userText}`;
           sessionLog.info(`🔢 Number selection: ${selectionNumber}番 → "${entityName}" (index: ${index})`);
-          
-          // Send item_focused to frontend so the card gets highlighted
-          const focusedMsg: ItemFocusedMessage = {
-            type: "item_focused",
-            index,
-            itemId: getItemId(selectedItem, session.activeResults.type),
-            domain: session.activeResults.type,
-            itemTitle: entityName,
-            action: "highlight",
-          };
-          send(ws, focusedMsg);
         } else {
           sessionLog.debug(`🔢 Selection ${selectionNumber} out of range (${session.activeResults.items.length} items)`);
         }
@@ -772,108 +865,62 @@ async function processUserInput(session: Session, userText: string): Promise<voi
     let foundArchiveItem: ArchiveItemInfo | undefined = undefined;
     
     // Track all search results for frontend display
-    let allSearchResults: import("../types/index.js").SearchResults | undefined = undefined;
+    let allSearchResults: SearchResults | undefined = undefined;
 
-    // Prefetch database movie search in parallel when likely needed
-    // Pass history for implicit detection (e.g., follow-up questions like "それについて教えて")
-    const shouldPrefetchMovies = needsMovieSearch(userText, history);
-    const shouldPrefetchGourmet = needsGourmetSearch(userText, history);
-    
-    const prefetchMoviePromise = shouldPrefetchMovies
-      ? (async () => {
-          const prefetchTimer = startTimer("Database Search (Prefetch)", { query: userText });
-          const result = await combinedMovieSearch(userText);
-          const timing = prefetchTimer.stop();
-          workflow.recordDbSearch(timing.durationMs);
-          
-          // Extract first movie for archive if found
-          if (result.dbResults && result.dbResults.movies && result.dbResults.movies.length > 0) {
-            const movie = result.dbResults.movies[0];
-            foundArchiveItem = {
-              itemId: movie.id?.toString() || `movie-${Date.now()}`,
-              itemTitle: movie.title_ja,
-              itemDomain: "movie" as DomainType,
-              itemData: {
-                title_en: movie.title_en,
-                description: movie.description,
-                release_year: movie.release_year,
-                rating: movie.rating,
-                director: movie.director,
-                actors: movie.actors,
-              },
-            };
-            
-            // Store all search results for frontend
-            allSearchResults = {
-              type: "movie",
-              movies: result.dbResults.movies,
-              total: result.dbResults.total,
-            };
-            
-            // Populate active results for numbered selection
-            session.activeResults = {
-              type: "movie",
-              items: result.dbResults.movies,
-              selectedIndex: null,
-              query: userText,
-              timestamp: Date.now(),
-            };
-            sessionLog.debug(`🔢 Active results set: ${result.dbResults.movies.length} movies`);
-          }
-          
-          return result.merged; // Return formatted string for LLM
-        })().catch(() => null)
-      : null;
+    // Extra component to render with the reply (friend recommendations)
+    let component: ResponseMessage["component"] = undefined;
 
-    const prefetchGourmetPromise = shouldPrefetchGourmet
-      ? (async () => {
-          const prefetchTimer = startTimer("Gourmet Search (Prefetch)", { query: userText });
-          const result = await searchGourmetRestaurants(userText);
-          const timing = prefetchTimer.stop();
-          workflow.recordDbSearch(timing.durationMs);
-          
-          // Extract first restaurant for archive if found
-          if (result.restaurants && result.restaurants.length > 0) {
-            const restaurant = result.restaurants[0];
-            foundArchiveItem = {
-              itemId: restaurant.id?.toString() || `gourmet-${Date.now()}`,
-              itemTitle: restaurant.name,
-              itemDomain: "gourmet" as DomainType,
-              itemData: {
-                code: restaurant.code,
-                address: restaurant.address,
-                catch_copy: restaurant.catch_copy,
-                urls_pc: restaurant.urls_pc,
-                open_hours: restaurant.open_hours,
-              },
-            };
-            
-            // Store all search results for frontend
-            allSearchResults = {
-              type: "gourmet",
-              restaurants: result.restaurants,
-              total: result.total,
-            };
-            
-            // Populate active results for numbered selection
-            session.activeResults = {
-              type: "gourmet",
-              items: result.restaurants,
-              selectedIndex: null,
-              query: userText,
-              timestamp: Date.now(),
-            };
-            sessionLog.debug(`🔢 Active results set: ${result.restaurants.length} gourmet restaurants`);
-          }
-          
-          // Format results for LLM
-          return formatGourmetResults(result);
-        })().catch(() => null)
-      : null;
+    // Over the daily spend limit: instant/cached answers, no tools, short replies
+    const spend = await checkSessionSpend(session);
+
+    const toolContext = createToolContext({
+      userText,
+      history,
+      userId: session.userId,
+      userContext: session.userContext,
+      activeResults: session.activeResults,
+      // Skip tool work if response was cancelled (barge-in)
+      isCancelled: () => session.currentResponseId !== responseId,
+      // Track database search within LLM step
+      onSearchTiming: (durationMs) => workflow.recordDbSearch(durationMs),
+      onPresentation: (presentation) => {
+        // Latest results win: tool_use searches reflect Claude's refined query
+        // and take precedence over prefetch results
+        if (presentation.archiveItem) {
+          foundArchiveItem = presentation.archiveItem;
+        }
+        if (presentation.searchResults) {
+          allSearchResults = presentation.searchResults;
+        }
+        if (presentation.activeResults) {
+          // Populate active results for numbered selection
+          session.activeResults = presentation.activeResults;
+          sessionLog.debug(`🔢 Active results set: ${presentation.activeResults.items.length} ${presentation.activeResults.type} items (query: "${presentation.activeResults.query}")`);
+        }
+        if (presentation.archiveChange) {
+          // Archive edited by a tool: sync the client right away
+          sendArchiveChange(session.ws, presentation.archiveChange);
+        }
+        if (presentation.friendRecommendations) {
+          component = { type: "friend_match", data: presentation.friendRecommendations };
+        }
+        if (presentation.memories && session.userContext) {
+          // User edited memories: next prompt reflects it
+          session.userContext.memories = presentation.memories;
+        }
+      },
+    });
+
+    // Prefetch searches in parallel when likely needed (tools are off in economy mode)
+    // Uses history for implicit detection (e.g., follow-up questions like "それについて教えて")
+    if (!spend.limited) {
+      startPrefetch(toolContext);
+    }
 
     // Parallel TTS: Queue sentences and synthesize while LLM is still streaming
     interface TTSChunkResult {
-      audio: string;
+      audio: Buffer;
+      format: AudioFormat;
       sentence: string;
       index: number;
       durationMs: number;
@@ -881,95 +928,68 @@ async function processUserInput(session: Session, userText: string): Promise<voi
     }
     const ttsQueue: Promise<TTSChunkResult | null>[] = [];
     let sentenceIndex = 0;
+    const ttsCache: TTSCacheTally = { hits: 0, misses: 0 };  // TTS cache use this turn
+
+    // Streaming TTS: sentences go out as binary PCM frames while they are synthesized
+    const audioStream = ENABLE_PARALLEL_TTS && session.audioStreaming && canStreamSpeech()
+      ? createResponseAudioStream({
+          ws,
+          responseId,
+          isCurrent: () => session.currentResponseId === responseId,
+          tally: ttsCache,
+          limit: withTTSLimit,
+          signal,
+        })
+      : null;
 
     // Log if user context is being used
     if (session.userContext) {
       sessionLog.debug(`🎯 Using user context for personalized response (${session.userContext.nickName})`);
     }
 
-    const response = await chat(
-      history,
-      enrichedUserText,
-      async (query, genre, year) => {
-        // Skip if response was cancelled (barge-in)
-        if (session.currentResponseId !== responseId) {
-          return ""; // Return empty to abort gracefully
-        }
-
-        // DISABLED: Long waiting audio for database operations
-        // User requested to turn off long-waiting when accessing database
-        // await sendLongWaiting(ws, {
-        //   query: query || undefined,
-        //   genre: genre || undefined,
-        //   year: year || undefined,
-        // }, responseId);
-
-        // Track database search within LLM step
-        if (
-          prefetchMoviePromise &&
-          query.trim() === userText.trim() &&
-          !genre &&
-          !year
-        ) {
-          const prefetched = await prefetchMoviePromise;
-          if (prefetched) {
-            return prefetched;
-          }
-        }
-
-        const searchTimer = startTimer("Combined Search", { query, genre, year });
-        const result = await combinedMovieSearch(query, genre, year);
-        const searchTiming = searchTimer.stop();
-        workflow.recordDbSearch(searchTiming.durationMs);
-        
-        // Extract first movie for archive and update results
-        // Always update when tool_use search completes - it reflects Claude's refined query
-        // and should take precedence over prefetch results
-        if (result.dbResults && result.dbResults.movies && result.dbResults.movies.length > 0) {
-          const movie = result.dbResults.movies[0];
-          foundArchiveItem = {
-            itemId: movie.id?.toString() || `movie-${Date.now()}`,
-            itemTitle: movie.title_ja,
-            itemDomain: "movie" as DomainType,
-            itemData: {
-              title_en: movie.title_en,
-              description: movie.description,
-              release_year: movie.release_year,
-              rating: movie.rating,
-              director: movie.director,
-              actors: movie.actors,
-            },
-          };
-          
-          // Store all search results for frontend (override prefetch results)
-          allSearchResults = {
-            type: "movie",
-            movies: result.dbResults.movies,
-            total: result.dbResults.total,
-          };
-          
-          // Populate active results for numbered selection
-          session.activeResults = {
-            type: "movie",
-            items: result.dbResults.movies,
-            selectedIndex: null,
-            query: query,
-            timestamp: Date.now(),
-          };
-          sessionLog.debug(`🔢 Active results updated by tool_use: ${result.dbResults.movies.length} movies (query: "${query}")`);
-        }
-        
-        return result.merged; // Return formatted string for LLM
+    // Time to first token, prompt cache usage and provider, reported in the LLM step details
+    const llmStart = performance.now();
+    let firstTokenMs: number | undefined;
+    let cacheReadTokens = 0;
+    let cacheWriteTokens = 0;
+    const llmProviders = new Set<string>();  // Providers that served this turn (after failover)
+
+    const response = await chat(history, enrichedUserText, {
+      toolContext,
+      userContext: session.userContext,  // Pass user context to LLM for personalized responses
+      activeResults: session.activeResults,  // Pass active results for numbered selection context
+      summary: session.summary,  // Older turns condensed out of history
+      // Recorded in llm_usage
+      usageScope: {
+        sessionId: session.id,
+        userId: session.userId,
+        onUsage: (usage, provider) => {
+          llmProviders.add(provider);
+          cacheReadTokens += usage.cache_read_input_tokens || 0;
+          cacheWriteTokens += usage.cache_creation_input_tokens || 0;
+        },
       },
-      (delta) => {
+      economy: spend.limited,
+      signal,
+      onChunk: (delta) => {
         // Skip if response was cancelled (barge-in)
         if (session.currentResponseId !== responseId) return;
+        firstTokenMs ??= Math.round(performance.now() - llmStart);
         // Stream partial text to client for faster perceived response
         sendAssistantDelta(ws, delta, assistantMessageId);
       },
-      ENABLE_PARALLEL_TTS ? (sentence, emotion) => {
+      onSentence: ENABLE_PARALLEL_TTS ? (sentence, emotion) => {
         // Skip if response was cancelled (barge-in)
         if (session.currentResponseId !== responseId) return;
+
+        // Streamed sentences play gaplessly, so short ones are not dropped
+        if (audioStream) {
+          if (sentence.trim()) {
+            audioStream.addSentence(sentence, { emotion, voice: "female" });
+            active.spoken.push(sentence);
+          }
+          return;
+        }
         
         // Parallel TTS: Start synthesizing each sentence immediately
         if (sentence.length >= MIN_SENTENCE_LENGTH_FOR_TTS) {
@@ -982,17 +1002,18 @@ async function processUserInput(session: Session, userText: string): Promise<voi
 
           // Use TTS concurrency limiter to avoid rate limiting
           const ttsPromise = withTTSLimit(() =>
-            synthesizeSpeechBase64(sentence, {
+            synthesizeSpeech(sentence, {
               emotion,
               voice: "female",
-            })
-          ).then(audio => {
+            }, ttsCache, signal)
+          ).then(({ audio, format }) => {
             const durationMs = Math.round(performance.now() - startTime);
-            const audioKB = Math.round(audio.length * 0.75 / 1024);
+            const audioKB = Math.round(audio.length / 1024);
             log.debug(`[${session.id.slice(0, 8)}] TTS #${idx} DONE: ${durationMs}ms`);
             sessionLog.debug(`TTS chunk #${idx} END: ${durationMs}ms, ${audioKB}KB`);
-            return { audio, sentence, index: idx, durationMs, charCount };
+            return { audio, format, sentence, index: idx, durationMs, charCount };
           }).catch(err => {
+            if (signal.aborted) return null;
             const durationMs = Math.round(performance.now() - startTime);
             log.error(`[${session.id.slice(0, 8)}] TTS #${idx} FAILED after ${durationMs}ms:`, err);
             sessionLog.error(`TTS chunk #${idx} FAILED: ${durationMs}ms`, err);
@@ -1002,97 +1023,34 @@ async function processUserInput(session: Session, userText: string): Promise<voi
           ttsQueue.push(ttsPromise);
         }
       } : undefined,
-      // onToolUse callback - DISABLED (moved to frontend with configurable delay)
+      // onToolUse - DISABLED (moved to frontend with configurable delay)
       // Frontend now plays waiting audio automatically after NEXT_PUBLIC_WAITING_DELAY ms
-      // () => {
-      //   // Skip if response was cancelled (barge-in)
-      //   if (session.currentResponseId !== responseId) return;
-      //   sendWaiting(ws);
-      // }
-      undefined,
-      session.userContext,  // Pass user context to LLM for personalized responses
-      async (query, area, cuisine) => {
-        // Skip if response was cancelled (barge-in)
-        if (session.currentResponseId !== responseId) {
-          return ""; // Return empty to abort gracefully
-        }
-
-        // Track gourmet search within LLM step
-        if (
-          prefetchGourmetPromise &&
-          query.trim() === userText.trim() &&
-          !area &&
-          !cuisine
-        ) {
-          const prefetched = await prefetchGourmetPromise;
-          if (prefetched) {
-            return prefetched;
-          }
-        }
-
-        const searchTimer = startTimer("Gourmet Search", { query, area, cuisine });
-        const result = await searchGourmetRestaurants(query, area, cuisine);
-        const searchTiming = searchTimer.stop();
-        workflow.recordDbSearch(searchTiming.durationMs);
-        
-        // Extract first restaurant for archive and update results
-        // Always update when tool_use search completes - it reflects Claude's refined query
-        // and should take precedence over prefetch results
-        if (result.restaurants && result.restaurants.length > 0) {
-          const restaurant = result.restaurants[0];
-          foundArchiveItem = {
-            itemId: restaurant.id?.toString() || `gourmet-${Date.now()}`,
-            itemTitle: restaurant.name,
-            itemDomain: "gourmet" as DomainType,
-            itemData: {
-              code: restaurant.code,
-              address: restaurant.address,
-              catch_copy: restaurant.catch_copy,
-              urls_pc: restaurant.urls_pc,
-              open_hours: restaurant.open_hours,
-            },
-          };
-          
-          // Store all search results for frontend (override prefetch results)
-          allSearchResults = {
-            type: "gourmet",
-            restaurants: result.restaurants,
-            total: result.total,
-          };
-          
-          // Populate active results for numbered selection
-          session.activeResults = {
-            type: "gourmet",
-            items: result.restaurants,
-            selectedIndex: null,
-            query: query,
-            timestamp: Date.now(),
-          };
-          sessionLog.debug(`🔢 Active results updated by tool_use: ${result.restaurants.length} restaurants (query: "${query}")`);
+      onToolStep: (event) => {
+        // Report each tool loop iteration as DB search + LLM follow-up steps
+        if (event.phase === "start") {
+          workflow.endStep();
+          workflow.startStep("STEP5_DB_SEARCH");
+        } else {
+          workflow.endStep({ iteration: event.iteration, tools: event.tools });
+          workflow.startStep("STEP6_LLM_RESPONSE");
         }
-        
-        return formatGourmetResults(result); // Return formatted string for LLM
       },
-      session.activeResults  // Pass active results for numbered selection context
-    );
+    });
 
     workflow.endStep({
       inputLength: userText.length,
       usedTool: response.usedTool,
-      hasToolUse: workflow.getSummary().hasDbSearch
+      hasToolUse: workflow.getSummary().hasDbSearch,
+      firstTokenMs,
+      cacheReadTokens,
+      cacheWriteTokens,
+      provider: [...llmProviders].join(",") || undefined,
     });
 
-    // Determine which tool was used
-    let toolUsed = "none";
-    if (response.usedTool) {
-      if (shouldPrefetchMovies) {
-        toolUsed = "movie search";
-      } else if (shouldPrefetchGourmet) {
-        toolUsed = "gourmet search";
-      } else {
-        toolUsed = "search";
-      }
-    }
+    // Determine which tools were used
+    const toolUsed = response.toolsUsed && response.toolsUsed.length > 0
+      ? response.toolsUsed.join(", ")
+      : "none";
     
     sessionLog.debug(`Tool used: ${toolUsed}`);
     sessionLog.info(`Assistant response: "${response.text}" [emotion: ${response.emotion}]`);
@@ -1117,39 +1075,37 @@ async function processUserInput(session: Session, userText: string): Promise<voi
       emotion: response.emotion 
     };
     
-    history.push(userTurn);
-    history.push(assistantTurn);
-
-    // Save to database (async, don't block)
-    saveConversationTurn(
-      session.id, 
-      userTurn, 
-      domain, 
-      session.userId, 
-      session.userName, 
-      session.userToken
-    ).catch(err => {
-      sessionLog.error("Failed to save user turn to database:", err);
-    });
-    saveConversationTurn(
-      session.id, 
-      assistantTurn, 
-      domain, 
-      session.userId, 
-      session.userName, 
-      session.userToken
-    ).catch(err => {
-      sessionLog.error("Failed to save assistant turn to database:", err);
-    });
+    recordExchange(session, active, userTurn, assistantTurn);
 
-    // Limit history to last 20 turns
-    if (history.length > 20) {
-      history.splice(0, history.length - 20);
+    // Remember stated preferences for future sessions (async, don't block)
+    if (session.userId && session.userContext) {
+      rememberPreferences(session.userId, userText).then(memories => {
+        if (memories && session.userContext) {
+          session.userContext.memories = memories;
+        }
+      }).catch(err => {
+        sessionLog.error("Failed to remember preferences:", err);
+      });
     }
 
+    // Summarize older turns once history grows past the token budget (async, don't block)
+    maybeSummarizeHistory(session);
+
     // STEP 7: Send text response (with archive item info and all search results if found)
     workflow.startStep("STEP7_TEXT_RESPONSE");
-    sendAssistantMessage(ws, response.text, response.emotion, assistantMessageId, domain, foundArchiveItem, allSearchResults);
+    // Card the reply talks about (referenced_item in the structured reply)
+    const activeResults = session.activeResults;
+    const referencedIndex = activeResults && response.referencedItem && response.referencedItem <= activeResults.items.length
+      ? response.referencedItem - 1
+      : null;
+    const followUps = selectFollowUps(response.followUps, activeResults, response.usedTool || referencedIndex !== null, referencedIndex);
+    sendAssistantMessage(ws, response.text, response.emotion, assistantMessageId, domain, foundArchiveItem, allSearchResults, component, response.displayText, followUps);
+
+    // Highlight the referenced card once the message (with its cards) is out
+    if (activeResults && referencedIndex !== null) {
+      const entityName = focusActiveResult(session, activeResults, referencedIndex);
+      sessionLog.debug(`🔢 Reply references ${referencedIndex + 1}番 → "${entityName}"`);
+    }
     session.status = "speaking";
     sendStatus(ws, "speaking", response.emotion, "話しています...");
     workflow.endStep({ textLength: response.text.length, emotion: response.emotion });
@@ -1158,9 +1114,32 @@ async function processUserInput(session: Session, userText: string): Promise<voi
     workflow.startStep("STEP8_TTS_SYNTHESIS");
     
     let audioSent = false;
+    let firstAudioMs: number | undefined;  // From LLM request to first audio sent
+
+    if (audioStream && audioStream.count > 0) {
+      // Streaming mode: frames are already going out, wait for the last sentence
+      sessionLog.info(`TTS streaming mode: ${audioStream.count} chunks, ${response.text.length} chars`);
+      const stats = await audioStream.finish();
+      audioSent = stats.frames > 0;
+      if (stats.firstFrameAt !== undefined) {
+        firstAudioMs = Math.round(stats.firstFrameAt - llmStart);
+      }
+      sessionLog.info(`TTS streaming mode END: ${stats.frames} frames, ${Math.round(stats.bytes / 1024)}KB, first audio ${firstAudioMs ?? "-"}ms`);
+
+      workflow.endStep({
+        mode: "streaming",
+        chunks: stats.chunks,
+        failedChunks: stats.failed,
+        frames: stats.frames,
+        firstAudioMs,
+        textLength: response.text.length,
+        ...ttsCacheDetails(ttsCache),
+      });
+    }
     
     // Short response optimization: skip chunking for very brief responses
     const useParallelTTS = ENABLE_PARALLEL_TTS && 
+                           !audioStream &&
                            ttsQueue.length > 0 && 
                            response.text.length >= SHORT_RESPONSE_THRESHOLD;
     
@@ -1175,7 +1154,7 @@ async function processUserInput(session: Session, userText: string): Promise<voi
       let sentCount = 0;
 
       // Process all chunks in parallel and send each as it completes
-      const sendPromises = ttsQueue.map(async (promise, i) => {
+      const sendPromises = ttsQueue.map(async (promise) => {
         const result = await promise;
         if (result) {
           // Check if this response is still current (not cancelled by barge-in)
@@ -1185,15 +1164,15 @@ async function processUserInput(session: Session, userText: string): Promise<voi
           }
           
           // Send immediately when this chunk is ready (don't wait for earlier chunks)
-          send(ws, {
-            type: "audio_chunk",
-            data: result.audio,
-            format: "mp3",
-            index: result.index,
-            total: totalChunks,
-            isLast: result.index === totalChunks - 1,
+          sendAudio(ws, session.binaryAudio, {
+            kind: "chunk",
+            audio: result.audio,
+            format: result.format,
+            chunk: { index: result.index, total: totalChunks, isLast: result.index === totalChunks - 1 },
             responseId,  // Include responseId so frontend can ignore stale chunks
           });
+          active.spoken[result.index] = result.sentence;
+          firstAudioMs ??= Math.round(performance.now() - llmStart);
           sentCount++;
           chunkResults.push(result);
           return result;
@@ -1210,18 +1189,20 @@ async function processUserInput(session: Session, userText: string): Promise<voi
       // Calculate totals for logging
       const totalTTSTime = chunkResults.reduce((sum, c) => sum + c.durationMs, 0);
       const totalChars = chunkResults.reduce((sum, c) => sum + c.charCount, 0);
-      const totalAudioKB = chunkResults.reduce((sum, c) => sum + Math.round(c.audio.length * 0.75 / 1024), 0);
+      const totalAudioKB = chunkResults.reduce((sum, c) => sum + Math.round(c.audio.length / 1024), 0);
       
       // Log TTS summary
       chunkResults.sort((a, b) => a.index - b.index);
-      log.debug(`[${session.id.slice(0, 8)}] TTS complete: ${chunkResults.length} chunks, ${totalTTSTime}ms, ${totalAudioKB}KB`);
+      log.debug(`[${session.id.slice(0, 8)}] TTS complete: ${chunkResults.length} chunks, ${totalChars} chars, ${totalTTSTime}ms, ${totalAudioKB}KB`);
       sessionLog.info(`TTS parallel mode END: ${chunkResults.length} chunks, wall time ${ttsOverallDuration}ms, total TTS time ${totalTTSTime}ms, ${totalAudioKB}KB`);
 
       workflow.endStep({ 
         mode: "parallel", 
         chunks: totalChunks,
         totalTTSTime,
-        textLength: response.text.length 
+        firstAudioMs,
+        textLength: response.text.length,
+        ...ttsCacheDetails(ttsCache),
       });
     }
     
@@ -1237,10 +1218,11 @@ async function processUserInput(session: Session, userText: string): Promise<voi
         sessionLog.info(`TTS sequential mode BEGIN: ${response.text.length} chars, emotion: ${response.emotion}`);
         
         try {
-          const audioBase64 = await synthesizeSpeechBase64(response.text, {
-            emotion: response.emotion,
-            voice: "female",
-          });
+          // Instant responses use the pre-synthesized phrase audio (rendered and stored on a miss)
+          const ttsOptions = { emotion: response.emotion, voice: "female" as const };
+          const { audio, format } = response.instant
+            ? await renderPhraseAudio(response.text, ttsOptions)
+            : await synthesizeSpeech(response.text, ttsOptions, ttsCache, signal);
           
           // Check again after TTS completes (could be cancelled during synthesis)
           if (session.currentResponseId !== responseId) {
@@ -1249,29 +1231,33 @@ async function processUserInput(session: Session, userText: string): Promise<voi
             workflow.endStep({ mode: "cancelled" });
           } else {
             const seqDuration = Math.round(performance.now() - seqStartTime);
-            const audioKB = Math.round(audioBase64.length * 0.75 / 1024);
+            const audioKB = Math.round(audio.length / 1024);
             log.debug(`[${session.id.slice(0, 8)}] TTS sequential: ${seqDuration}ms, ${audioKB}KB`);
             sessionLog.info(`TTS sequential mode END: ${seqDuration}ms, ${audioKB}KB`);
 
             workflow.endStep({ 
-              mode: "sequential",
+              mode: response.instant ? "phrase" : "sequential",
               textLength: response.text.length, 
               durationMs: seqDuration,
-              emotion: response.emotion 
+              firstAudioMs: Math.round(performance.now() - llmStart),
+              emotion: response.emotion,
+              ...ttsCacheDetails(ttsCache),
             });
 
             // STEP 9: Send audio data with responseId for tracking
             workflow.startStep("STEP9_AUDIO_SEND");
-            send(ws, {
-              type: "audio",
-              data: audioBase64,
-              format: "mp3",
+            const audioSize = sendAudio(ws, session.binaryAudio, {
+              kind: "audio",
+              audio,
+              format,
               responseId,  // Add responseId to full audio messages too
             });
-            workflow.endStep({ audioSize: audioBase64.length });
+            active.spoken[0] = response.text;
+            workflow.endStep({ audioSize, binary: session.binaryAudio });
             audioSent = true;
           }
         } catch (ttsError) {
+          if (signal.aborted) throw ttsError;
           log.error("TTS error:", ttsError);
           sessionLog.error("TTS sequential mode ERROR", ttsError);
           workflow.endStep({ error: true });
@@ -1284,7 +1270,7 @@ async function processUserInput(session: Session, userText: string): Promise<voi
     } else {
       // Mark audio send complete for parallel mode
       workflow.startStep("STEP9_AUDIO_SEND");
-      workflow.endStep({ mode: "parallel_streaming" });
+      workflow.endStep({ mode: audioStream ? "binary_streaming" : "parallel_streaming" });
     }
 
     // Only send completion updates if this response is still current
@@ -1305,6 +1291,11 @@ async function processUserInput(session: Session, userText: string): Promise<voi
     }
 
   } catch (error) {
+    if (signal.aborted) {
+      // Interrupted (interruptResponse records the turn) or superseded by a newer request
+      sessionLog.debug("Response aborted");
+      return;
+    }
     sessionLog.error("Process input error:", error);
     log.error("Process input error:", error);
     // Only update status if this response is still current
@@ -1317,7 +1308,266 @@ async function processUserInput(session: Session, userText: string): Promise<voi
   } finally {
     // Always reset pending flag
     session.pendingRequest = false;
+    active.finished = true;
+  }
+}
+
+/**
+ * Add a user/assistant exchange to history and save it (async, don't block)
+ * The assistant turn's row id is kept for a later interrupt
+ */
+function recordExchange(
+  session: Session,
+  active: ActiveResponse,
+  userTurn: ConversationTurn,
+  assistantTurn: ConversationTurn
+): void {
+  const domain = userTurn.domain;
+  session.history.push(userTurn, assistantTurn);
+  active.assistantTurn = assistantTurn;
+
+  saveConversationTurn(
+    session.id,
+    userTurn,
+    domain,
+    session.userId,
+    session.userName,
+    session.userToken
+  ).catch(err => {
+    session.log.error("Failed to save user turn to database:", err);
+  });
+  active.assistantTurnId = saveConversationTurn(
+    session.id,
+    assistantTurn,
+    domain,
+    session.userId,
+    session.userName,
+    session.userToken
+  ).catch(err => {
+    session.log.error("Failed to save assistant turn to database:", err);
+    return null;
+  });
+}
+
+/**
+ * Validate and process user text (typed, or a final transcript)
+ */
+async function submitUserText(session: Session, text: string): Promise<void> {
+  const trimmedText = text.trim();
+  if (!trimmedText) return;
+
+  // Validate message length
+  if (trimmedText.length > MAX_MESSAGE_LENGTH) {
+    session.log.warn(`Message too long: ${trimmedText.length} chars`);
+    sendError(session.ws, `メッセージが長すぎます（最大${MAX_MESSAGE_LENGTH}文字）`);
+    return;
+  }
+
+  // Check rate limit
+  if (!checkRateLimit(session)) {
+    session.log.warn("Rate limit exceeded");
+    sendErrorCode(session.ws, "RATE_LIMIT", "リクエストが多すぎます。少し待ってからお試しください。");
+    return;
+  }
+
+  await processUserInput(session, trimmedText);
+}
+
+/**
+ * Start listening (start_listening)
+ * Speech boundaries are sent as speech_start / speech_end; with recognition on,
+ * transcripts are forwarded and each utterance is submitted like typed text
+ * once the user stops speaking
+ */
+function startListening(session: Session, sampleRate?: number, recognize = true): void {
+  // Restarting discards the utterance in progress
+  session.speechInput?.abort();
+
+  const validRate = sampleRate !== undefined && Number.isInteger(sampleRate) && sampleRate >= 8000 && sampleRate <= 48000;
+  if (sampleRate !== undefined && !validRate) {
+    session.log.warn(`Ignoring invalid sampleRate: ${sampleRate}`);
+  }
+  const rate = validRate ? sampleRate : config.stt.sampleRate;
+
+  session.speechInput = createSpeechInput({ sampleRate: rate, recognize }, {
+    onSpeechStart: ({ offsetMs }) => {
+      session.log.debug(`🗣️ Speech start (${offsetMs}ms)`);
+      const message: SpeechStartMessage = { type: "speech_start", offsetMs };
+      send(session.ws, message);
+    },
+    onSpeechEnd: ({ offsetMs, durationMs }) => {
+      session.log.debug(`🤐 Speech end (${offsetMs}ms, ${durationMs}ms of speech)`);
+      const message: SpeechEndMessage = { type: "speech_end", offsetMs, durationMs };
+      send(session.ws, message);
+    },
+    onTranscript: (text, isFinal) => {
+      sendTranscript(session.ws, text, isFinal);
+    },
+    onUtterance: (text) => {
+      session.log.info(`🎤 Utterance: "${text}"`);
+      // Starts the client's TTFR timer
+      send(session.ws, { type: "processing_voice" });
+      submitUserText(session, text).catch(error => {
+        session.log.error("Voice input error:", error);
+      });
+    },
+    onError: (error) => {
+      // Only this utterance is lost; listening continues
+      session.log.error("Speech recognition error:", error);
+      sendErrorCode(session.ws, "STT_ERROR", "音声認識に失敗しました。もう一度お試しください。");
+    },
+  });
+  session.log.debug(`🎤 Listening (sampleRate: ${rate}, recognize: ${recognize})`);
+}
+
+/**
+ * Stop listening (stop_listening)
+ * An utterance in progress ends here; its transcript is still delivered
+ */
+function stopListening(session: Session): void {
+  if (!session.speechInput) return;
+  session.speechInput.end();
+  session.speechInput = null;
+  session.log.debug("🎤 Stopped listening");
+}
+
+/**
+ * Barge-in: cancel the response and record its assistant turn as far as it was heard
+ * An interrupt for an older response (or a repeated one) only gets an acknowledgement
+ */
+function interruptResponse(session: Session, responseId?: string, position?: PlaybackPosition): void {
+  const active = session.activeResponse;
+  if (!active || active.interrupted || (responseId && responseId !== active.id)) {
+    const ack: InterruptAckMessage = { type: "interrupt_ack", responseId, cancelled: false, spokenText: "" };
+    send(session.ws, ack);
+    return;
+  }
+
+  const cancelled = !active.finished;
+  active.interrupted = true;
+  active.controller.abort();
+  if (session.currentResponseId === active.id) {
+    session.currentResponseId = null;
+  }
+
+  const spokenText = heardText(active.spoken, position);
+  session.log.info(`✋ Interrupted ${active.id.slice(-8)}${cancelled ? " (in progress)" : ""}: heard "${spokenText}"`);
+
+  if (active.assistantTurn) {
+    // Already in history: truncate it in place and in the database
+    active.assistantTurn.content = spokenText;
+    active.assistantTurn.interrupted = true;
+    active.assistantTurnId?.then(id => {
+      if (id !== null) return markTurnInterrupted(id, spokenText);
+    }).catch(err => {
+      session.log.error("Failed to mark assistant turn interrupted:", err);
+    });
+  } else if (active.userText !== undefined) {
+    // Cut off before the reply was complete: record what was said so far
+    const domain = detectDomain(active.userText);
+    recordExchange(
+      session,
+      active,
+      { role: "user", content: active.userText, domain },
+      { role: "assistant", content: spokenText, domain, interrupted: true }
+    );
+  }
+
+  const ack: InterruptAckMessage = { type: "interrupt_ack", responseId: active.id, cancelled, spokenText };
+  send(session.ws, ack);
+
+  if (cancelled) {
+    session.status = "idle";
+    sendStatus(session.ws, "idle", "neutral", "");
+  }
+}
+
+/**
+ * Handle incoming binary WebSocket message (microphone audio frames)
+ */
+function handleBinaryMessage(session: Session, data: Buffer): void {
+  session.lastActivityTime = Date.now();
+
+  const frame = decodeAudioFrame(data);
+  if (!frame || frame.kind !== "mic" || frame.format !== "pcm16") {
+    session.log.warn(`Unexpected binary message (${data.length} bytes)`);
+    return;
   }
+  // Frames still in flight after stop_listening are dropped
+  session.speechInput?.write(Buffer.from(frame.payload.buffer, frame.payload.byteOffset, frame.payload.byteLength));
+}
+
+/**
+ * Send the greeting: variant for the user, pre-synthesized phrase audio
+ * (no TTS latency), recorded in history as an interruptible response
+ */
+async function sendGreeting(session: Session): Promise<void> {
+  // Personalized greeting if user context is available
+  const nickName = session.userContext?.nickName;
+  const greeting = getGreeting(nickName);
+  if (nickName) {
+    session.log.info(`📋 Personalized greeting for ${nickName}`);
+  } else {
+    session.log.debug("No user context available for personalization");
+  }
+  
+  // Greetings get a responseId so the audio player accepts their audio
+  const responseId = `${session.id}-${Date.now()}`;
+  session.currentResponseId = responseId;
+  sendAssistantMessage(session.ws, greeting.text, greeting.emotion);
+  const greetingTurn: ConversationTurn = { 
+    role: "assistant", 
+    content: greeting.text,
+    domain: "general",
+    emotion: greeting.emotion
+  };
+  session.history.push(greetingTurn);
+  
+  // Save greeting to database (async, don't block)
+  const greetingTurnId = saveConversationTurn(
+    session.id, 
+    greetingTurn, 
+    "general", 
+    session.userId, 
+    session.userName, 
+    session.userToken
+  ).catch(err => {
+    session.log.error("Failed to save greeting to database:", err);
+    return null;
+  });
+
+  // The greeting can be interrupted like any response
+  session.activeResponse?.controller.abort();
+  const active: ActiveResponse = {
+    id: responseId,
+    controller: new AbortController(),
+    spoken: [],
+    assistantTurn: greetingTurn,
+    assistantTurnId: greetingTurnId,
+    finished: false,
+    interrupted: false,
+  };
+  session.activeResponse = active;
+  
+  // Pre-synthesized audio; a personalized greeting not rendered yet is synthesized and stored
+  const ttsOptions = { emotion: greeting.emotion, voice: "female" as const };
+  const stored = getPhraseAudio(greeting.text, ttsOptions);
+  try {
+    const audio = stored ?? await renderPhraseAudio(greeting.text, ttsOptions);
+    if (session.currentResponseId === responseId) {
+      sendAudio(session.ws, session.binaryAudio, {
+        kind: "audio",
+        audio: audio.audio,
+        format: audio.format,
+        responseId,
+      });
+      active.spoken[0] = greeting.text;
+    }
+    session.log.debug(`Greeting sent: "${greeting.text}" (${stored ? "pre-synthesized" : "synthesized"} audio)`);
+  } catch (error) {
+    session.log.error("Failed to synthesize greeting audio:", error);
+  }
+  active.finished = true;
 }
 
 /**
@@ -1333,24 +1583,34 @@ async function handleMessage(session: Session, data: string): Promise<void> {
     switch (message.type) {
       case "text_input": {
         const text = message.text as string;
-        if (text && text.trim()) {
-          const trimmedText = text.trim();
-
-          // Validate message length
-          if (trimmedText.length > MAX_MESSAGE_LENGTH) {
-            session.log.warn(`Message too long: ${trimmedText.length} chars`);
-            sendError(session.ws, `メッセージが長すぎます（最大${MAX_MESSAGE_LENGTH}文字）`);
-            return;
-          }
+        if (text) {
+          await submitUserText(session, text);
+        }
+        break;
+      }
 
-          // Check rate limit
-          if (!checkRateLimit(session)) {
-            session.log.warn("Rate limit exceeded");
-            sendError(session.ws, "リクエストが多すぎます。少し待ってからお試しください。");
-            return;
-          }
+      case "start_listening": {
+        const start = message as StartListeningMessage;
+        startListening(session, start.sampleRate, start.recognize !== false);
+        break;
+      }
+
+      case "stop_listening": {
+        stopListening(session);
+        break;
+      }
+
+      case "interrupt": {
+        const interrupt = message as InterruptMessage;
+        interruptResponse(session, interrupt.responseId, toPlaybackPosition(interrupt.position));
+        break;
+      }
 
-          await processUserInput(session, trimmedText);
+      case "audio_data": {
+        // Microphone audio from clients without binary frames
+        const data = (message as AudioDataMessage).data;
+        if (session.speechInput && typeof data === "string") {
+          session.speechInput.write(Buffer.from(data, "base64"));
         }
         break;
       }
@@ -1362,9 +1622,11 @@ async function handleMessage(session: Session, data: string): Promise<void> {
         
         if (userProfile) {
           const context = userProfileToContext(userProfile);
+          context.memories = await loadMemoryLines(context.userId.toString()).catch(() => undefined);
           session.userId = context.userId.toString();
           session.userName = context.nickName;
           session.userContext = context;
+          prewarmGreeting(context.nickName);
           
           // Update logger to use actual user ID instead of "guest"
           session.log = createUserLogger("WS", session.userId);
@@ -1385,6 +1647,9 @@ async function handleMessage(session: Session, data: string): Promise<void> {
           if (context.interests && context.interests.length > 0) {
             session.log.info(`   - Interests: ${context.interests.join(', ')}`);
           }
+          if (context.memories && context.memories.length > 0) {
+            session.log.info(`   - Memories: ${context.memories.join(', ')}`);
+          }
           
           send(session.ws, { 
             type: "user_info_set", 
@@ -1422,6 +1687,10 @@ async function handleMessage(session: Session, data: string): Promise<void> {
           const history = recordsToTurns(records.reverse());
           
           session.log.info(`✅ Loaded ${history.length} history items`);
+
+          restoreConversationSummary(session, loadMsg.userId).catch(err => {
+            session.log.error("Failed to restore conversation summary:", err);
+          });
           
           // Send history to client
           const historyMsg: HistoryLoadedMessage = {
@@ -1481,39 +1750,7 @@ async function handleMessage(session: Session, data: string): Promise<void> {
 
       case "request_greeting": {
         session.log.info("👋 Greeting requested");
-        
-        // Personalized greeting if user context is available
-        let greeting = "こんにちは！";
-        if (session.userContext?.nickName) {
-          // Use user's nickname for personalized greeting
-          greeting = `やっほー、${session.userContext.nickName}！元気？`;
-          session.log.info(`📋 Personalized greeting for ${session.userContext.nickName}`);
-        } else {
-          session.log.debug("No user context available for personalization");
-        }
-        
-        sendAssistantMessage(session.ws, greeting, "happy");
-        const greetingTurn: ConversationTurn = { 
-          role: "assistant", 
-          content: greeting,
-          domain: "general",
-          emotion: "happy"
-        };
-        session.history.push(greetingTurn);
-        
-        // Save greeting to database (async, don't block)
-        saveConversationTurn(
-          session.id, 
-          greetingTurn, 
-          "general", 
-          session.userId, 
-          session.userName, 
-          session.userToken
-        ).catch(err => {
-          session.log.error("Failed to save greeting to database:", err);
-        });
-        
-        session.log.debug(`Greeting sent: "${greeting}" (text only, no audio)`);
+        await sendGreeting(session);
         break;
       }
 
@@ -1547,6 +1784,14 @@ async function handleMessage(session: Session, data: string): Promise<void> {
         break;
       }
 
+      case "audio_capabilities": {
+        const caps = message as AudioCapabilitiesMessage;
+        session.binaryAudio = caps.binary === true;
+        session.audioStreaming = caps.streaming === true && caps.formats?.includes("pcm16") === true;
+        session.log.info(`🔈 Audio capabilities: binary=${session.binaryAudio}, streaming=${session.audioStreaming}`);
+        break;
+      }
+
       // ================================================================
       // New unified message type (voice_event)
       // Supports the improved communication pattern
@@ -1560,28 +1805,28 @@ async function handleMessage(session: Session, data: string): Promise<void> {
         switch (eventName) {
           case "text_input": {
             const text = voiceEvent.text;
-            if (text && text.trim()) {
-              const trimmedText = text.trim();
-              
-              // Validate message length
-              if (trimmedText.length > MAX_MESSAGE_LENGTH) {
-                session.log.warn(`Message too long: ${trimmedText.length} chars`);
-                sendError(session.ws, `メッセージが長すぎます（最大${MAX_MESSAGE_LENGTH}文字）`);
-                return;
-              }
-              
-              // Check rate limit
-              if (!checkRateLimit(session)) {
-                session.log.warn("Rate limit exceeded");
-                sendError(session.ws, "リクエストが多すぎます。少し待ってからお試しください。");
-                return;
-              }
-              
-              await processUserInput(session, trimmedText);
+            if (text) {
+              await submitUserText(session, text);
             }
             break;
           }
           
+          case "start_listening": {
+            const sampleRate = voiceEvent.params?.sampleRate;
+            startListening(session, typeof sampleRate === "number" ? sampleRate : undefined, voiceEvent.params?.recognize !== false);
+            break;
+          }
+          
+          case "stop_listening": {
+            stopListening(session);
+            break;
+          }
+          
+          case "interrupt": {
+            interruptResponse(session, voiceEvent.responseId, toPlaybackPosition(voiceEvent.params?.position));
+            break;
+          }
+          
           case "set_user_info": {
             // Get random user from database
             session.log.info(`🎲 Fetching random user...`);
@@ -1589,9 +1834,11 @@ async function handleMessage(session: Session, data: string): Promise<void> {
             
             if (userProfile) {
               const context = userProfileToContext(userProfile);
+              context.memories = await loadMemoryLines(context.userId.toString()).catch(() => undefined);
               session.userId = context.userId.toString();
               session.userName = context.nickName;
               session.userContext = context;
+              prewarmGreeting(context.nickName);
               
               session.log = createUserLogger("WS", session.userId);
               setUserId(session.userId);
@@ -1630,6 +1877,10 @@ async function handleMessage(session: Session, data: string): Promise<void> {
               const history = recordsToTurns(records.reverse());
               
               session.log.info(`✅ Loaded ${history.length} history items`);
+
+              restoreConversationSummary(session, userId).catch(err => {
+                session.log.error("Failed to restore conversation summary:", err);
+              });
               
               const historyMsg: HistoryLoadedMessage = {
                 type: "history_loaded",
@@ -1679,31 +1930,7 @@ async function handleMessage(session: Session, data: string): Promise<void> {
           
           case "request_greeting": {
             session.log.info("👋 Greeting requested (voice_event)");
-            
-            let greeting = "こんにちは！";
-            if (session.userContext?.nickName) {
-              greeting = `やっほー、${session.userContext.nickName}！元気？`;
-            }
-            
-            sendAssistantMessage(session.ws, greeting, "happy");
-            const greetingTurn: ConversationTurn = { 
-              role: "assistant", 
-              content: greeting,
-              domain: "general",
-              emotion: "happy"
-            };
-            session.history.push(greetingTurn);
-            
-            saveConversationTurn(
-              session.id, 
-              greetingTurn, 
-              "general", 
-              session.userId, 
-              session.userName, 
-              session.userToken
-            ).catch(err => {
-              session.log.error("Failed to save greeting to database:", err);
-            });
+            await sendGreeting(session);
             break;
           }
           
@@ -1748,6 +1975,7 @@ export function handleConnection(ws: WebSocket): void {
     status: "idle",
     pendingRequest: false,
     currentResponseId: null,
+    activeResponse: null,
     lastActivityTime: now,
     requestCount: 0,
     requestWindowStart: now,
@@ -1755,6 +1983,13 @@ export function handleConnection(ws: WebSocket): void {
     currentDomain: "general",  // Initialize with general domain
     userId: initialUserId,  // Initialize with "guest"
     activeResults: null,  // No active results initially
+    summarizing: false,
+    summarizedTurns: 0,
+    spendLimited: false,
+    spendLimitNotified: false,
+    binaryAudio: false,
+    audioStreaming: false,
+    speechInput: null,
   };
 
   sessions.set(sessionId, session);
@@ -1775,6 +2010,7 @@ export function handleConnection(ws: WebSocket): void {
     type: "connected",
     sessionId,
     message: "ラビットAIに接続しました！",
+    audioFrames: AUDIO_FRAME_OFFER,  // Clients that support it answer with audio_capabilities
   });
 
   // Send initial status
@@ -1784,12 +2020,19 @@ export function handleConnection(ws: WebSocket): void {
   // Frontend will request greeting after history is loaded
 
   // Handle incoming messages
-  ws.on("message", (data) => {
-    handleMessage(session, data.toString());
+  ws.on("message", (data, isBinary) => {
+    if (isBinary) {
+      handleBinaryMessage(session, data as Buffer);  // binaryType "nodebuffer"
+    } else {
+      handleMessage(session, data.toString());
+    }
   });
 
   // Handle close
   ws.on("close", () => {
+    session.speechInput?.abort();
+    session.speechInput = null;
+    session.activeResponse?.controller.abort();
     clearUserId();  // Clear global user ID context
     sessions.delete(sessionId);
     log.info(`Client disconnected: ${sessionId}`);
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { heardText, toPlaybackPosition } from "./playback.js";
+
+const spoken = ["こんにちは。", "今日は晴れだね。", "散歩はどう？"];
+
+describe("heardText", () => {
+  it("is empty without a position or at the very start", () => {
+    expect(heardText(spoken)).toBe("");
+    expect(heardText(spoken, { chunkIndex: 0, offsetMs: 0, durationMs: 1200 })).toBe("");
+  });
+
+  it("includes the played share of the current chunk", () => {
+    expect(heardText(spoken, { chunkIndex: 0, offsetMs: 600, durationMs: 1200 })).toBe("こんに");
+    expect(heardText(spoken, { chunkIndex: 1, offsetMs: 400, durationMs: 1600 })).toBe("こんにちは。今日");
+  });
+
+  it("includes every earlier chunk when the current one has just started", () => {
+    expect(heardText(spoken, { chunkIndex: 2, offsetMs: 0, durationMs: 900 })).toBe("こんにちは。今日は晴れだね。");
+  });
+
+  it("estimates the chunk length from the speaking rate without a duration", () => {
+    // 8 chars ≈ 1040ms
+    expect(heardText(spoken, { chunkIndex: 1, offsetMs: 520 })).toBe("こんにちは。今日は晴");
+    expect(heardText(spoken, { chunkIndex: 1, offsetMs: 520, durationMs: 0 })).toBe("こんにちは。今日は晴");
+  });
+
+  it("clamps offsets outside the chunk", () => {
+    expect(heardText(spoken, { chunkIndex: 0, offsetMs: 5000, durationMs: 1200 })).toBe("こんにちは。");
+    expect(heardText(spoken, { chunkIndex: 1, offsetMs: -100, durationMs: 1200 })).toBe("こんにちは。");
+  });
+
+  it("stops at the last chunk sent", () => {
+    expect(heardText(spoken, { chunkIndex: 5, offsetMs: 300 })).toBe(spoken.join(""));
+    expect(heardText([], { chunkIndex: 0, offsetMs: 300 })).toBe("");
+  });
+});
+
+describe("toPlaybackPosition", () => {
+  it("keeps well-formed positions", () => {
+    expect(toPlaybackPosition({ chunkIndex: 1, offsetMs: 250, durationMs: 900 })).toEqual({ chunkIndex: 1, offsetMs: 250, durationMs: 900 });
+    expect(toPlaybackPosition({ chunkIndex: 0, offsetMs: 0, durationMs: "900" })).toEqual({ chunkIndex: 0, offsetMs: 0, durationMs: undefined });
+  });
+
+  it("ignores malformed positions", () => {
+    expect(toPlaybackPosition(undefined)).toBeUndefined();
+    expect(toPlaybackPosition("1:250")).toBeUndefined();
+    expect(toPlaybackPosition({ chunkIndex: "1", offsetMs: 250 })).toBeUndefined();
+    expect(toPlaybackPosition({ chunkIndex: 1 })).toBeUndefined();
+  });
+});
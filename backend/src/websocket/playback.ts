@@ -0,0 +1,39 @@
+/**
+ * Barge-in Playback
+ *
+ * How much of an interrupted response the user actually heard, from the
+ * playback position the client reports with "interrupt".
+ */
+
+import type { PlaybackPosition } from "../types/index.js";
+
+const SPEECH_MS_PER_CHAR = 130;  // Speaking rate, for interrupt positions without a chunk duration
+
+/**
+ * Text the user heard before cutting in: every chunk before the playing one,
+ * plus the played share of that chunk (assuming an even speaking rate)
+ */
+export function heardText(spoken: string[], position?: PlaybackPosition): string {
+  if (!position) return "";
+  const { chunkIndex, offsetMs, durationMs } = position;
+  const before = spoken.slice(0, chunkIndex).join("");
+  const current = spoken[chunkIndex] ?? "";
+  const total = durationMs && durationMs > 0 ? durationMs : current.length * SPEECH_MS_PER_CHAR;
+  const share = total > 0 ? Math.min(Math.max(offsetMs / total, 0), 1) : 0;
+  return before + current.slice(0, Math.round(current.length * share));
+}
+
+/**
+ * Position from an interrupt message (client input: ignored unless well-formed)
+ */
+export function toPlaybackPosition(value: unknown): PlaybackPosition | undefined {
+  const position = value as Partial<PlaybackPosition> | undefined;
+  if (typeof position?.chunkIndex !== "number" || typeof position.offsetMs !== "number") {
+    return undefined;
+  }
+  return {
+    chunkIndex: position.chunkIndex,
+    offsetMs: position.offsetMs,
+    durationMs: typeof position.durationMs === "number" ? position.durationMs : undefined,
+  };
+}
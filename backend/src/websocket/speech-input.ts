@@ -0,0 +1,155 @@
+/**
+ * Speech Input
+ *
+ * Microphone audio of one listening session (start_listening → stop_listening).
+ * Voice activity detection splits it into utterances (speech_start /
+ * speech_end). With recognition on, each utterance gets its own recognition
+ * stream, fed from a little before speech_start (pre-roll) until speech_end;
+ * its finals are delivered together once the recognizer has finished, so an
+ * utterance is submitted when the user stops speaking, not on the first final.
+ */
+
+import { config } from "../config/index.js";
+import {
+  createVoiceActivityDetector,
+  startRecognition,
+  type RecognitionStream,
+  type VADEvent,
+} from "../services/stt/index.js";
+
+export interface SpeechInputHandlers {
+  onSpeechStart(event: Extract<VADEvent, { type: "speech_start" }>): void;
+  onSpeechEnd(event: Extract<VADEvent, { type: "speech_end" }>): void;
+  /** Recognition results as they arrive (partials and finals) */
+  onTranscript(text: string, isFinal: boolean): void;
+  /** Final text of a whole utterance, after speech_end */
+  onUtterance(text: string): void;
+  onError(error: Error): void;
+}
+
+export interface SpeechInput {
+  write(pcm: Buffer): void;
+  /** No more audio: closes the utterance in progress (its text still arrives) */
+  end(): void;
+  /** Stop immediately, without further callbacks */
+  abort(): void;
+}
+
+/**
+ * Create the speech input for one listening session
+ * recognize=false only detects speech boundaries (the client recognizes itself)
+ */
+export function createSpeechInput(
+  options: { sampleRate: number; recognize: boolean },
+  handlers: SpeechInputHandlers
+): SpeechInput {
+  const { sampleRate, recognize } = options;
+  const vad = createVoiceActivityDetector({ sampleRate, ...config.vad });
+  const prerollBytes = Math.round(config.vad.prerollMs * sampleRate / 1000) * 2;
+
+  let preroll: Buffer[] = [];
+  let prerollLength = 0;
+  let recognition: RecognitionStream | null = null;  // Utterance being spoken
+  const finishing = new Set<RecognitionStream>();    // Utterances waiting for their finals
+  let closed = false;
+
+  function rememberPreroll(pcm: Buffer): void {
+    preroll.push(pcm);
+    prerollLength += pcm.length;
+    while (preroll.length > 1 && prerollLength - preroll[0].length >= prerollBytes) {
+      prerollLength -= preroll.shift()!.length;
+    }
+  }
+
+  function startUtterance(): void {
+    const audio = preroll;
+    preroll = [];
+    prerollLength = 0;
+    if (!recognize) return;
+
+    const finals: string[] = [];
+    let stream: RecognitionStream;
+    try {
+      stream = startRecognition({
+        onTranscript: (text, isFinal) => {
+          if (isFinal) finals.push(text);
+          handlers.onTranscript(text, isFinal);
+        },
+        onError: (error) => {
+          finishing.delete(stream);
+          if (recognition === stream) recognition = null;
+          handlers.onError(error);
+        },
+        onEnd: () => {
+          finishing.delete(stream);
+          if (recognition === stream) recognition = null;
+          const text = finals.join("").trim();
+          if (text) handlers.onUtterance(text);
+        },
+      }, { sampleRate });
+    } catch (error) {
+      handlers.onError(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    recognition = stream;
+    for (const pcm of audio) stream.write(pcm);
+  }
+
+  function endUtterance(): void {
+    if (!recognition) return;
+    finishing.add(recognition);
+    recognition.end();
+    recognition = null;
+  }
+
+  function handle(event: VADEvent): void {
+    if (event.type === "speech_start") {
+      handlers.onSpeechStart(event);
+      startUtterance();
+    } else {
+      handlers.onSpeechEnd(event);
+      endUtterance();
+    }
+  }
+
+  return {
+    write(pcm: Buffer): void {
+      if (closed) return;
+
+      // The recognizer gets this audio once, whichever boundary it contains
+      let written = false;
+      for (const event of vad.process(pcm)) {
+        if (event.type === "speech_end" && !written) {
+          recognition?.write(pcm);
+          written = true;
+        }
+        handle(event);
+        if (event.type === "speech_start") {
+          recognition?.write(pcm);
+          written = true;
+        }
+      }
+
+      if (vad.speaking) {
+        if (!written) recognition?.write(pcm);
+      } else if (recognize) {
+        rememberPreroll(pcm);
+      }
+    },
+
+    end(): void {
+      if (closed) return;
+      closed = true;
+      for (const event of vad.flush()) handle(event);
+    },
+
+    abort(): void {
+      closed = true;
+      recognition?.abort();
+      recognition = null;
+      for (const stream of finishing) stream.abort();
+      finishing.clear();
+    },
+  };
+}
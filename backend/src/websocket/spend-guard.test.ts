@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from "vitest";
+import { WebSocket } from "ws";
+
+vi.mock("../services/spend-limit.js", () => ({
+  checkSpendLimit: vi.fn(),
+}));
+
+const { checkSessionSpend } = await import("./spend-guard.js");
+const { checkSpendLimit } = await import("../services/spend-limit.js");
+
+function createSession() {
+  return {
+    id: "s1",
+    ws: { readyState: WebSocket.OPEN, send: vi.fn() } as unknown as WebSocket,
+    userId: "guest",
+    spendLimited: false,
+    spendLimitNotified: false,
+    log: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  };
+}
+
+function sentMessages(session: ReturnType<typeof createSession>) {
+  return vi.mocked(session.ws.send).mock.calls.map(([data]) => JSON.parse(String(data)));
+}
+
+describe("checkSessionSpend", () => {
+  it("leaves the session alone under the limit", async () => {
+    vi.mocked(checkSpendLimit).mockResolvedValueOnce({ limited: false, spentUsd: 0.2, limitUsd: 1 });
+    const session = createSession();
+
+    await checkSessionSpend(session);
+
+    expect(checkSpendLimit).toHaveBeenCalledWith({ sessionId: "s1", userId: "guest" });
+    expect(session.spendLimited).toBe(false);
+    expect(session.ws.send).not.toHaveBeenCalled();
+  });
+
+  it("switches to economy mode and sends RATE_LIMIT only once", async () => {
+    const limited = { limited: true, scope: "user" as const, spentUsd: 1.2, limitUsd: 1 };
+    vi.mocked(checkSpendLimit).mockResolvedValue(limited);
+    const session = createSession();
+
+    expect(await checkSessionSpend(session)).toEqual(limited);
+    await checkSessionSpend(session);
+
+    expect(session.spendLimited).toBe(true);
+    const errors = sentMessages(session);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ type: "error", error: { code: "RATE_LIMIT", recoverable: true } });
+
+    // Back under the limit (next day): economy mode ends, no new error
+    vi.mocked(checkSpendLimit).mockResolvedValue({ limited: false, spentUsd: 0, limitUsd: 1 });
+    await checkSessionSpend(session);
+    expect(session.spendLimited).toBe(false);
+    expect(sentMessages(session)).toHaveLength(1);
+  });
+
+  it("skips the error when the socket is closed", async () => {
+    vi.mocked(checkSpendLimit).mockResolvedValue({ limited: true, scope: "global", spentUsd: 12, limitUsd: 10 });
+    const session = createSession();
+    Object.assign(session.ws, { readyState: WebSocket.CLOSED });
+
+    await checkSessionSpend(session);
+
+    expect(session.spendLimited).toBe(true);
+    expect(session.ws.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Spend Guard
+ *
+ * Per-turn daily spend limit check for a session. Once a limit is reached the
+ * session switches to economy mode (instant/cached answers, no tools, short
+ * replies) and the client gets a RATE_LIMIT error the first time only.
+ */
+
+import { WebSocket } from "ws";
+import { checkSpendLimit, type SpendStatus } from "../services/spend-limit.js";
+import type { createUserLogger } from "../utils/logger.js";
+import type { ErrorMessage } from "../types/index.js";
+
+const SPEND_LIMIT_MESSAGE = "今日はたくさんお話ししたので、しばらく短めのお返事になります。";
+
+/**
+ * Session fields the guard reads and updates
+ */
+export interface SpendGuardSession {
+  id: string;
+  ws: WebSocket;
+  userId?: string;
+  spendLimited: boolean;
+  spendLimitNotified: boolean;
+  log: ReturnType<typeof createUserLogger>;
+}
+
+/**
+ * Check the spend limit before a turn and flag the session for economy mode
+ */
+export async function checkSessionSpend(session: SpendGuardSession): Promise<SpendStatus> {
+  const spend = await checkSpendLimit({ sessionId: session.id, userId: session.userId });
+  session.spendLimited = spend.limited;
+
+  if (spend.limited) {
+    session.log.warn(`💸 Daily ${spend.scope} spend limit reached ($${spend.spentUsd.toFixed(4)} / $${spend.limitUsd}), economy mode`);
+    if (!session.spendLimitNotified) {
+      session.spendLimitNotified = true;
+      const message: ErrorMessage = {
+        type: "error",
+        timestamp: Date.now(),
+        error: { code: "RATE_LIMIT", message: SPEND_LIMIT_MESSAGE, recoverable: true },
+      };
+      if (session.ws.readyState === WebSocket.OPEN) {
+        session.ws.send(JSON.stringify(message));
+      }
+    }
+  }
+
+  return spend;
+}
@@ -1,4 +1,5 @@
 import type { Metadata, Viewport } from "next";
+import Script from "next/script";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -34,7 +35,7 @@ export default function RootLayout({
         <link rel="apple-touch-icon" href="/icons/apple-touch-icon.png" />
         {/* Suppress Next.js 15 development warnings */}
         {process.env.NODE_ENV === 'development' && (
-          <script src="/suppress-warnings.js" />
+          <Script src="/suppress-warnings.js" strategy="beforeInteractive" />
         )}
       </head>
       <body>{children}</body>
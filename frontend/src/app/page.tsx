@@ -1,19 +1,19 @@
 "use client";
 
-import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import { useAudioPlayer } from "@/hooks/useAudioPlayer";
 import { useAWSTranscribe } from "@/hooks/useAWSTranscribe";
 import { useWaitingPhrase } from "@/hooks/useWaitingPhrase";
 import { RabbitAvatar, ChatHistory, ChatInput, WorkflowTimingDisplay, SearchResultsPanel } from "@/components";
 import { createLogger } from "@/utils/logger";
-import { unlockAudio, preloadWaitingSounds, setupVisibilityHandler } from "@/utils/audioUnlock";
+import { unlockAudio, preloadWaitingSounds, setupVisibilityHandler, type EncodedAudio } from "@/utils/audioUnlock";
 import { shouldPlayWaitingPhrase } from "@/utils/keywordDetection";
 import { detectCommand } from "@/utils/voiceCommands";
 import { executeCommand, type CommandContext } from "@/utils/commandExecutor";
 import archiveStorage from "@/utils/archiveStorage";
 import { toHiragana, preloadConverter } from "@/utils/hiraganaConverter";
-import type { ConversationStatus, DomainType, ArchiveItemInfo, SearchResults } from "@/types";
+import type { ConversationStatus, DomainType, ArchiveItemInfo, SearchResults, AudioFrame } from "@/types";
 import styles from "./page.module.css";
 
 const log = createLogger("Page");
@@ -30,12 +30,6 @@ const AWS_TRANSCRIBE_CONFIG = {
   useSTS: true, // Fetch temporary credentials from backend
 };
 
-// Minimum characters required for final barge-in submission
-const BARGE_IN_MIN_CHARS = parseInt(process.env.NEXT_PUBLIC_BARGE_IN_MIN_CHARS || "5", 10);
-
-// Minimum characters for early barge-in detection (using partial transcripts)
-const EARLY_BARGE_IN_MIN_CHARS = parseInt(process.env.NEXT_PUBLIC_EARLY_BARGE_IN_MIN_CHARS || "2", 10);
-
 export default function Home() {
   // Unlock AudioContext on first user gesture (required for iOS Safari)
   // and preload waiting sounds into AudioBuffer cache
@@ -85,13 +79,19 @@ export default function Home() {
   // Numbered selection state: which card is currently selected/focused
   const [selectedResultIndex, setSelectedResultIndex] = useState<number | null>(null);
 
-  // Track if early barge-in was triggered (reset on final transcript)
-  const earlyBargeInTriggeredRef = useRef(false);
+  // Speech boundaries from the backend VAD (speech_start / speech_end) drive barge-in and submit timing
+  // idle: no speech since the last submit, speaking: after speech_start,
+  // ended: after speech_end, the final transcript is still on its way
+  const utteranceStateRef = useRef<"idle" | "speaking" | "ended">("idle");
+  const pendingTranscriptRef = useRef<string[]>([]);  // Finals of the current utterance
+  // useWebSocket keeps its first handlers, so speech events go through this ref
+  const speechHandlersRef = useRef({ onSpeechStart: () => {}, onSpeechEnd: () => {} });
 
   // Queue for audio that arrives while short-waiting is still playing
   const pendingAudioQueueRef = useRef<Array<
-    | { type: 'full'; audioData: string; format: string; responseId?: string; isProtected?: boolean }
-    | { type: 'chunk'; data: string; format: string; index: number; total: number; isLast: boolean; responseId?: string }
+    | { type: 'full'; audioData: EncodedAudio; format: string; responseId?: string; isProtected?: boolean }
+    | { type: 'chunk'; data: EncodedAudio; format: string; index: number; total: number; isLast: boolean; responseId?: string }
+    | { type: 'frame'; frame: AudioFrame }
   >>([]);
 
   // Flush pending audio queue — called when short-waiting finishes + delay
@@ -105,6 +105,8 @@ export default function Home() {
     for (const item of queue) {
       if (item.type === 'full') {
         audioPlayer.play(item.audioData, item.format, item.responseId, item.isProtected);
+      } else if (item.type === 'frame') {
+        audioPlayer.playStreamFrame(item.frame);
       } else {
         audioPlayer.playChunk(item);
       }
@@ -124,7 +126,7 @@ export default function Home() {
 
   // Handle full audio from WebSocket (greeting, long_waiting, sequential TTS)
   const handleAudio = useCallback(
-    (audioData: string, format: string, responseId?: string, isProtected?: boolean) => {
+    (audioData: EncodedAudio, format: string, responseId?: string, isProtected?: boolean) => {
       log.debug(`🔊 Received full audio (responseId: ${responseId?.slice(-8) || "none"}, protected: ${isProtected || false})`);
 
       // If short-waiting is playing (or in post-delay), queue this audio
@@ -141,7 +143,7 @@ export default function Home() {
 
   // Handle audio chunks for parallel TTS streaming
   const handleAudioChunk = useCallback(
-    (chunk: { data: string; format: string; index: number; total: number; isLast: boolean; responseId?: string }) => {
+    (chunk: { data: EncodedAudio; format: string; index: number; total: number; isLast: boolean; responseId?: string }) => {
       // If short-waiting is playing (or in post-delay), queue ALL chunks
       if (waitingPhrase.isWaitingPhrasePlaying()) {
         log.debug(`⏳ Short-waiting active - queueing chunk ${chunk.index}/${chunk.total}`);
@@ -154,6 +156,20 @@ export default function Home() {
     [audioPlayer, waitingPhrase]
   );
 
+  // Handle binary PCM frames for streaming TTS
+  const handleAudioFrame = useCallback(
+    (frame: AudioFrame) => {
+      // If short-waiting is playing (or in post-delay), queue ALL frames
+      if (waitingPhrase.isWaitingPhrasePlaying()) {
+        pendingAudioQueueRef.current.push({ type: 'frame', frame });
+        return;
+      }
+
+      audioPlayer.playStreamFrame(frame);
+    },
+    [audioPlayer, waitingPhrase]
+  );
+
   // Handle item focused from backend (voice number selection "2番")
   const handleItemFocused = useCallback((index: number, itemId: string, domain: DomainType, itemTitle: string) => {
     log.info(`🔢 Item focused from voice: ${index + 1}番 "${itemTitle}"`);
@@ -171,6 +187,10 @@ export default function Home() {
     userId,
     historyLoaded,
     sendMessage: wsSendMessage,
+    sendAudioData: wsSendAudioData,
+    startListening: wsStartListening,
+    stopListening: wsStopListening,
+    sendInterrupt: wsSendInterrupt,
     requestRandomUser,
     loadHistory,
     requestGreeting,
@@ -180,11 +200,14 @@ export default function Home() {
     url: WS_URL,
     onAudio: handleAudio,
     onAudioChunk: handleAudioChunk,
+    onAudioFrame: handleAudioFrame,
     onBackendResponse: () => {
       // Backend responded - cancel waiting timer if still waiting
       waitingPhrase.cancelWaitingTimer();
     },
     onItemFocused: handleItemFocused,
+    onSpeechStart: () => speechHandlersRef.current.onSpeechStart(),
+    onSpeechEnd: () => speechHandlersRef.current.onSpeechEnd(),
   });
 
   // Save to archive - archiveStorage handles state, ChatHistory uses useArchiveStorage hook
@@ -431,7 +454,49 @@ export default function Home() {
     }
   }, [wsSendMessage, audioPlayer, waitingPhrase, userId, handleSaveToArchive, messages, selectedResultIndex]);
 
+  // Submit the finals of the current utterance
+  const submitUtterance = useCallback(() => {
+    const text = pendingTranscriptRef.current.join("").trim();
+    pendingTranscriptRef.current = [];
+    utteranceStateRef.current = "idle";
+    if (!text) return;
+
+    // Send to sendMessage - it will handle command detection and hiragana conversion
+    log.debug(`✅ Submitting: "${text}"`);
+    sendMessage(text).catch((err) => {
+      log.error("Failed to send message:", err);
+    });
+  }, [sendMessage]);
+
+  useEffect(() => {
+    speechHandlersRef.current = {
+      onSpeechStart: () => {
+        setVoiceDetected(true);
+        utteranceStateRef.current = "speaking";
+
+        // BARGE-IN: the user is actually speaking (not just noise)
+        // The server cancels the response and keeps only what was heard of it
+        if (audioPlayer.isPlaying || wsStatus === "speaking") {
+          log.debug("🔇 BARGE-IN: Speech started, stopping audio");
+          const playback = audioPlayer.getPlaybackPosition();
+          audioPlayer.cancelAllAudio();
+          wsSendInterrupt(playback?.responseId, playback?.position);
+        }
+      },
+      onSpeechEnd: () => {
+        setVoiceDetected(false);
+        if (pendingTranscriptRef.current.length > 0) {
+          submitUtterance();
+        } else {
+          utteranceStateRef.current = "ended";  // Submit when the final arrives
+        }
+      },
+    };
+  }, [audioPlayer, wsStatus, wsSendInterrupt, submitUtterance]);
+
   // AWS Transcribe for voice input
+  // Recognition runs in the browser; the captured audio also goes to the backend,
+  // which only detects speech boundaries (start_listening with recognize=false)
   const transcribe = useAWSTranscribe({
     config: AWS_TRANSCRIBE_CONFIG,
     // Auto-refresh session every 5 minutes to maintain quality
@@ -439,56 +504,41 @@ export default function Home() {
     sessionRefreshInterval: 5 * 60 * 1000, // 5 minutes
     inactivityTimeout: 10000, // 10 seconds
     stopOnTabHidden: true,
+    onStart: useCallback(() => {
+      utteranceStateRef.current = "idle";
+      pendingTranscriptRef.current = [];
+      wsStartListening(AWS_TRANSCRIBE_CONFIG.sampleRate, false);
+    }, [wsStartListening]),
+    onStop: useCallback(() => {
+      wsStopListening();
+      setVoiceDetected(false);
+    }, [wsStopListening]),
+    onAudioData: useCallback((data: Uint8Array) => {
+      wsSendAudioData(data.slice().buffer);
+    }, [wsSendAudioData]),
     onTranscript: useCallback((text: string, isFinal: boolean) => {
       log.debug(`📝 Transcript ${isFinal ? "(final)" : "(interim)"}:`, text);
 
       const trimmedText = text.trim();
+      if (!isFinal || !trimmedText) return;
 
-      // EARLY BARGE-IN: Stop audio when we detect speech
-      if (!isFinal && trimmedText.length >= EARLY_BARGE_IN_MIN_CHARS) {
-        if ((audioPlayer.isPlaying || wsStatus === "speaking") && !earlyBargeInTriggeredRef.current) {
-          log.debug(`🟡 EARLY BARGE-IN: Stopping audio (${trimmedText.length} chars detected)`);
-          audioPlayer.cancelAllAudio();
-          earlyBargeInTriggeredRef.current = true;
-        }
+      // No speech_start since the last submit: noise or the assistant's own voice
+      if (utteranceStateRef.current === "idle") {
+        log.debug(`⏭️ No speech detected, ignoring transcript: "${trimmedText}"`);
+        return;
       }
 
-      // FINAL: Submit transcript
-      if (isFinal && trimmedText) {
-        earlyBargeInTriggeredRef.current = false;
-
-        if (trimmedText.length < BARGE_IN_MIN_CHARS) {
-          log.debug(`⏭️ Transcript too short (${trimmedText.length} chars), ignoring`);
-          return;
-        }
-
-        // Regular barge-in if early wasn't triggered
-        if (audioPlayer.isPlaying || wsStatus === "speaking") {
-          log.debug("🔇 REGULAR BARGE-IN: Stopping audio");
-          audioPlayer.cancelAllAudio();
-        }
-
-        // Send to sendMessage - it will handle command detection and hiragana conversion
-        log.debug(`✅ Submitting: "${trimmedText}"`);
-        sendMessage(trimmedText).catch((err) => {
-          log.error("Failed to send message:", err);
-        });
+      pendingTranscriptRef.current.push(trimmedText);
+      // Speech already ended: this was the last piece
+      if (utteranceStateRef.current === "ended") {
+        submitUtterance();
       }
-    }, [audioPlayer, wsStatus, sendMessage]),
+    }, [submitUtterance]),
     onError: useCallback((err: Error) => {
       log.error("AWS Transcribe error:", err);
     }, []),
   });
 
-  // VAD for visual feedback
-  const checkVoiceActivity = useCallback(() => {
-    setVoiceDetected(transcribe.interimTranscript.length > 0);
-  }, [transcribe.interimTranscript]);
-
-  React.useEffect(() => {
-    checkVoiceActivity();
-  }, [checkVoiceActivity]);
-
   // Compute focused item info for the focus strip in chat section
   const focusedItem = useMemo(() => {
     if (selectedResultIndex === null) return null;
@@ -562,6 +612,7 @@ export default function Home() {
             userId={userId}
             onSaveToArchive={handleSaveToArchive}
             textOnly={true}
+            onFollowUp={isConnected ? sendMessage : undefined}
           />
           {/* Focus strip - shows when an item is selected via voice/touch */}
           {focusedItem && (
@@ -1,8 +1,10 @@
 "use client";
 
 import React, { useEffect, useRef, memo, useCallback, useMemo } from "react";
-import type { ChatMessage, DomainType, SearchResults as SearchResultsType } from "@/types";
+import type { ChatMessage, DomainType, FriendRecommendation, SearchResults as SearchResultsType } from "@/types";
 import { useArchiveStorage } from "@/hooks/useArchiveStorage";
+import { FriendRecommendationList } from "./FriendRecommendationList";
+import { FollowUpChips } from "./FollowUpChips";
 import styles from "./ChatHistory.module.css";
 
 interface ChatHistoryProps {
@@ -11,6 +13,8 @@ interface ChatHistoryProps {
   onSaveToArchive?: (userId: string, domain: DomainType, itemId: string, itemTitle?: string, itemData?: Record<string, unknown>) => void;
   /** If true, show only text messages (hide search results) */
   textOnly?: boolean;
+  /** Called when a follow-up chip is tapped (chips are hidden without it) */
+  onFollowUp?: (text: string) => void;
 }
 
 function formatTime(date: Date): string {
@@ -20,6 +24,12 @@ function formatTime(date: Date): string {
   });
 }
 
+// Recommendations carried by a friend_match component, if any
+function getRecommendations(message: ChatMessage): FriendRecommendation[] | undefined {
+  const data = message.component?.type === "friend_match" ? message.component.data : null;
+  return data && "recommendations" in data ? data.recommendations : undefined;
+}
+
 // Memoized message item - only re-renders when content/isSaved changes
 interface MessageItemProps {
   messageId: string;
@@ -30,7 +40,10 @@ interface MessageItemProps {
   canSave: boolean;
   onSave: () => void;
   searchResults?: SearchResultsType;
+  recommendations?: FriendRecommendation[];
   textOnly?: boolean;
+  followUps?: string[];
+  onFollowUp?: (text: string) => void;
 }
 
 const MessageItem = memo(
@@ -42,8 +55,15 @@ const MessageItem = memo(
     canSave, 
     onSave, 
     searchResults,
+    recommendations,
     textOnly = false,
+    followUps,
+    onFollowUp,
   }: MessageItemProps) {
+    const chips = followUps && onFollowUp
+      ? <FollowUpChips followUps={followUps} onSelect={onFollowUp} />
+      : null;
+
     // Check if this is a movie/gourmet message with search results
     const hasSearchResults = role === "assistant" && searchResults && searchResults.total > 0;
 
@@ -59,6 +79,7 @@ const MessageItem = memo(
               {content || (searchResults.type === "movie" ? "🎬 映画の検索結果があります →" : "🍽️ グルメの検索結果があります →")}
             </span>
           </div>
+          {chips}
           <div className={styles.timestamp}>{formatTime(timestamp)}</div>
         </div>
       );
@@ -84,6 +105,8 @@ const MessageItem = memo(
             </button>
           )}
         </div>
+        {recommendations && <FriendRecommendationList recommendations={recommendations} />}
+        {chips}
         <div className={styles.timestamp}>{formatTime(timestamp)}</div>
       </div>
     );
@@ -96,6 +119,9 @@ const MessageItem = memo(
     prev.canSave === next.canSave &&
     prev.role === next.role &&
     prev.textOnly === next.textOnly &&
+    prev.recommendations === next.recommendations &&
+    prev.followUps === next.followUps &&
+    prev.onFollowUp === next.onFollowUp &&
     prev.searchResults?.total === next.searchResults?.total &&
     prev.searchResults?.type === next.searchResults?.type
   )
@@ -104,7 +130,7 @@ const MessageItem = memo(
 // Empty handler for messages without archive capability
 const noopHandler = () => {};
 
-export function ChatHistory({ messages, userId, onSaveToArchive, textOnly = false }: ChatHistoryProps) {
+export function ChatHistory({ messages, userId, onSaveToArchive, textOnly = false, onFollowUp }: ChatHistoryProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
   // Cache handlers by itemId to maintain referential stability
   const handlerCacheRef = useRef<Map<string, () => void>>(new Map());
@@ -194,6 +220,9 @@ export function ChatHistory({ messages, userId, onSaveToArchive, textOnly = fals
     }
   }, [messages.length, uniqueMessages.length]);
 
+  // Follow-ups only apply to the latest reply
+  const lastMessage = uniqueMessages[uniqueMessages.length - 1];
+
   if (messages.length === 0) {
     return (
       <div className={styles.container}>
@@ -237,13 +266,16 @@ export function ChatHistory({ messages, userId, onSaveToArchive, textOnly = fals
             key={message.id}
             messageId={message.id}
             role={message.role}
-            content={message.content}
+            content={message.displayText ?? message.content}
             timestamp={message.timestamp}
             isSaved={itemIsSaved}
             canSave={canSave}
             onSave={handleSave}
             searchResults={message.searchResults}
+            recommendations={getRecommendations(message)}
             textOnly={textOnly}
+            followUps={message === lastMessage ? message.followUps : undefined}
+            onFollowUp={onFollowUp}
           />
         );
       })}
@@ -0,0 +1,34 @@
+"use client";
+
+import React, { memo } from "react";
+import styles from "./FollowUpChips.module.css";
+
+interface FollowUpChipsProps {
+  followUps: string[];
+  onSelect: (text: string) => void;
+}
+
+/**
+ * Suggested next messages under the latest assistant message
+ * Tapping a chip sends it like typed input (local commands included)
+ */
+export const FollowUpChips = memo(
+  function FollowUpChips({ followUps, onSelect }: FollowUpChipsProps) {
+    if (followUps.length === 0) return null;
+
+    return (
+      <div className={styles.container}>
+        {followUps.map((text) => (
+          <button
+            key={text}
+            type="button"
+            className={styles.chip}
+            onClick={() => onSelect(text)}
+          >
+            {text}
+          </button>
+        ))}
+      </div>
+    );
+  }
+);
@@ -0,0 +1,46 @@
+"use client";
+
+import React, { memo } from "react";
+import type { FriendRecommendation } from "@/types";
+import styles from "./FriendRecommendationList.module.css";
+
+interface FriendRecommendationListProps {
+  recommendations: FriendRecommendation[];
+}
+
+// Max friend names shown per item
+const MAX_FRIEND_NAMES = 3;
+
+/**
+ * Items saved by users with similar archives (friend_match component)
+ */
+export const FriendRecommendationList = memo(
+  function FriendRecommendationList({ recommendations }: FriendRecommendationListProps) {
+    if (recommendations.length === 0) return null;
+
+    return (
+      <div className={styles.container}>
+        <p className={styles.title}>
+          <span className={styles.icon}>👥</span>
+          似た好みの人が保存しています
+        </p>
+        <ol className={styles.list}>
+          {recommendations.map((rec) => {
+            const names = rec.friends.slice(0, MAX_FRIEND_NAMES).map((f) => `${f.name}さん`).join("、");
+            const more = rec.friends.length > MAX_FRIEND_NAMES ? ` ほか${rec.friends.length - MAX_FRIEND_NAMES}人` : "";
+
+            return (
+              <li key={`${rec.domain}:${rec.itemId}`} className={styles.item}>
+                <span className={styles.domainIcon}>{rec.domain === "movie" ? "🎬" : "🍽️"}</span>
+                <div className={styles.itemBody}>
+                  <span className={styles.itemTitle}>{rec.itemTitle}</span>
+                  <span className={styles.friends}>{names}{more}</span>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    );
+  }
+);
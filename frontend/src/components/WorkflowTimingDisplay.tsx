@@ -8,6 +8,7 @@ interface WorkflowStep {
   name: string;
   nameJa: string;
   durationMs: number;
+  details?: Record<string, unknown>;
 }
 
 interface WorkflowTiming {
@@ -29,6 +30,8 @@ const STEP_ICONS: Record<string, string> = {
   STEP2_WEBSOCKET_SEND: "📡",
   STEP3_BACKEND_START: "⚡",
   STEP4_LLM_REQUEST: "🤖",
+  STEP5_DB_SEARCH: "🔍",
+  STEP6_LLM_RESPONSE: "💬",
   STEP7_TEXT_RESPONSE: "📝",
   STEP8_TTS_SYNTHESIS: "🔊",
   STEP9_AUDIO_SEND: "📤",
@@ -41,6 +44,8 @@ const STEP_COLORS: Record<string, string> = {
   STEP2_WEBSOCKET_SEND: "#6366f1",
   STEP3_BACKEND_START: "#8b5cf6",
   STEP4_LLM_REQUEST: "#ec4899",
+  STEP5_DB_SEARCH: "#0ea5e9",
+  STEP6_LLM_RESPONSE: "#d946ef",
   STEP7_TEXT_RESPONSE: "#14b8a6",
   STEP8_TTS_SYNTHESIS: "#f59e0b",
   STEP9_AUDIO_SEND: "#10b981",
@@ -56,6 +61,24 @@ function getTimingColor(ms: number): string {
   return "#ef4444";
 }
 
+/**
+ * Step label, with tool names for tool loop steps (e.g. "データベース検索 #2 (search_movies)")
+ * and TTS cache hits for the TTS step (e.g. "TTS音声合成 (キャッシュ 2/3)")
+ */
+function formatStepName(step: WorkflowStep): string {
+  const iteration = step.details?.iteration;
+  const tools = step.details?.tools;
+  const cacheHits = step.details?.cacheHits;
+  const cacheMisses = step.details?.cacheMisses;
+  if (typeof cacheHits === "number" && typeof cacheMisses === "number") {
+    return `${step.nameJa} (キャッシュ ${cacheHits}/${cacheHits + cacheMisses})`;
+  }
+  if (typeof iteration !== "number" || !Array.isArray(tools)) {
+    return step.nameJa;
+  }
+  return `${step.nameJa} #${iteration} (${tools.join(", ")})`;
+}
+
 function formatDuration(ms: number): string {
   if (ms < 1) return "<1ms";
   if (ms < 1000) return `${Math.round(ms)}ms`;
@@ -138,7 +161,7 @@ export function WorkflowTimingDisplay({ timing }: WorkflowTimingDisplayProps) {
                 width: `${Math.max(step.widthPercent, 2)}%`,
                 backgroundColor: STEP_COLORS[step.step] || getTimingColor(step.durationMs),
               }}
-              title={`${step.nameJa}: ${formatDuration(step.durationMs)}`}
+              title={`${formatStepName(step)}: ${formatDuration(step.durationMs)}`}
             />
           ))}
         </div>
@@ -155,7 +178,7 @@ export function WorkflowTimingDisplay({ timing }: WorkflowTimingDisplayProps) {
           return (
             <div key={index} className={styles.step}>
               <span className={styles.stepIcon}>{STEP_ICONS[step.step] || "•"}</span>
-              <span className={styles.stepName}>{step.nameJa}</span>
+              <span className={styles.stepName}>{formatStepName(step)}</span>
               <div className={styles.stepBar}>
                 <div
                   className={styles.stepBarFill}
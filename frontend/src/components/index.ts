@@ -6,3 +6,5 @@ export { WorkflowTimingDisplay } from "./WorkflowTimingDisplay";
 export { MovieCard } from "./MovieCard";
 export { GourmetCard } from "./GourmetCard";
 export { SearchResultsPanel } from "./SearchResultsPanel";
+export { FriendRecommendationList } from "./FriendRecommendationList";
+export { FollowUpChips } from "./FollowUpChips";
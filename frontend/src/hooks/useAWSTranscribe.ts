@@ -73,6 +73,7 @@ export interface UseAWSTranscribeOptions {
   onError?: (error: Error) => void;
   onStart?: () => void;
   onStop?: () => void;
+  onAudioData?: (data: Uint8Array) => void;  // Captured PCM, also sent to the backend for voice activity detection
   // Auto-stop configuration
   inactivityTimeout?: number; // Milliseconds of silence before auto-stop (default: 10000)
   stopOnTabHidden?: boolean; // Stop when tab becomes hidden (default: true)
@@ -96,6 +97,7 @@ export function useAWSTranscribe({
   onError,
   onStart,
   onStop,
+  onAudioData,
   inactivityTimeout = 10000, // 10 seconds default
   stopOnTabHidden = true,
   sessionRefreshInterval = 300000, // 5 minutes default
@@ -299,6 +301,7 @@ export function useAWSTranscribe({
       await audioCapture.current.start((audioData) => {
         // Push audio data to stream
         audioStream.current?.push(audioData);
+        onAudioData?.(audioData);
       });
 
       setIsListening(true);
@@ -470,7 +473,7 @@ export function useAWSTranscribe({
       // Cleanup
       stopListening();
     }
-  }, [isListening, config, onTranscript, onError, onStart, stopListening, resetInactivityTimer]);
+  }, [isListening, config, onTranscript, onError, onStart, onAudioData, stopListening, resetInactivityTimer]);
 
   return {
     isListening,
@@ -3,14 +3,19 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import { createLogger } from "@/utils/logger";
 import {
-  playAudioFromBase64,
+  getSharedAudioContext,
+  pcm16ToAudioBuffer,
+  playEncodedAudio,
+  scheduleAudioBuffer,
   setSharedVolume,
+  type EncodedAudio,
 } from "@/utils/audioUnlock";
+import type { AudioFrame, PlaybackPosition } from "@/types";
 
 const log = createLogger("AudioPlayer");
 
 interface AudioChunk {
-  data: string;
+  data: EncodedAudio;
   format: string;
   index: number;
   total: number;
@@ -20,19 +25,36 @@ interface AudioChunk {
 
 interface UseAudioPlayerReturn {
   isPlaying: boolean;
-  play: (base64Audio: string, format?: string, responseId?: string, isProtected?: boolean) => Promise<void>;
+  play: (audioData: EncodedAudio, format?: string, responseId?: string, isProtected?: boolean) => Promise<void>;
   playChunk: (chunk: AudioChunk) => void;
+  playStreamFrame: (frame: AudioFrame) => void;  // Binary PCM frame (streaming TTS)
   stop: () => void;
   cancelAllAudio: () => void;  // Call when user sends new message
+  getPlaybackPosition: () => { responseId: string; position?: PlaybackPosition } | null;  // For interrupt (call before cancelAllAudio)
   setVolume: (volume: number) => void;
 }
 
+// A response's clip or chunk that started playing (AudioContext time, seconds)
+interface PlayingAudio {
+  responseId: string;
+  chunkIndex: number;
+  startedAt: number;
+  duration: number;
+}
+
+// Where a streamed chunk's frames are scheduled (AudioContext time, seconds)
+interface StreamChunkSpan {
+  start: number;
+  end: number;
+  complete: boolean;  // Chunk end marker received: end is the chunk's full length
+}
+
 export function useAudioPlayer(): UseAudioPlayerReturn {
   const [isPlaying, setIsPlaying] = useState(false);
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
 
   // Queue for chunked audio playback
-  const audioQueueRef = useRef<Map<number, string>>(new Map());
+  const audioQueueRef = useRef<Map<number, EncodedAudio>>(new Map());
   const currentChunkIndexRef = useRef(0);
   const totalChunksRef = useRef(0);
   const isPlayingQueueRef = useRef(false);
@@ -44,12 +66,25 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
 
   // Protected audio (long-waiting) - must play to completion + delay
   const isProtectedAudioRef = useRef(false);
-  const protectedAudioQueueRef = useRef<Array<{ base64Audio: string; format: string; responseId?: string }>>([]);
+  const protectedAudioQueueRef = useRef<Array<{ audioData: EncodedAudio; format: string; responseId?: string }>>([]);
   const POST_PROTECTED_DELAY = 400; // 400ms delay after protected audio completes
 
   // Callback ref for processNextChunk (to avoid circular dependencies)
   const processNextChunkRef = useRef<(() => Promise<void>) | null>(null);
 
+  // Streamed PCM playback: frames are scheduled back to back on the shared AudioContext
+  const STREAM_LEAD_TIME = 0.05;  // Seconds of jitter buffer before the first frame
+  const streamResponseIdRef = useRef<string | null>(null);
+  const streamSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const streamNextStartRef = useRef(0);  // Context time where the next frame starts
+  const streamEndedRef = useRef(false);  // End-of-response frame received
+  const protectedStreamQueueRef = useRef<AudioFrame[]>([]);  // Frames held during protected audio
+  const playStreamFrameRef = useRef<((frame: AudioFrame) => void) | null>(null);
+  const streamChunksRef = useRef<Map<number, StreamChunkSpan>>(new Map());
+
+  // Last response clip/chunk started (kept after it ends: it was heard in full)
+  const playingAudioRef = useRef<PlayingAudio | null>(null);
+
   // Safely stop an AudioBufferSourceNode (may throw if already stopped)
   const stopSource = useCallback((source: AudioBufferSourceNode | null) => {
     if (source) {
@@ -64,6 +99,19 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
   // Buffer for chunks that arrive before chunk 0 (out-of-order) - declared early for cancelAllAudio
   const pendingChunksRef = useRef<Map<string, AudioChunk[]>>(new Map());
 
+  // Stop every scheduled stream frame and reset the stream timeline
+  const stopStream = useCallback(() => {
+    for (const source of streamSourcesRef.current) {
+      source.onended = null;
+      stopSource(source);
+    }
+    streamSourcesRef.current.clear();
+    streamResponseIdRef.current = null;
+    streamNextStartRef.current = 0;
+    streamEndedRef.current = false;
+    streamChunksRef.current.clear();
+  }, [stopSource]);
+
   // Stop all audio and reject future audio until new response starts
   const cancelAllAudio = useCallback(() => {
     log.debug("CANCEL ALL: Stopping audio and rejecting future audio");
@@ -71,6 +119,8 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     // Stop current audio (including protected audio)
     stopSource(sourceRef.current);
     sourceRef.current = null;
+    playingAudioRef.current = null;
+    stopStream();
 
     // Clear queue
     isPlayingQueueRef.current = false;
@@ -82,6 +132,7 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     // Clear protected audio state
     isProtectedAudioRef.current = false;
     protectedAudioQueueRef.current = [];
+    protectedStreamQueueRef.current = [];
     
     // Clear pending chunks buffer
     pendingChunksRef.current.clear();
@@ -89,11 +140,11 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     // Reject all audio until new response with valid responseId
     acceptedResponseIdRef.current = "__CANCELLED__";
     setIsPlaying(false);
-  }, [stopSource]);
+  }, [stopSource, stopStream]);
 
   // Play full audio (for greeting, long_waiting, sequential TTS)
   const play = useCallback(
-    async (base64Audio: string, format: string = "mp3", responseId?: string, isProtected: boolean = false) => {
+    async (audioData: EncodedAudio, format: string = "mp3", responseId?: string, isProtected: boolean = false) => {
       // Check if we should accept this audio
       if (acceptedResponseIdRef.current === "__CANCELLED__") {
         // Only accept if it has a responseId (new response starting)
@@ -120,7 +171,7 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
       // If protected audio is currently playing, queue this audio
       if (isProtectedAudioRef.current && !isProtected) {
         log.debug(`Protected audio playing - queueing result audio (responseId: ${responseId?.slice(-8) || 'none'})`);
-        protectedAudioQueueRef.current.push({ base64Audio, format, responseId });
+        protectedAudioQueueRef.current.push({ audioData, format, responseId });
         return;
       }
 
@@ -130,6 +181,7 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
           stopSource(sourceRef.current);
           sourceRef.current = null;
         }
+        stopStream();
 
         // Clear chunk queue
         isPlayingQueueRef.current = false;
@@ -145,8 +197,13 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
         }
 
         // Decode and play via Web Audio API
-        const { source } = await playAudioFromBase64(base64Audio, format);
+        const { source, duration } = await playEncodedAudio(audioData, format);
         sourceRef.current = source;
+        if (!isProtected) {
+          playingAudioRef.current = responseId
+            ? { responseId, chunkIndex: 0, startedAt: getSharedAudioContext().currentTime, duration }
+            : null;
+        }
         setIsPlaying(true);
 
         source.onended = async () => {
@@ -160,8 +217,17 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
             // Wait the post-protected delay
             await new Promise(resolve => setTimeout(resolve, POST_PROTECTED_DELAY));
 
+            // Check if we have buffered stream frames (streaming TTS)
+            if (protectedStreamQueueRef.current.length > 0) {
+              const frames = protectedStreamQueueRef.current;
+              protectedStreamQueueRef.current = [];
+              log.debug(`Playing ${frames.length} buffered stream frames`);
+              for (const frame of frames) {
+                playStreamFrameRef.current?.(frame);
+              }
+            }
             // Check if we have buffered chunks (parallel TTS)
-            if (audioQueueRef.current.size > 0 && totalChunksRef.current > 0) {
+            else if (audioQueueRef.current.size > 0 && totalChunksRef.current > 0) {
               log.debug(`Playing buffered chunks (${audioQueueRef.current.size}/${totalChunksRef.current})`);
               isPlayingQueueRef.current = true;
               isProcessingChunkRef.current = false;
@@ -176,7 +242,7 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
               const queued = protectedAudioQueueRef.current.shift();
               if (queued) {
                 log.debug(`Playing queued result audio (responseId: ${queued.responseId?.slice(-8) || 'none'})`);
-                play(queued.base64Audio, queued.format, queued.responseId, false);
+                play(queued.audioData, queued.format, queued.responseId, false);
               }
             }
           }
@@ -186,8 +252,9 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
         log.error(`Failed to play audio (responseId: ${responseId?.slice(-8) || 'none'}, protected: ${isProtected}):`, errorMsg);
         
         // Log additional context for debugging
-        if (base64Audio) {
-          log.debug(`Audio data length: ${base64Audio.length} chars, format: ${format}`);
+        if (audioData) {
+          const size = typeof audioData === "string" ? `${audioData.length} chars` : `${audioData.byteLength} bytes`;
+          log.debug(`Audio data length: ${size}, format: ${format}`);
         } else {
           log.error("Audio data is empty or undefined");
         }
@@ -196,7 +263,7 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
         isProtectedAudioRef.current = false;
       }
     },
-    [stopSource]
+    [stopSource, stopStream]
   );
 
   // Track chunk playback timing
@@ -243,8 +310,12 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     log.debug(`▶️ Playing chunk ${nextIndex}/${totalChunksRef.current}`);
 
     try {
-      const { source } = await playAudioFromBase64(audioData, "mp3");
+      const { source, duration } = await playEncodedAudio(audioData, "mp3");
       sourceRef.current = source;
+      const responseId = acceptedResponseIdRef.current;
+      playingAudioRef.current = responseId && responseId !== "__CANCELLED__"
+        ? { responseId, chunkIndex: nextIndex, startedAt: getSharedAudioContext().currentTime, duration }
+        : null;
 
       source.onended = () => {
         const playDuration = Math.round(performance.now() - chunkPlayStartRef.current);
@@ -372,10 +443,125 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     }
   }, [processNextChunk, stopSource]);
 
+  // Play a streamed PCM frame (binary streaming TTS)
+  // Frames arrive in order; each is scheduled right where the previous one ends
+  const playStreamFrame = useCallback((frame: AudioFrame) => {
+    // Same acceptance rules as full audio: frames always carry a responseId
+    if (acceptedResponseIdRef.current === "__CANCELLED__") {
+      log.debug(`Accepting new streamed response: ${frame.responseId.slice(-8)}`);
+    } else if (acceptedResponseIdRef.current && frame.responseId !== acceptedResponseIdRef.current) {
+      log.debug(`Rejecting stream frame - wrong responseId: got ${frame.responseId.slice(-8)}`);
+      return;
+    }
+    acceptedResponseIdRef.current = frame.responseId;
+
+    // Protected audio (long-waiting) plays to completion first
+    if (isProtectedAudioRef.current) {
+      protectedStreamQueueRef.current.push(frame);
+      return;
+    }
+
+    // First frame of a new response: stop whatever is playing
+    if (streamResponseIdRef.current !== frame.responseId) {
+      log.debug(`Starting streamed response: ${frame.responseId.slice(-8)}`);
+      stopSource(sourceRef.current);
+      sourceRef.current = null;
+      isPlayingQueueRef.current = false;
+      isProcessingChunkRef.current = false;
+      audioQueueRef.current.clear();
+      stopStream();
+      streamResponseIdRef.current = frame.responseId;
+    }
+
+    if (frame.isResponseEnd) {
+      streamEndedRef.current = true;
+      if (streamSourcesRef.current.size === 0) {
+        setIsPlaying(false);
+      }
+      return;
+    }
+    if (frame.payload.length === 0) {
+      // Chunk end marker
+      const span = streamChunksRef.current.get(frame.chunkIndex);
+      if (span) span.complete = true;
+      return;
+    }
+
+    try {
+      const ctx = getSharedAudioContext();
+      const buffer = pcm16ToAudioBuffer(frame.payload, frame.sampleRate);
+      const earliest = ctx.currentTime + STREAM_LEAD_TIME;
+      if (streamNextStartRef.current > 0 && streamNextStartRef.current < ctx.currentTime) {
+        log.warn(`⚠️ Stream underrun before chunk ${frame.chunkIndex} frame ${frame.seq}: ${Math.round((ctx.currentTime - streamNextStartRef.current) * 1000)}ms`);
+      }
+      const startAt = Math.max(streamNextStartRef.current, earliest);
+      const { source, duration } = scheduleAudioBuffer(buffer, startAt);
+      streamNextStartRef.current = startAt + duration;
+      const span = streamChunksRef.current.get(frame.chunkIndex);
+      if (span) {
+        span.end = startAt + duration;
+      } else {
+        streamChunksRef.current.set(frame.chunkIndex, { start: startAt, end: startAt + duration, complete: false });
+      }
+
+      streamSourcesRef.current.add(source);
+      setIsPlaying(true);
+
+      source.onended = () => {
+        streamSourcesRef.current.delete(source);
+        if (streamSourcesRef.current.size === 0 && streamEndedRef.current) {
+          log.debug(`✅ Streamed response played: ${frame.responseId.slice(-8)}`);
+          setIsPlaying(false);
+        }
+      };
+    } catch (error) {
+      log.error(`Stream frame ${frame.chunkIndex}/${frame.seq} failed:`, error);
+    }
+  }, [stopSource, stopStream]);
+
+  // How far the current response has played (streamed or clips/chunks)
+  // position is omitted when none of it has been heard yet
+  const getPlaybackPosition = useCallback((): { responseId: string; position?: PlaybackPosition } | null => {
+    const now = getSharedAudioContext().currentTime;
+    const toMs = (seconds: number) => Math.max(0, Math.round(seconds * 1000));
+
+    const streamId = streamResponseIdRef.current;
+    if (streamId) {
+      // Latest chunk whose audio has started
+      let playing: { index: number; span: StreamChunkSpan } | null = null;
+      for (const [index, span] of streamChunksRef.current) {
+        if (span.start <= now && (!playing || index > playing.index)) playing = { index, span };
+      }
+      if (!playing) return { responseId: streamId };
+      const { index, span } = playing;
+      return {
+        responseId: streamId,
+        position: {
+          chunkIndex: index,
+          offsetMs: toMs(Math.min(now, span.end) - span.start),
+          durationMs: span.complete ? toMs(span.end - span.start) : undefined,
+        },
+      };
+    }
+
+    const audio = playingAudioRef.current;
+    if (!audio) return null;
+    return {
+      responseId: audio.responseId,
+      position: {
+        chunkIndex: audio.chunkIndex,
+        offsetMs: toMs(Math.min(now - audio.startedAt, audio.duration)),
+        durationMs: toMs(audio.duration),
+      },
+    };
+  }, []);
+
   // Stop audio playback
   const stop = useCallback(() => {
     stopSource(sourceRef.current);
     sourceRef.current = null;
+    playingAudioRef.current = null;
+    stopStream();
 
     isPlayingQueueRef.current = false;
     isProcessingChunkRef.current = false;
@@ -383,7 +569,7 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     currentChunkIndexRef.current = 0;
     totalChunksRef.current = 0;
     setIsPlaying(false);
-  }, [stopSource]);
+  }, [stopSource, stopStream]);
 
   // Set volume via shared GainNode
   const setVolume = useCallback((volume: number) => {
@@ -395,20 +581,28 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     processNextChunkRef.current = processNextChunk;
   }, [processNextChunk]);
 
+  // Keep playStreamFrame ref updated
+  useEffect(() => {
+    playStreamFrameRef.current = playStreamFrame;
+  }, [playStreamFrame]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       stopSource(sourceRef.current);
       sourceRef.current = null;
+      stopStream();
     };
-  }, [stopSource]);
+  }, [stopSource, stopStream]);
 
   return {
     isPlaying,
     play,
     playChunk,
+    playStreamFrame,
     stop,
     cancelAllAudio,
+    getPlaybackPosition,
     setVolume,
   };
 }
@@ -17,6 +17,10 @@ import type {
   AudioMessage,
   ErrorMessage,
   VoiceEventMessage,
+  AudioFrame,
+  AudioCapabilitiesMessage,
+  ConnectedMessage,
+  PlaybackPosition,
   // Type guards
   isResponseMessage,
   isStatusMessage,
@@ -25,15 +29,23 @@ import type {
   // Helper functions for creating messages
   createVoiceEventMessage,
 } from "@/types";
+import { AUDIO_FRAME_VERSION, createAudioFrame, decodeAudioFrame, encodeAudioFrame } from "@/types";
+import type { EncodedAudio } from "@/utils/audioUnlock";
 
 const log = createLogger("WebSocket");
 
+// Copy a frame payload (a view into the WebSocket message) into its own ArrayBuffer
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer;
+}
+
 // Workflow step timing
 export interface WorkflowStep {
   step: string;
   name: string;
   nameJa: string;
   durationMs: number;
+  details?: Record<string, unknown>;
 }
 
 export interface WorkflowTiming {
@@ -54,7 +66,7 @@ export interface TimingInfo {
 }
 
 interface AudioChunk {
-  data: string;
+  data: EncodedAudio;
   format: string;
   index: number;
   total: number;
@@ -64,10 +76,13 @@ interface AudioChunk {
 
 interface UseWebSocketOptions {
   url: string;
-  onAudio?: (audioData: string, format: string, responseId?: string, isProtected?: boolean) => void;
+  onAudio?: (audioData: EncodedAudio, format: string, responseId?: string, isProtected?: boolean) => void;
   onAudioChunk?: (chunk: AudioChunk) => void;
+  onAudioFrame?: (frame: AudioFrame) => void;  // Binary PCM frame (streaming TTS)
   onWaiting?: (index: number) => void;  // Play waiting audio before DB search
   onTranscript?: (text: string, isFinal: boolean) => void;  // Real-time transcription
+  onSpeechStart?: () => void;  // Server VAD: the user started speaking
+  onSpeechEnd?: (durationMs: number) => void;  // Server VAD: the user stopped speaking
   onBackendResponse?: () => void;  // Called when any backend response arrives (text or audio)
   onItemFocused?: (index: number, itemId: string, domain: DomainType, itemTitle: string) => void;  // Item selected via voice
 }
@@ -85,8 +100,9 @@ interface UseWebSocketReturn {
   historyLoaded: boolean;
   sendMessage: (text: string) => void;
   sendAudioData: (data: ArrayBuffer) => void;
-  startListening: () => void;
+  startListening: (sampleRate?: number, recognize?: boolean) => void;
   stopListening: () => void;
+  sendInterrupt: (responseId?: string, position?: PlaybackPosition) => void;  // Barge-in
   requestRandomUser: () => void;
   loadHistory: (userId: string, limit?: number) => void;
   requestGreeting: () => void;
@@ -101,8 +117,11 @@ export function useWebSocket({
   url,
   onAudio,
   onAudioChunk,
+  onAudioFrame,
   onWaiting,
   onTranscript,
+  onSpeechStart,
+  onSpeechEnd,
   onBackendResponse,
   onItemFocused,
 }: UseWebSocketOptions): UseWebSocketReturn {
@@ -120,6 +139,7 @@ export function useWebSocket({
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const messageIdRef = useRef(0);
+  const binaryAudioRef = useRef(false);  // Negotiated in "connected": microphone audio goes as binary frames too
   
   // Timing refs for measuring actual perceived latency
   const requestStartTimeRef = useRef<number | null>(null);
@@ -140,6 +160,7 @@ export function useWebSocket({
 
     log.debug("Connecting to WebSocket:", url);
     const ws = new WebSocket(url);
+    ws.binaryType = "arraybuffer";  // Streamed TTS audio arrives as binary frames
 
     ws.onopen = () => {
       log.debug("WebSocket connected");
@@ -151,6 +172,7 @@ export function useWebSocket({
       log.debug("WebSocket disconnected");
       setIsConnected(false);
       wsRef.current = null;
+      binaryAudioRef.current = false;  // Renegotiated on the next "connected"
 
       // Attempt to reconnect after 3 seconds
       reconnectTimeoutRef.current = setTimeout(() => {
@@ -165,6 +187,10 @@ export function useWebSocket({
     };
 
     ws.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) {
+        handleBinaryMessage(event.data);
+        return;
+      }
       try {
         const message = JSON.parse(event.data) as WSMessage;
         handleMessage(message);
@@ -176,13 +202,75 @@ export function useWebSocket({
     wsRef.current = ws;
   }, [url]);
 
+  // Handle binary messages (streamed TTS audio frames)
+  const handleBinaryMessage = useCallback(
+    (data: ArrayBuffer) => {
+      const frame = decodeAudioFrame(data);
+      if (!frame) {
+        log.warn(`Unknown binary message (${data.byteLength} bytes)`);
+        return;
+      }
+      // Record time to first audio
+      if (frame.payload.length > 0 && requestStartTimeRef.current && !firstAudioTimeRef.current) {
+        firstAudioTimeRef.current = performance.now();
+        const ttfa = Math.round(firstAudioTimeRef.current - requestStartTimeRef.current);
+        log.debug(`🔊 Time to First Audio (binary ${frame.kind}): ${ttfa}ms`);
+        onBackendResponse?.();
+      }
+
+      const responseId = frame.responseId || undefined;
+      switch (frame.kind) {
+        case "stream":
+          onAudioFrame?.(frame);
+          break;
+
+        case "audio":
+          log.debug(`📨 Received full audio frame (responseId: ${responseId ? responseId.slice(-8) : 'none'})`);
+          onAudio?.(toArrayBuffer(frame.payload), frame.format, responseId);
+          break;
+
+        case "chunk":
+          onAudioChunk?.({
+            data: toArrayBuffer(frame.payload),
+            format: frame.format,
+            index: frame.chunkIndex,
+            total: frame.chunkTotal,
+            isLast: frame.isChunkEnd,
+            responseId,
+          });
+          break;
+
+        case "long_waiting":
+          // Protected: plays to completion before the response audio
+          log.debug(`⏳ Long waiting frame received (responseId: ${responseId ? responseId.slice(-8) : 'none'})`);
+          onAudio?.(toArrayBuffer(frame.payload), frame.format, responseId, true);
+          break;
+      }
+    },
+    [onAudio, onAudioChunk, onAudioFrame, onBackendResponse]
+  );
+
   // Handle incoming messages
   const handleMessage = useCallback(
     (message: WSMessage) => {
       switch (message.type) {
-        case "connected":
+        case "connected": {
           log.debug("Connected:", message.message);
+          // Accept binary audio frames when the server offers a version we understand
+          // (older servers send no offer and keep using base64 JSON)
+          const offer = message.audioFrames as ConnectedMessage["audioFrames"];
+          const binary = offer?.version === AUDIO_FRAME_VERSION;
+          const capabilities: AudioCapabilitiesMessage = {
+            type: "audio_capabilities",
+            binary,
+            streaming: binary,
+            formats: binary ? ["pcm16", "mp3", "wav"] : [],
+          };
+          wsRef.current?.send(JSON.stringify(capabilities));
+          binaryAudioRef.current = binary;
+          log.debug(`🔈 Binary audio: ${binary ? "on" : "off (JSON fallback)"}`);
           break;
+        }
 
         case "status":
           setStatus(message.status as ConversationStatus);
@@ -207,6 +295,7 @@ export function useWebSocket({
           const messageId = message.messageId as string | undefined;
           const archiveItem = message.archiveItem as any;
           const searchResults = message.searchResults as any;
+          const component = message.component as ChatMessage["component"];
           
           if (messageId) {
             // Update existing message or add new one with messageId
@@ -218,11 +307,14 @@ export function useWebSocket({
                 updated[index] = {
                   ...updated[index],
                   content: message.text as string,
+                  displayText: message.displayText as string | undefined,
+                  followUps: message.followUps as string[] | undefined,
                   emotion: message.emotion as EmotionType,
                   domain: message.domain as DomainType | undefined,
                   messageId,
                   archiveItem,
                   searchResults,
+                  component,
                 };
                 return updated;
               }
@@ -233,12 +325,15 @@ export function useWebSocket({
                   id: messageId,
                   role: "assistant",
                   content: message.text as string,
+                  displayText: message.displayText as string | undefined,
+                  followUps: message.followUps as string[] | undefined,
                   emotion: message.emotion as EmotionType,
                   timestamp: new Date(),
                   domain: message.domain as DomainType | undefined,
                   messageId,
                   archiveItem,
                   searchResults,
+                  component,
                 },
               ];
             });
@@ -250,11 +345,14 @@ export function useWebSocket({
                 id: generateId(),
                 role: "assistant",
                 content: message.text as string,
+                displayText: message.displayText as string | undefined,
+                followUps: message.followUps as string[] | undefined,
                 emotion: message.emotion as EmotionType,
                 timestamp: new Date(),
                 domain: message.domain as DomainType | undefined,
                 archiveItem,
                 searchResults,
+                component,
               },
             ]);
           }
@@ -350,17 +448,30 @@ export function useWebSocket({
             onBackendResponse?.();
           }
           // Play the long waiting audio immediately with responseId and PROTECTED flag
-          onAudio?.(message.audio as string, "mp3", longWaitingResponseId, true);
+          onAudio?.(message.audio as string, (message.format as string) || "mp3", longWaitingResponseId, true);
           break;
 
         case "transcript":
-          // Real-time transcription from AWS Transcribe
+          // Real-time transcription (server-side speech recognition)
           onTranscript?.(
             message.text as string,
             message.isFinal as boolean
           );
           break;
 
+        case "speech_start":
+          onSpeechStart?.();
+          break;
+
+        case "speech_end":
+          onSpeechEnd?.(message.durationMs as number);
+          break;
+
+        case "interrupt_ack":
+          // The server stopped the response and recorded what was heard
+          log.debug(`✋ Interrupt acknowledged (cancelled: ${message.cancelled}): "${message.spokenText}"`);
+          break;
+
         case "processing_voice":
           // Backend started processing voice input - start TTFR timer
           log.debug("🎤 Voice processing started, starting TTFR timer");
@@ -369,10 +480,6 @@ export function useWebSocket({
           firstAudioTimeRef.current = null;
           break;
 
-        case "error":
-          setError(message.message as string);
-          break;
-
         case "timing":
           setLastTiming({
             timings: message.timings as Array<{ action: string; durationMs: number }>,
@@ -423,6 +530,12 @@ export function useWebSocket({
               message.itemId as string,
               message.domain as DomainType,
               {
+                // Title/data let assistant-saved items appear even if not yet in the stack
+                ...(message.itemTitle ? {
+                  itemTitle: message.itemTitle as string,
+                  itemDomain: message.domain as DomainType,
+                  itemData: message.itemData as Record<string, unknown> | undefined,
+                } : {}),
                 savedAt: new Date(),
                 friendsMatched: message.friends_matched as FriendMatch[],
               }
@@ -431,6 +544,18 @@ export function useWebSocket({
           }
           break;
 
+        case "archive_removed":
+          log.debug(`🗑️ Archive removed: ${message.domain}/${message.itemId}`);
+          // Keep the item as a candidate, but no longer marked as saved
+          if (archiveStorage.getById(message.itemId as string, message.domain as string)) {
+            archiveStorage.updateItem(
+              message.itemId as string,
+              message.domain as DomainType,
+              { savedAt: undefined, friendsMatched: undefined }
+            );
+          }
+          break;
+
         case "user_info_set":
           if (message.success && message.user) {
             const user = message.user as { userId: number; nickName: string };
@@ -545,10 +670,13 @@ export function useWebSocket({
                   updated[index] = {
                     ...updated[index],
                     content: text.content,
+                    displayText: text.display,
+                    followUps: responseMsg.followUps,
                     emotion: rabbit?.emotion,
                     domain: context?.domain,
                     archiveItem: extra?.archiveItem,
                     searchResults,
+                    component: component?.type === "friend_match" ? component : undefined,
                   };
                   return updated;
                 }
@@ -558,12 +686,15 @@ export function useWebSocket({
                     id: text.messageId,
                     role: "assistant",
                     content: text.content,
+                    displayText: text.display,
+                    followUps: responseMsg.followUps,
                     emotion: rabbit?.emotion,
                     timestamp: new Date(),
                     domain: context?.domain,
                     messageId: text.messageId,
                     archiveItem: extra?.archiveItem,
                     searchResults,
+                    component: component?.type === "friend_match" ? component : undefined,
                   },
                 ];
               });
@@ -633,7 +764,7 @@ export function useWebSocket({
           log.debug("Unknown message type:", message.type);
       }
     },
-    [generateId, onAudio, onAudioChunk, onWaiting, onTranscript, onBackendResponse, onItemFocused]
+    [generateId, onAudio, onAudioChunk, onWaiting, onTranscript, onSpeechStart, onSpeechEnd, onBackendResponse, onItemFocused]
   );
 
   // Send message to server
@@ -653,9 +784,14 @@ export function useWebSocket({
     }
   }, []);
 
-  // Send audio data (for voice input)
+  // Send audio data (pcm16, for server-side speech recognition)
   const sendAudioData = useCallback((data: ArrayBuffer) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
+      if (binaryAudioRef.current) {
+        wsRef.current.send(encodeAudioFrame(createAudioFrame("mic", "pcm16", new Uint8Array(data))));
+        return;
+      }
+
       // Convert ArrayBuffer to base64
       const uint8Array = new Uint8Array(data);
       let binary = "";
@@ -673,10 +809,11 @@ export function useWebSocket({
     }
   }, []);
 
-  // Start listening (for voice input)
-  const startListening = useCallback(() => {
+  // Start listening (for voice input); sampleRate of the audio that follows,
+  // recognize=false for speech_start / speech_end only (recognition done elsewhere)
+  const startListening = useCallback((sampleRate?: number, recognize?: boolean) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: "start_listening" }));
+      wsRef.current.send(JSON.stringify({ type: "start_listening", sampleRate, recognize }));
     }
   }, []);
 
@@ -687,6 +824,13 @@ export function useWebSocket({
     }
   }, []);
 
+  // Barge-in: tell the server the user cut in, and how far playback got
+  const sendInterrupt = useCallback((responseId?: string, position?: PlaybackPosition) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: "interrupt", responseId, position }));
+    }
+  }, []);
+
   // Request random user from backend
   const requestRandomUser = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
@@ -844,6 +988,7 @@ export function useWebSocket({
     sendAudioData,
     startListening,
     stopListening,
+    sendInterrupt,
     requestRandomUser,
     loadHistory,
     requestGreeting,
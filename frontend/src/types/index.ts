@@ -29,7 +29,7 @@ export { EMOTIONS } from "@rabbit/shared";
  * Audio chunk received from backend
  */
 export interface AudioChunk {
-  data: string;
+  data: string | ArrayBuffer;  // base64 (JSON) or raw bytes (binary frame)
   format: string;
   index: number;
   total: number;
@@ -45,6 +45,7 @@ export interface WorkflowStep {
   name: string;
   nameJa: string;
   durationMs: number;
+  details?: Record<string, unknown>;
 }
 
 /**
@@ -111,7 +112,7 @@ export interface UseWebSocketReturn {
   historyLoaded: boolean;
   sendMessage: (text: string) => void;
   sendAudioData: (data: ArrayBuffer) => void;
-  startListening: () => void;
+  startListening: (sampleRate?: number, recognize?: boolean) => void;
   stopListening: () => void;
   requestRandomUser: () => void;
   loadHistory: (userId: string, limit?: number) => void;
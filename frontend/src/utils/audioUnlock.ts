@@ -74,6 +74,11 @@ export function isAudioUnlocked(): boolean {
   return isUnlocked;
 }
 
+/**
+ * Encoded audio as received: base64 (JSON messages) or raw bytes (binary frames)
+ */
+export type EncodedAudio = string | ArrayBuffer;
+
 /**
  * Play audio from a base64-encoded string using the Web Audio API.
  * Returns the source node and estimated duration for stop/onended control.
@@ -81,14 +86,45 @@ export function isAudioUnlocked(): boolean {
 export async function playAudioFromBase64(
   base64: string,
   format: string = "mp3"
+): Promise<{ source: AudioBufferSourceNode; duration: number }> {
+  // Validate input
+  if (!base64 || base64.length === 0) {
+    log.error("playAudioFromBase64 failed: Empty base64 audio data");
+    throw new Error("Audio playback failed: Empty base64 audio data");
+  }
+
+  // Decode base64 to ArrayBuffer
+  let binaryString: string;
+  try {
+    binaryString = atob(base64);
+  } catch (err) {
+    const errorMsg = `Invalid base64 encoding: ${err instanceof Error ? err.message : String(err)}`;
+    log.error(`playAudioFromBase64 failed: ${errorMsg}`);
+    throw new Error(`Audio playback failed: ${errorMsg}`);
+  }
+
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+
+  return playAudioFromBytes(bytes.buffer, format);
+}
+
+/**
+ * Play encoded audio bytes (mp3/wav) using the Web Audio API.
+ * Binary audio frames arrive as ArrayBuffer and skip the base64 step.
+ */
+export async function playAudioFromBytes(
+  data: ArrayBuffer,
+  format: string = "mp3"
 ): Promise<{ source: AudioBufferSourceNode; duration: number }> {
   const ctx = getSharedAudioContext();
   const gainNode = getSharedGainNode();
 
   try {
-    // Validate input
-    if (!base64 || base64.length === 0) {
-      throw new Error("Empty base64 audio data");
+    if (data.byteLength === 0) {
+      throw new Error("Empty audio data");
     }
 
     // Resume context if suspended (e.g., after returning from background)
@@ -97,29 +133,12 @@ export async function playAudioFromBase64(
       await ctx.resume();
     }
 
-    // Decode base64 to ArrayBuffer
-    let binaryString: string;
-    try {
-      binaryString = atob(base64);
-    } catch (err) {
-      throw new Error(`Invalid base64 encoding: ${err instanceof Error ? err.message : String(err)}`);
-    }
-
-    if (binaryString.length === 0) {
-      throw new Error("Decoded base64 resulted in empty data");
-    }
-
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
+    log.debug(`Decoding audio: ${data.byteLength} bytes, format: ${format}`);
 
-    log.debug(`Decoding audio: ${bytes.length} bytes, format: ${format}`);
-
-    // Decode audio data to AudioBuffer
+    // Decode audio data to AudioBuffer (decodeAudioData detaches its input, so pass a copy)
     let audioBuffer: AudioBuffer;
     try {
-      audioBuffer = await ctx.decodeAudioData(bytes.buffer.slice(0));
+      audioBuffer = await ctx.decodeAudioData(data.slice(0));
     } catch (err) {
       throw new Error(`Failed to decode audio data: ${err instanceof Error ? err.message : String(err)}`);
     }
@@ -140,11 +159,23 @@ export async function playAudioFromBase64(
   } catch (error) {
     // Re-throw with context
     const errorMsg = error instanceof Error ? error.message : String(error);
-    log.error(`playAudioFromBase64 failed: ${errorMsg}`);
+    log.error(`playAudioFromBytes failed: ${errorMsg}`);
     throw new Error(`Audio playback failed: ${errorMsg}`);
   }
 }
 
+/**
+ * Play audio in either encoding (base64 or raw bytes).
+ */
+export function playEncodedAudio(
+  data: EncodedAudio,
+  format: string = "mp3"
+): Promise<{ source: AudioBufferSourceNode; duration: number }> {
+  return typeof data === "string"
+    ? playAudioFromBase64(data, format)
+    : playAudioFromBytes(data, format);
+}
+
 /**
  * Play an AudioBuffer directly using the shared context.
  * Used for pre-loaded waiting sounds.
@@ -168,6 +199,43 @@ export function playAudioBuffer(
   return { source, duration: buffer.duration };
 }
 
+/**
+ * Convert 16-bit little-endian mono PCM (streamed TTS frames) to an AudioBuffer.
+ */
+export function pcm16ToAudioBuffer(pcm: Uint8Array, sampleRate: number): AudioBuffer {
+  const ctx = getSharedAudioContext();
+  const sampleCount = Math.floor(pcm.byteLength / 2);
+  const buffer = ctx.createBuffer(1, sampleCount, sampleRate);
+  const channel = buffer.getChannelData(0);
+  const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  for (let i = 0; i < sampleCount; i++) {
+    channel[i] = view.getInt16(i * 2, true) / 32768;
+  }
+  return buffer;
+}
+
+/**
+ * Schedule an AudioBuffer at a context time (for gapless streamed playback).
+ */
+export function scheduleAudioBuffer(
+  buffer: AudioBuffer,
+  when: number
+): { source: AudioBufferSourceNode; duration: number } {
+  const ctx = getSharedAudioContext();
+  const gainNode = getSharedGainNode();
+
+  if (ctx.state === "suspended") {
+    ctx.resume();
+  }
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(gainNode);
+  source.start(when);
+
+  return { source, duration: buffer.duration };
+}
+
 /**
  * Preload all waiting sound files into AudioBuffer cache.
  * Call after unlocking the AudioContext.
@@ -220,9 +220,9 @@ export class AudioCaptureManager {
         // Check if RNNoise module is loaded
         if (!loadRnnoise || !RnnoiseWorkletNode) {
           log.debug("⏳ Waiting for RNNoise module to load...");
-          const module = await import('@sapphi-red/web-noise-suppressor');
-          loadRnnoise = module.loadRnnoise;
-          RnnoiseWorkletNode = module.RnnoiseWorkletNode;
+          const suppressor = await import('@sapphi-red/web-noise-suppressor');
+          loadRnnoise = suppressor.loadRnnoise;
+          RnnoiseWorkletNode = suppressor.RnnoiseWorkletNode;
         }
         
         log.debug("🔧 Loading RNNoise WASM...");
@@ -62,6 +62,7 @@ export type ErrorCode =
   | "NETWORK_ERROR"
   | "AUTH_ERROR" 
   | "TTS_ERROR"
+  | "STT_ERROR"
   | "DB_ERROR"
   | "RATE_LIMIT"
   | "VALIDATION_ERROR"
@@ -78,6 +79,7 @@ export type EventName =
   | "load_history"
   | "request_greeting"
   | "set_user_info"
+  | "interrupt"
   | "ping";
 
 /**
@@ -167,6 +169,7 @@ export interface UserContext {
   province?: string;
   introduction?: string;
   interests?: string[];
+  memories?: string[];  // Preferences remembered from conversation
 }
 
 /**
@@ -177,6 +180,7 @@ export interface ConversationTurn {
   content: string;
   domain?: DomainType;
   emotion?: EmotionType;
+  interrupted?: boolean;  // Assistant turn cut off by the user; content is only what was heard
 }
 
 // ============================================================================
@@ -222,6 +226,26 @@ export interface FriendMatchData {
   domain: DomainType;
 }
 
+/**
+ * Item recommended from users with overlapping archives
+ */
+export interface FriendRecommendation {
+  itemId: string;
+  itemTitle: string;
+  domain: DomainType;
+  itemData?: Record<string, unknown>;
+  friends: FriendMatch[];  // Similar users who saved it (most similar first)
+  score: number;           // Sum of archive overlap with those users
+}
+
+/**
+ * Friend recommendation component data (rendered as friend_match)
+ */
+export interface FriendRecommendationData {
+  recommendations: FriendRecommendation[];
+  domain?: DomainType;
+}
+
 /**
  * Search results (union of movie/gourmet)
  */
@@ -299,12 +323,13 @@ export interface ResponseMessage extends WSBaseMessage {
     content: string;
     isStreaming: boolean;  // true = delta update, false = complete
     messageId: string;     // For tracking streaming updates
+    display?: string;      // On-screen rendering of the complete message, when it differs from content
   };
   
   /** Component to render (optional) */
   component?: {
     type: ComponentType;
-    data: MovieListData | GourmetListData | ArchiveConfirmData | FriendMatchData | null;
+    data: MovieListData | GourmetListData | ArchiveConfirmData | FriendMatchData | FriendRecommendationData | null;
   };
   
   /** Conversation context (optional) */
@@ -312,6 +337,9 @@ export interface ResponseMessage extends WSBaseMessage {
     domain: DomainType;
     intent?: string;  // What user wanted (for debugging)
   };
+
+  /** Suggested next messages, shown as tappable chips (optional, 2-4) */
+  followUps?: string[];
   
   /** Extra metadata (optional, extensible) */
   extra?: {
@@ -385,6 +413,7 @@ export interface ConnectedMessage extends WSBaseMessage {
   type: "connected";
   sessionId: string;
   message: string;
+  audioFrames?: AudioFrameOffer;  // Binary audio offer (answer with audio_capabilities)
 }
 
 /**
@@ -413,9 +442,23 @@ export interface ArchiveSavedMessage extends WSBaseMessage {
   message: string;
   itemId: string;
   domain: DomainType;
+  itemTitle?: string;                   // Set when saved by the assistant (item may not be on the client yet)
+  itemData?: Record<string, unknown>;
   friends_matched?: FriendMatch[];
 }
 
+/**
+ * Archive removed response (item removed by the assistant)
+ */
+export interface ArchiveRemovedMessage extends WSBaseMessage {
+  type: "archive_removed";
+  success: boolean;
+  message: string;
+  itemId: string;
+  domain: DomainType;
+  itemTitle?: string;
+}
+
 /**
  * User info set response
  */
@@ -435,6 +478,7 @@ export interface WorkflowTiming {
     name: string;
     nameJa: string;
     durationMs: number;
+    details?: Record<string, unknown>;  // e.g. { iteration, tools } for tool loop steps
   }>;
   hasDbSearch: boolean;
   dbSearchTime: number;
@@ -528,7 +572,9 @@ export interface WSMessage {
  */
 export interface AssistantMessage extends WSMessage {
   type: "assistant_message";
-  text: string;
+  text: string;  // Spoken rendering (what TTS reads)
+  displayText?: string;  // On-screen rendering (original titles, URLs), when it differs from text
+  followUps?: string[];  // 2-4 suggested next messages, shown as chips
   emotion: EmotionType;
   messageId?: string;
   domain?: DomainType;
@@ -567,10 +613,51 @@ export interface AudioChunkMessage extends WSMessage {
 export interface LongWaitingMessage extends WSMessage {
   type: "long_waiting";
   audio: string;
+  format?: "mp3" | "wav";  // Defaults to mp3
   text: string;
   responseId?: string;
 }
 
+/**
+ * Transcript of the user's speech (server-side speech recognition)
+ * Partials (isFinal=false) are replaced by later ones; a final is submitted as the user's message
+ */
+export interface TranscriptMessage extends WSMessage {
+  type: "transcript";
+  text: string;
+  isFinal: boolean;
+}
+
+/**
+ * The user started speaking (server-side voice activity detection)
+ * Clients stop the assistant's audio here (barge-in)
+ */
+export interface SpeechStartMessage extends WSMessage {
+  type: "speech_start";
+  offsetMs: number;  // Position in the audio since start_listening
+}
+
+/**
+ * The user stopped speaking (silence for VAD_HANGOVER_MS)
+ * The utterance is submitted now (server recognition) or with its final transcript
+ */
+export interface SpeechEndMessage extends WSMessage {
+  type: "speech_end";
+  offsetMs: number;    // End of the last voiced audio
+  durationMs: number;  // Length of the utterance
+}
+
+/**
+ * Reply to interrupt: the response is stopped and its assistant turn
+ * recorded with only the text the user heard
+ */
+export interface InterruptAckMessage extends WSMessage {
+  type: "interrupt_ack";
+  responseId?: string;  // Response the interrupt was for
+  cancelled: boolean;   // It was still in progress and has been stopped
+  spokenText: string;   // What the user heard, as recorded in the assistant turn
+}
+
 /**
  * Legacy text input message
  * @deprecated Use VoiceEventMessage instead
@@ -622,6 +709,203 @@ export interface RequestGreetingMessage extends WSMessage {
   type: "request_greeting";
 }
 
+/**
+ * Client audio capabilities (reply to the audioFrames offer in "connected")
+ * binary=true: audio, audio_chunk and long_waiting come as binary frames
+ * streaming=true: TTS output comes as streamed PCM frames
+ */
+export interface AudioCapabilitiesMessage extends WSMessage {
+  type: "audio_capabilities";
+  binary: boolean;
+  streaming: boolean;
+  formats: AudioFrameFormat[];
+}
+
+/**
+ * Start listening: voice activity detection and server-side speech recognition
+ * Microphone audio follows as "mic" binary frames (or audio_data) until stop_listening
+ */
+export interface StartListeningMessage extends WSMessage {
+  type: "start_listening";
+  sampleRate?: number;  // Of the PCM that follows (server default: STT_SAMPLE_RATE)
+  recognize?: boolean;  // false: speech_start / speech_end only, no transcripts (default true)
+}
+
+/**
+ * Microphone audio for clients without binary frames
+ */
+export interface AudioDataMessage extends WSMessage {
+  type: "audio_data";
+  data: string;  // Base64 pcm16
+}
+
+/**
+ * How far playback of a response got
+ * chunkIndex matches the audio chunk / stream frame chunkIndex (0 for a single audio clip)
+ */
+export interface PlaybackPosition {
+  chunkIndex: number;   // Chunk playing when the user cut in
+  offsetMs: number;     // Played time within that chunk
+  durationMs?: number;  // Length of that chunk, when known
+}
+
+/**
+ * Barge-in: the user cut the assistant off
+ * The server cancels the response and records what was heard up to position
+ * (no position: nothing of the response was played)
+ */
+export interface InterruptMessage extends WSMessage {
+  type: "interrupt";
+  responseId?: string;  // Response being played (default: the current one)
+  position?: PlaybackPosition;
+}
+
+// ============================================================================
+// Binary Audio Frames
+// ============================================================================
+
+/**
+ * Payload encoding of a binary audio frame
+ */
+export type StreamAudioFormat = "pcm16";  // 16-bit little-endian mono PCM
+export type AudioFrameFormat = StreamAudioFormat | "mp3" | "wav";
+
+/**
+ * What a binary audio frame carries (the JSON message it replaces)
+ */
+export type AudioFrameKind =
+  | "stream"        // Streamed PCM frame (streaming TTS)
+  | "audio"         // Whole clip (audio)
+  | "chunk"         // One sentence of a chunked response (audio_chunk)
+  | "long_waiting"  // Protected waiting clip (long_waiting)
+  | "mic";          // Microphone PCM, client → server (audio_data)
+
+/**
+ * Binary audio frame, sent as a WebSocket binary message
+ *
+ * Layout (big-endian header, then payload):
+ *   u8  version      AUDIO_FRAME_VERSION
+ *   u8  kind         1 = stream, 2 = audio, 3 = chunk, 4 = long_waiting, 5 = mic
+ *   u8  format       1 = pcm16, 2 = mp3, 3 = wav
+ *   u8  flags        bit0 = last frame of the chunk (chunk: last chunk), bit1 = end of response
+ *   u16 chunkIndex   Sentence index within the response
+ *   u16 chunkTotal   Sentences in the response (chunk kind; 0 when unknown)
+ *   u16 seq          Frame number within the chunk (stream kind)
+ *   u32 sampleRate   pcm16 only (0 for encoded formats)
+ *   u8  responseId length (0 = none), then the responseId (UTF-8)
+ *   ... payload
+ */
+export interface AudioFrame {
+  kind: AudioFrameKind;
+  format: AudioFrameFormat;
+  responseId: string;      // "" when the audio belongs to no response
+  chunkIndex: number;
+  chunkTotal: number;
+  seq: number;
+  sampleRate: number;
+  isChunkEnd: boolean;     // No more frames for this chunk
+  isResponseEnd: boolean;  // No more chunks for this response
+  payload: Uint8Array;
+}
+
+export const AUDIO_FRAME_VERSION = 1;
+
+/**
+ * Binary audio offer sent in "connected" (older servers omit it: JSON only)
+ */
+export interface AudioFrameOffer {
+  version: number;
+  formats: AudioFrameFormat[];
+}
+
+const AUDIO_FRAME_KIND: Record<AudioFrameKind, number> = { stream: 1, audio: 2, chunk: 3, long_waiting: 4, mic: 5 };
+const AUDIO_FRAME_FORMAT: Record<AudioFrameFormat, number> = { pcm16: 1, mp3: 2, wav: 3 };
+const FLAG_CHUNK_END = 0x01;
+const FLAG_RESPONSE_END = 0x02;
+const AUDIO_FRAME_HEADER_BYTES = 15;
+
+function lookupKey<T extends string>(table: Record<T, number>, value: number): T | undefined {
+  return (Object.keys(table) as T[]).find(key => table[key] === value);
+}
+
+/**
+ * Build a frame; fields not given default to zero/false
+ */
+export function createAudioFrame(
+  kind: AudioFrameKind,
+  format: AudioFrameFormat,
+  payload: Uint8Array,
+  options?: Partial<Omit<AudioFrame, "kind" | "format" | "payload">>
+): AudioFrame {
+  return {
+    kind,
+    format,
+    responseId: options?.responseId ?? "",
+    chunkIndex: options?.chunkIndex ?? 0,
+    chunkTotal: options?.chunkTotal ?? 0,
+    seq: options?.seq ?? 0,
+    sampleRate: options?.sampleRate ?? 0,
+    isChunkEnd: options?.isChunkEnd ?? false,
+    isResponseEnd: options?.isResponseEnd ?? false,
+    payload,
+  };
+}
+
+/**
+ * Encode an audio frame for a WebSocket binary message
+ */
+export function encodeAudioFrame(frame: AudioFrame): Uint8Array {
+  const responseId = new TextEncoder().encode(frame.responseId);
+  if (responseId.length > 255) {
+    throw new Error("responseId too long for an audio frame");
+  }
+
+  const bytes = new Uint8Array(AUDIO_FRAME_HEADER_BYTES + responseId.length + frame.payload.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, AUDIO_FRAME_VERSION);
+  view.setUint8(1, AUDIO_FRAME_KIND[frame.kind]);
+  view.setUint8(2, AUDIO_FRAME_FORMAT[frame.format]);
+  view.setUint8(3, (frame.isChunkEnd ? FLAG_CHUNK_END : 0) | (frame.isResponseEnd ? FLAG_RESPONSE_END : 0));
+  view.setUint16(4, frame.chunkIndex);
+  view.setUint16(6, frame.chunkTotal);
+  view.setUint16(8, frame.seq);
+  view.setUint32(10, frame.sampleRate);
+  view.setUint8(14, responseId.length);
+  bytes.set(responseId, AUDIO_FRAME_HEADER_BYTES);
+  bytes.set(frame.payload, AUDIO_FRAME_HEADER_BYTES + responseId.length);
+  return bytes;
+}
+
+/**
+ * Decode a WebSocket binary message (null if it is not a known audio frame)
+ */
+export function decodeAudioFrame(data: ArrayBuffer | Uint8Array): AudioFrame | null {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.length < AUDIO_FRAME_HEADER_BYTES) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint8(0) !== AUDIO_FRAME_VERSION) return null;
+
+  const kind = lookupKey(AUDIO_FRAME_KIND, view.getUint8(1));
+  const format = lookupKey(AUDIO_FRAME_FORMAT, view.getUint8(2));
+  const idLength = view.getUint8(14);
+  if (!kind || !format || bytes.length < AUDIO_FRAME_HEADER_BYTES + idLength) return null;
+
+  const flags = view.getUint8(3);
+  return {
+    kind,
+    format,
+    responseId: new TextDecoder().decode(bytes.subarray(AUDIO_FRAME_HEADER_BYTES, AUDIO_FRAME_HEADER_BYTES + idLength)),
+    chunkIndex: view.getUint16(4),
+    chunkTotal: view.getUint16(6),
+    seq: view.getUint16(8),
+    sampleRate: view.getUint32(10),
+    isChunkEnd: (flags & FLAG_CHUNK_END) !== 0,
+    isResponseEnd: (flags & FLAG_RESPONSE_END) !== 0,
+    payload: bytes.subarray(AUDIO_FRAME_HEADER_BYTES + idLength),
+  };
+}
+
 // ============================================================================
 // Chat Message (Frontend UI)
 // ============================================================================
@@ -633,12 +917,15 @@ export interface ChatMessage {
   id: string;
   role: "user" | "assistant";
   content: string;
+  displayText?: string;  // Shown instead of content (assistant messages)
+  followUps?: string[];  // Suggested next messages (assistant messages)
   emotion?: EmotionType;
   timestamp: Date;
   domain?: DomainType;
   messageId?: string;
   archiveItem?: ArchiveItemInfo;
   searchResults?: SearchResults;
+  component?: ResponseMessage["component"];
 }
 
 // ============================================================================
@@ -740,6 +1027,8 @@ export function createResponseMessage(
     context?: ResponseMessage["context"];
     extra?: ResponseMessage["extra"];
     responseId?: string;
+    display?: string;
+    followUps?: string[];
   }
 ): ResponseMessage {
   return {
@@ -747,9 +1036,10 @@ export function createResponseMessage(
     timestamp: Date.now(),
     responseId: options?.responseId,
     rabbit: { emotion, status },
-    text: { content, isStreaming, messageId },
+    text: { content, isStreaming, messageId, ...(options?.display && { display: options.display }) },
     component: options?.component,
     context: options?.context,
+    ...(options?.followUps && { followUps: options.followUps }),
     extra: options?.extra,
   };
 }